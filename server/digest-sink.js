@@ -0,0 +1,115 @@
+// Local SMTP and webhook sink for testing the weekly digest. Accepts every
+// message and writes it to DIGEST_SINK_DIR (default .digest-sink): emails
+// as .eml plus their HTML part as .html, webhook posts as .json.
+//
+//   npm run digest:sink
+//   DIGEST_CONFIG=server/digest/digest.config.example.json \
+//     DIGEST_FIXTURES=server/digest/fixtures DIGEST_NOW=2026-10-19T08:00:00 npm run digest -- --once
+import http from 'node:http';
+import net from 'node:net';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const SMTP_PORT = Number(process.env.DIGEST_SINK_SMTP_PORT || 2525);
+const HTTP_PORT = Number(process.env.DIGEST_SINK_HTTP_PORT || 8790);
+const OUT_DIR = path.resolve(process.env.DIGEST_SINK_DIR || '.digest-sink');
+
+fs.mkdirSync(OUT_DIR, { recursive: true });
+
+let counter = 0;
+const save = (extension, content) => {
+  const file = path.join(OUT_DIR, `${new Date().toISOString().replace(/[:.]/g, '-')}-${++counter}.${extension}`);
+  fs.writeFileSync(file, content);
+  return file;
+};
+
+// Pulls the base64 text/html part out of a multipart message, if there is one
+const htmlPart = message => {
+  const match = /Content-Type: text\/html[^\r\n]*\r\n(?:[^\r\n]+\r\n)*\r\n([\s\S]*?)\r\n--/i.exec(message);
+  if (!match) return null;
+  return /Content-Transfer-Encoding: base64/i.test(message) ? Buffer.from(match[1].replace(/\s+/g, ''), 'base64').toString('utf8') : match[1];
+};
+
+// Just enough SMTP to take a message: no TLS, any AUTH is accepted
+const smtp = net.createServer(socket => {
+  let buffer = '';
+  let data = null;
+  let envelope = { from: '', to: [] };
+  const reply = line => socket.write(`${line}\r\n`);
+  reply('220 digest-sink ESMTP ready');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let newline;
+    while ((newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+
+      if (data !== null) {
+        if (line !== '.') {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+          continue;
+        }
+        const message = data.join('\r\n');
+        const file = save('eml', message);
+        const html = htmlPart(message);
+        if (html) save('html', html);
+        console.log(`[sink] mail from ${envelope.from} to ${envelope.to.join(', ')} -> ${file}`);
+        data = null;
+        envelope = { from: '', to: [] };
+        reply('250 OK: message accepted');
+        continue;
+      }
+
+      const verb = line.split(' ')[0].toUpperCase();
+      if (verb === 'EHLO') {
+        reply('250-digest-sink');
+        reply('250 AUTH PLAIN');
+      } else if (verb === 'HELO') reply('250 digest-sink');
+      else if (verb === 'AUTH') reply('235 Authentication successful');
+      else if (verb === 'MAIL') {
+        envelope.from = /<([^>]*)>/.exec(line)?.[1] ?? '';
+        reply('250 OK');
+      } else if (verb === 'RCPT') {
+        envelope.to.push(/<([^>]*)>/.exec(line)?.[1] ?? '');
+        reply('250 OK');
+      } else if (verb === 'DATA') {
+        data = [];
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (verb === 'RSET') {
+        envelope = { from: '', to: [] };
+        reply('250 OK');
+      } else if (verb === 'NOOP') reply('250 OK');
+      else if (verb === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else reply('502 Command not implemented');
+    }
+  });
+  socket.on('error', () => {});
+});
+
+const webhook = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Method not allowed' }));
+    return;
+  }
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    let pretty = body;
+    try {
+      pretty = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      console.warn('[sink] webhook body is not JSON');
+    }
+    const file = save('json', pretty);
+    console.log(`[sink] webhook ${req.url} -> ${file}`);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true }));
+  });
+});
+
+smtp.listen(SMTP_PORT, () => console.log(`Digest SMTP sink on smtp://localhost:${SMTP_PORT}`));
+webhook.listen(HTTP_PORT, () => console.log(`Digest webhook sink on http://localhost:${HTTP_PORT}, writing to ${OUT_DIR}`));
@@ -0,0 +1,180 @@
+// Weekly digest companion. Syncs each workspace through the same providers
+// the dashboard uses, builds a digest of the last seven days and sends it
+// as an HTML email and/or a JSON webhook on a weekly schedule:
+//
+//   DIGEST_CONFIG=digest.config.json npm run digest            # runs on schedule
+//   DIGEST_CONFIG=digest.config.json npm run digest -- --once  # sends now and exits
+//
+// DIGEST_FIXTURES=<dir> serves sheet requests from <dir>/<sheetId>_<gid>.txt
+// and DIGEST_NOW pins the clock, so a run can be tested offline against
+// server/digest-sink.js. See server/digest/digest.config.example.json.
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Workspace } from '../../src/types';
+import { getWorkspaceFormat, parseWorkspaceList } from '../../src/config';
+import { createProvider } from '../../src/providers';
+import { withRetry } from '../../src/sync';
+import { setFormatSettings } from '../../src/utils';
+import { buildDigest, DigestBaseline, toDigestBaseline } from '../../src/digest';
+import { digestSubject, renderDigestHtml, renderDigestPayload, renderDigestText } from './render';
+import { postWebhook, sendMail, SmtpConfig } from './deliver';
+
+interface DigestSchedule {
+  // 0 = Sunday … 6 = Saturday, in the server's local time
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+interface DigestRecipients {
+  workspace: string;
+  email?: string[];
+  webhook?: string;
+}
+
+interface DigestConfig {
+  // Path to a workspaces.json, relative to the config file
+  workspaces: string;
+  dashboardUrl?: string;
+  // Base URL for GHL workspaces whose proxyUrl is relative, e.g. the default /api/ghl
+  ghlProxyBase?: string;
+  schedule: DigestSchedule;
+  smtp?: Omit<SmtpConfig, 'password'>;
+  recipients: DigestRecipients[];
+  // Where the last digest's figures are kept, relative to the config file
+  stateFile?: string;
+}
+
+const DEFAULT_SCHEDULE: DigestSchedule = { weekday: 1, hour: 8, minute: 0 };
+
+const now = () => (process.env.DIGEST_NOW ? new Date(process.env.DIGEST_NOW) : new Date());
+
+const loadConfig = async (file: string): Promise<DigestConfig> => {
+  const json = JSON.parse(await fs.readFile(file, 'utf8'));
+  if (typeof json?.workspaces !== 'string') throw new Error(`${file}: 'workspaces' must name a workspaces.json`);
+  if (!Array.isArray(json.recipients) || !json.recipients.length) throw new Error(`${file}: no 'recipients' configured`);
+  return { ...json, schedule: { ...DEFAULT_SCHEDULE, ...json.schedule } };
+};
+
+/**
+ * Answers gviz requests from fixture files instead of Google, so the
+ * provider, mapping and validation run unchanged on recorded responses
+ */
+const serveFixtures = (dir: string) => {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const sheet = /\/spreadsheets\/d\/([^/]+)\/gviz\//.exec(url.pathname);
+    if (url.hostname !== 'docs.google.com' || !sheet) return realFetch(input, init);
+    const file = path.join(dir, `${decodeURIComponent(sheet[1])}_${url.searchParams.get('gid') ?? '0'}.txt`);
+    try {
+      return new Response(await fs.readFile(file, 'utf8'), { status: 200 });
+    } catch {
+      return new Response(`No fixture at ${file}`, { status: 404 });
+    }
+  };
+};
+
+// The dashboard's default /api/ghl proxy path only means something in a browser
+const resolveProxy = (workspace: Workspace, base: string | undefined): Workspace => {
+  if (workspace.provider !== 'ghl' || !workspace.ghl) return workspace;
+  const proxyUrl = workspace.ghl.proxyUrl ?? '/api/ghl';
+  if (/^https?:\/\//.test(proxyUrl)) return workspace;
+  return { ...workspace, ghl: { ...workspace.ghl, proxyUrl: new URL(proxyUrl, base ?? 'http://localhost:8787').toString() } };
+};
+
+type DigestState = Record<string, DigestBaseline>;
+
+const readState = async (file: string): Promise<DigestState> => {
+  try {
+    const json = JSON.parse(await fs.readFile(file, 'utf8'));
+    return Object.fromEntries(
+      Object.entries(json).map(([id, baseline]: [string, any]) => [id, { ...baseline, builtAt: new Date(baseline.builtAt) }])
+    );
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * The next occurrence of the scheduled weekday and time after `from`
+ */
+const nextRun = (schedule: DigestSchedule, from: Date): Date => {
+  const next = new Date(from.getFullYear(), from.getMonth(), from.getDate(), schedule.hour, schedule.minute);
+  next.setDate(next.getDate() + ((schedule.weekday - next.getDay() + 7) % 7));
+  if (next <= from) next.setDate(next.getDate() + 7);
+  return next;
+};
+
+/**
+ * Builds and delivers the digest for every workspace with recipients. One
+ * workspace failing to sync or deliver does not stop the others.
+ */
+const runDigests = async (config: DigestConfig, configDir: string): Promise<boolean> => {
+  const workspaces = parseWorkspaceList(JSON.parse(await fs.readFile(path.resolve(configDir, config.workspaces), 'utf8')));
+  const stateFile = path.resolve(configDir, config.stateFile ?? '.digest-state.json');
+  const state = await readState(stateFile);
+  let ok = true;
+
+  for (const recipients of config.recipients) {
+    const workspace = workspaces.find(w => w.id === recipients.workspace);
+    if (!workspace) {
+      console.error(`[digest] unknown workspace '${recipients.workspace}'`);
+      ok = false;
+      continue;
+    }
+    try {
+      const at = now();
+      const format = getWorkspaceFormat(workspace);
+      setFormatSettings(format);
+      const result = await withRetry(() => createProvider(resolveProxy(workspace, config.ghlProxyBase)).fetchDashboard());
+      const digest = buildDigest(workspace, result.data, result.issues, state[workspace.id] ?? null, at);
+
+      if (recipients.email?.length) {
+        if (!config.smtp) throw new Error('recipients have email addresses but no smtp server is configured');
+        await sendMail({ ...config.smtp, password: process.env.DIGEST_SMTP_PASSWORD }, {
+          to: recipients.email,
+          subject: digestSubject(digest),
+          text: renderDigestText(digest, format.locale, config.dashboardUrl),
+          html: renderDigestHtml(digest, format.locale, config.dashboardUrl),
+        });
+      }
+      if (recipients.webhook) await postWebhook(recipients.webhook, renderDigestPayload(digest, format.locale, config.dashboardUrl));
+
+      state[workspace.id] = toDigestBaseline(result.data, at);
+      console.log(`[digest] sent ${workspace.name}: ${digest.changes.length} notable changes, top source ${digest.topSource?.source ?? 'none'}`);
+    } catch (error) {
+      ok = false;
+      console.error(`[digest] ${workspace.name} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  await fs.writeFile(stateFile, JSON.stringify(state, null, 2));
+  return ok;
+};
+
+const main = async () => {
+  const configFile = path.resolve(process.env.DIGEST_CONFIG || 'digest.config.json');
+  const config = await loadConfig(configFile);
+  const configDir = path.dirname(configFile);
+  if (process.env.DIGEST_FIXTURES) serveFixtures(path.resolve(process.env.DIGEST_FIXTURES));
+
+  if (process.argv.includes('--once')) {
+    process.exitCode = (await runDigests(config, configDir)) ? 0 : 1;
+    return;
+  }
+
+  const schedule = () => {
+    const at = nextRun(config.schedule, new Date());
+    console.log(`[digest] next run ${at.toString()}`);
+    setTimeout(() => {
+      runDigests(config, configDir).catch(error => console.error('[digest] run failed:', error)).finally(schedule);
+    }, at.getTime() - Date.now());
+  };
+  schedule();
+};
+
+main().catch(error => {
+  console.error('[digest]', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+import { Digest, DigestChange } from '../../src/digest';
+import { KpiDelta } from '../../src/kpiTrends';
+
+// Email clients ignore stylesheets, so the palette is inlined
+const COLORS = {
+  dark: '#021526',
+  navy: '#03346E',
+  blue: '#6EACDA',
+  sand: '#E2E2B6',
+  success: '#10B981',
+  danger: '#EF4444',
+  muted: 'rgba(226,226,182,0.6)',
+};
+
+const SENTIMENT_COLORS: Record<DigestChange['sentiment'], string> = {
+  positive: COLORS.success,
+  negative: COLORS.danger,
+  neutral: COLORS.blue,
+};
+
+const SENTIMENT_MARKS: Record<DigestChange['sentiment'], string> = {
+  positive: '▲',
+  negative: '▼',
+  neutral: '•',
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+const formatDay = (date: Date, locale: string) =>
+  date.toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * "12 Oct 2026 – 19 Oct 2026", the week the digest covers
+ */
+export const describePeriod = (digest: Digest, locale: string): string =>
+  `${formatDay(digest.period.start, locale)} – ${formatDay(new Date(digest.period.end.getTime() - 1), locale)}`;
+
+export const digestSubject = (digest: Digest): string => `${digest.workspaceName} weekly pipeline digest`;
+
+const deltaText = (delta: KpiDelta | null) => (delta ? `${delta.label} ${delta.basis}` : '');
+
+const deltaColor = (delta: KpiDelta | null) =>
+  !delta || delta.sentiment === 'neutral' ? COLORS.muted : delta.sentiment === 'positive' ? COLORS.success : COLORS.danger;
+
+const dataQualityNote = (digest: Digest): string | null => {
+  if (!digest.dataErrors && !digest.dataWarnings) return null;
+  const parts = [
+    digest.dataErrors ? `${digest.dataErrors} ${digest.dataErrors === 1 ? 'error' : 'errors'}` : null,
+    digest.dataWarnings ? `${digest.dataWarnings} ${digest.dataWarnings === 1 ? 'warning' : 'warnings'}` : null,
+  ].filter(Boolean);
+  return `The data has ${parts.join(' and ')}; see the Data Quality panel before relying on these numbers.`;
+};
+
+/**
+ * Plain-text version, used as the email's text part and as the message
+ * text of the webhook payload (Slack and most chat webhooks show `text`)
+ */
+export const renderDigestText = (digest: Digest, locale: string, dashboardUrl?: string): string => {
+  const lines = [
+    `${digestSubject(digest)} (${describePeriod(digest, locale)})`,
+    '',
+    ...digest.kpis.map(k => `${k.label}: ${k.formatted}${k.delta ? ` (${deltaText(k.delta)})` : ''}`),
+  ];
+  if (digest.estimated) lines.push('Figures from sheet totals are pro-rated to the week.');
+  if (digest.topSource) {
+    const top = digest.topSource;
+    lines.push('', `Top source: ${top.source}, ${top.rankedByLabel} ${top.formatted}`);
+  }
+  if (digest.changes.length) {
+    lines.push('', 'Notable changes:', ...digest.changes.map(c => `${SENTIMENT_MARKS[c.sentiment]} ${c.message}`));
+  }
+  const quality = dataQualityNote(digest);
+  if (quality) lines.push('', quality);
+  if (dashboardUrl) lines.push('', `Open the dashboard: ${dashboardUrl}`);
+  return lines.join('\n');
+};
+
+/**
+ * The HTML email: a KPI grid with week-on-week deltas, the top source and
+ * the list of notable changes, styled inline like the dashboard
+ */
+export const renderDigestHtml = (digest: Digest, locale: string, dashboardUrl?: string): string => {
+  const label = (text: string) =>
+    `<p style="margin:0 0 8px;font-size:10px;font-weight:900;letter-spacing:0.2em;text-transform:uppercase;color:${COLORS.blue}">${escapeHtml(text)}</p>`;
+
+  const kpiCells = digest.kpis.map(k => `
+      <td style="width:33%;padding:12px;vertical-align:top;background:${COLORS.navy};border-radius:12px">
+        ${label(k.label)}
+        <p style="margin:0;font-size:22px;font-weight:900;color:#ffffff">${escapeHtml(k.formatted)}</p>
+        <p style="margin:4px 0 0;font-size:11px;font-weight:700;color:${deltaColor(k.delta)}">${escapeHtml(deltaText(k.delta)) || '&nbsp;'}</p>
+      </td>`);
+  const kpiRows: string[] = [];
+  for (let i = 0; i < kpiCells.length; i += 3) kpiRows.push(`<tr>${kpiCells.slice(i, i + 3).join('')}</tr>`);
+
+  const top = digest.topSource;
+  const topSection = top ? `
+    <div style="margin-top:24px;padding:16px;background:${COLORS.navy};border-radius:12px">
+      ${label(`Top source • ${top.rankedByLabel}`)}
+      <p style="margin:0;font-size:20px;font-weight:900;color:${COLORS.sand};text-transform:uppercase">${escapeHtml(top.source)}</p>
+      <p style="margin:4px 0 0;font-size:12px;color:${COLORS.muted}">${escapeHtml(`${top.rankedByLabel} ${top.formatted}`)}</p>
+    </div>` : '';
+
+  const changeSection = digest.changes.length ? `
+    <div style="margin-top:24px">
+      ${label('Notable changes')}
+      ${digest.changes.map(c => `
+      <p style="margin:0 0 6px;font-size:13px;color:#ffffff"><span style="color:${SENTIMENT_COLORS[c.sentiment]}">${SENTIMENT_MARKS[c.sentiment]}</span> ${escapeHtml(c.message)}</p>`).join('')}
+    </div>` : '';
+
+  const quality = dataQualityNote(digest);
+  const qualitySection = quality
+    ? `<p style="margin:24px 0 0;font-size:12px;color:${digest.dataErrors ? COLORS.danger : COLORS.muted}">${escapeHtml(quality)}</p>`
+    : '';
+  const estimatedNote = digest.estimated
+    ? `<p style="margin:8px 0 0;font-size:11px;color:${COLORS.muted}">Figures from sheet totals are pro-rated to the week.</p>`
+    : '';
+  const link = dashboardUrl
+    ? `<p style="margin:24px 0 0"><a href="${escapeHtml(dashboardUrl)}" style="display:inline-block;padding:10px 18px;border-radius:10px;background:${COLORS.blue};color:${COLORS.dark};font-size:12px;font-weight:900;text-decoration:none;text-transform:uppercase;letter-spacing:0.1em">Open dashboard</a></p>`
+    : '';
+
+  return `<!doctype html>
+<html lang="${escapeHtml(locale)}">
+<head><meta charset="utf-8"><title>${escapeHtml(digestSubject(digest))}</title></head>
+<body style="margin:0;padding:24px;background:${COLORS.dark};font-family:Helvetica,Arial,sans-serif">
+  <div style="max-width:640px;margin:0 auto">
+    <h1 style="margin:0;font-size:20px;font-weight:900;color:#ffffff">${escapeHtml(digestSubject(digest))}</h1>
+    <p style="margin:4px 0 24px;font-size:12px;color:${COLORS.muted}">${escapeHtml(describePeriod(digest, locale))}</p>
+    <table role="presentation" cellspacing="8" cellpadding="0" style="width:100%;margin:-8px">${kpiRows.join('')}
+    </table>
+    ${estimatedNote}${topSection}${changeSection}${qualitySection}${link}
+  </div>
+</body>
+</html>
+`;
+};
+
+/**
+ * Webhook body: the plain-text summary for chat integrations plus the
+ * digest itself for anything that wants the numbers
+ */
+export const renderDigestPayload = (digest: Digest, locale: string, dashboardUrl?: string) => ({
+  text: renderDigestText(digest, locale, dashboardUrl),
+  digest: {
+    ...digest,
+    generatedAt: digest.generatedAt.toISOString(),
+    period: { start: digest.period.start.toISOString(), end: digest.period.end.toISOString() },
+    dashboardUrl: dashboardUrl ?? null,
+  },
+});
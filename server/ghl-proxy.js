@@ -0,0 +1,111 @@
+// Minimal read-only proxy in front of the GoHighLevel API. It attaches the
+// private API token server-side so the dashboard never sees it, and only
+// serves the one location it is started for, to the dashboard's origin.
+//
+//   GHL_API_TOKEN=... GHL_LOCATION_ID=... node server/ghl-proxy.js
+//
+// Point GHL_API_BASE at server/mock-ghl.js to develop without a real account.
+import http from 'node:http';
+
+const PORT = Number(process.env.GHL_PROXY_PORT || 8787);
+// Loopback by default; set GHL_PROXY_HOST=0.0.0.0 to serve other machines
+const HOST = process.env.GHL_PROXY_HOST || '127.0.0.1';
+const API_BASE = (process.env.GHL_API_BASE || 'https://services.leadconnectorhq.com').replace(/\/$/, '');
+const API_TOKEN = process.env.GHL_API_TOKEN;
+const API_VERSION = process.env.GHL_API_VERSION || '2021-07-28';
+const LOCATION_ID = process.env.GHL_LOCATION_ID;
+// The dashboard's origin; defaults to the Vite dev server
+const ALLOWED_ORIGIN = process.env.GHL_PROXY_ORIGIN || 'http://localhost:5173';
+const PREFIX = '/api/ghl';
+const MAX_LIMIT = 100;
+
+const positiveInt = (max) => (value) => {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? String(Math.min(n, max)) : null;
+};
+const pipelineId = (value) => (/^[\w-]{1,64}$/.test(value) ? value : null);
+
+// Only the read endpoints the dashboard uses are forwarded. Each lists the
+// query parameter that carries the location and the others it may pass on;
+// anything else in the browser's query is dropped.
+const ENDPOINTS = {
+  '/opportunities/pipelines': { location: 'locationId', params: {} },
+  '/opportunities/search': {
+    location: 'location_id',
+    params: { pipeline_id: pipelineId, limit: positiveInt(MAX_LIMIT), page: positiveInt(10_000) },
+  },
+  '/users/': { location: 'locationId', params: {} },
+};
+
+if (!API_TOKEN) {
+  console.error('GHL_API_TOKEN is not set');
+  process.exit(1);
+}
+if (!LOCATION_ID) {
+  console.error('GHL_LOCATION_ID is not set; the proxy only serves the location it is started for');
+  process.exit(1);
+}
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * The upstream query for a request: the proxy's own location plus the
+ * allowed parameters that pass their check. Null when the request names a
+ * different location.
+ */
+const buildUpstreamQuery = (endpoint, search) => {
+  const requested = search.get(endpoint.location);
+  if (requested !== null && requested !== LOCATION_ID) return null;
+  const query = new URLSearchParams({ [endpoint.location]: LOCATION_ID });
+  Object.entries(endpoint.params).forEach(([name, check]) => {
+    const value = search.get(name);
+    const checked = value === null ? null : check(value);
+    if (checked !== null) query.set(name, checked);
+  });
+  return query;
+};
+
+const server = http.createServer(async (req, res) => {
+  // Same-origin requests (through the Vite dev proxy or a reverse proxy) send no Origin or the allowed one
+  const origin = req.headers.origin;
+  if (origin && origin !== ALLOWED_ORIGIN) return sendJson(res, 403, { error: 'Origin not allowed' });
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method !== 'GET') return sendJson(res, 405, { error: 'Method not allowed' });
+
+  const url = new URL(req.url, 'http://localhost');
+  const path = url.pathname.startsWith(PREFIX) ? url.pathname.slice(PREFIX.length) : null;
+  const endpoint = path && Object.hasOwn(ENDPOINTS, path) ? ENDPOINTS[path] : null;
+  if (!endpoint) return sendJson(res, 404, { error: 'Not found' });
+  const query = buildUpstreamQuery(endpoint, url.searchParams);
+  if (!query) return sendJson(res, 403, { error: 'Location not served by this proxy' });
+
+  try {
+    const upstream = await fetch(`${API_BASE}${path}?${query}`, {
+      headers: {
+        Authorization: `Bearer ${API_TOKEN}`,
+        Version: API_VERSION,
+        Accept: 'application/json',
+      },
+      signal: AbortSignal.timeout(30_000),
+    });
+    res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') || 'application/json' });
+    res.end(await upstream.text());
+  } catch (error) {
+    console.error(`GHL request failed: ${path}`, error);
+    sendJson(res, 502, { error: 'Upstream request failed' });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`GHL proxy for location ${LOCATION_ID} listening on http://${HOST}:${PORT}${PREFIX} -> ${API_BASE} (origin ${ALLOWED_ORIGIN})`);
+});
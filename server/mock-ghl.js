@@ -0,0 +1,118 @@
+// Local stand-in for the GoHighLevel opportunities API. Serves a fixed,
+// seeded dataset so the GHL provider and proxy can be exercised offline:
+//
+//   node server/mock-ghl.js
+//   GHL_API_BASE=http://localhost:8788 GHL_API_TOKEN=mock-token node server/ghl-proxy.js
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_GHL_PORT || 8788);
+const TOKEN = process.env.MOCK_GHL_TOKEN || 'mock-token';
+const LOCATION_ID = 'mock-location';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PIPELINE = {
+  id: 'pipeline-sales',
+  name: 'Sales Pipeline',
+  stages: [
+    { id: 'stage-new', name: 'New Lead', position: 0 },
+    { id: 'stage-contacted', name: 'Contacted', position: 1 },
+    { id: 'stage-qualified', name: 'Qualified', position: 2 },
+    { id: 'stage-proposal', name: 'Proposal Sent', position: 3 },
+    { id: 'stage-closed', name: 'Closed', position: 4 },
+  ],
+};
+
+const SOURCES = ['LinkedIn', 'Instantly', 'Calendly', 'Organic', 'Referral'];
+
+const USERS = [
+  { id: 'user-ava', name: 'Ava Patel', firstName: 'Ava', lastName: 'Patel' },
+  { id: 'user-ben', name: 'Ben Okafor', firstName: 'Ben', lastName: 'Okafor' },
+  { id: 'user-cara', name: 'Cara Lindqvist', firstName: 'Cara', lastName: 'Lindqvist' },
+];
+
+// Lost reason ids; map them to names with the workspace's `ghl.lostReasons`. Repeats skew the mix.
+const LOST_REASONS = ['budget', 'budget', 'no-response', 'competitor', 'budget', 'timing', 'no-response', 'not-a-fit'];
+
+// Small deterministic PRNG (mulberry32) so every run serves the same data
+const random = (() => {
+  let seed = 20260101;
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+})();
+
+const buildOpportunities = (count) => {
+  const now = Date.now();
+  return Array.from({ length: count }, (_, i) => {
+    const created = now - Math.floor(random() * 180) * DAY_MS;
+    const source = SOURCES[Math.floor(random() * SOURCES.length)];
+    const stageIdx = Math.floor(random() * PIPELINE.stages.length);
+    const roll = random();
+    const status = stageIdx === 4 ? (roll < 0.6 ? 'won' : 'lost') : roll < 0.12 ? 'abandoned' : 'open';
+    const closedAt = Math.min(now, created + Math.floor(7 + random() * 45) * DAY_MS);
+    return {
+      id: `opp-${i + 1}`,
+      name: `Mock Opportunity ${i + 1}`,
+      monetaryValue: status === 'won' ? Math.round(1500 + random() * 8500) : Math.round(random() * 6000),
+      pipelineId: PIPELINE.id,
+      pipelineStageId: PIPELINE.stages[stageIdx].id,
+      status,
+      source,
+      contactId: `contact-${Math.floor(random() * count * 0.8) + 1}`,
+      createdAt: new Date(created).toISOString(),
+      updatedAt: new Date(status === 'open' ? now : closedAt).toISOString(),
+      lastStatusChangeAt: status === 'open' ? undefined : new Date(closedAt).toISOString(),
+      // Open deals moved into their stage a few days per step after creation
+      lastStageChangeAt: new Date(status === 'open' ? Math.min(now, created + stageIdx * 4 * DAY_MS) : closedAt).toISOString(),
+      lostReasonId: status === 'lost' || status === 'abandoned' ? LOST_REASONS[i % LOST_REASONS.length] : undefined,
+      // A few opportunities are left unassigned
+      assignedTo: random() < 0.08 ? undefined : USERS[Math.floor(random() * USERS.length)].id,
+    };
+  });
+};
+
+const OPPORTUNITIES = buildOpportunities(Number(process.env.MOCK_GHL_COUNT || 240));
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.headers.authorization !== `Bearer ${TOKEN}`) return sendJson(res, 401, { message: 'Invalid token' });
+
+  const url = new URL(req.url, 'http://localhost');
+  const location = url.searchParams.get('locationId') || url.searchParams.get('location_id');
+  if (location !== LOCATION_ID) return sendJson(res, 403, { message: `Unknown location ${location}` });
+
+  if (url.pathname === '/opportunities/pipelines') {
+    return sendJson(res, 200, { pipelines: [PIPELINE] });
+  }
+
+  if (url.pathname === '/users/') {
+    return sendJson(res, 200, { users: USERS });
+  }
+
+  if (url.pathname === '/opportunities/search') {
+    const pipelineId = url.searchParams.get('pipeline_id');
+    const limit = Math.min(Number(url.searchParams.get('limit') || 20), 100);
+    const page = Math.max(Number(url.searchParams.get('page') || 1), 1);
+    const matches = OPPORTUNITIES.filter(o => !pipelineId || o.pipelineId === pipelineId);
+    const slice = matches.slice((page - 1) * limit, page * limit);
+    const hasMore = page * limit < matches.length;
+    return sendJson(res, 200, {
+      opportunities: slice,
+      meta: { total: matches.length, currentPage: page, nextPage: hasMore ? page + 1 : null },
+    });
+  }
+
+  sendJson(res, 404, { message: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock GHL API on http://localhost:${PORT} (token "${TOKEN}", location "${LOCATION_ID}")`);
+});
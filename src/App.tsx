@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, 
   CartesianGrid, Tooltip, ResponsiveContainer, 
@@ -11,36 +11,94 @@ import {
   ArrowUp, ArrowDown, ArrowRight, Activity, 
   Target, CheckCircle2, Info, AlertCircle, Award
 } from 'lucide-react';
+import { formatCompactCurrency, formatCurrency, formatPercent, formatNumber, setFormatSettings } from './utils';
+import {
+  Alert, CapacitySettings, DashboardData, DashboardState, DataIssue, FunnelStage, LayoutItem, SavedView, Snapshot, TimeFilter, Workspace
+} from './types';
+import { buildFunnel } from './funnel';
+import { buildExportDatasets } from './export';
+import ChartCard from './components/ChartCard';
+import ExportMenu from './components/ExportMenu';
+import SnapshotComparison from './components/SnapshotComparison';
+import GoalSettings from './components/GoalSettings';
+import AlertToasts from './components/AlertToasts';
+import SourceDetailPanel from './components/SourceDetailPanel';
+import { buildSourceDetail } from './sourceDetail';
+import { filterByOwner, listOwners, readOwnerFromUrl, writeOwnerToUrl } from './owners';
+import RepLeaderboard from './components/RepLeaderboard';
+import VelocityPanel from './components/VelocityPanel';
+import CohortTable from './components/CohortTable';
+import WidgetGrid from './components/WidgetGrid';
+import ViewMenu from './components/ViewMenu';
+import {
+  DEFAULT_LAYOUT, isEmbedMode, listViews, loadViewSettings, readViewFromUrl, saveViewSettings, ViewSettings, WidgetId,
+  writeViewToUrl
+} from './layout';
+import { computeVelocity } from './velocity';
+import { recordStageHistory } from './stageHistory';
+import LossReasonsPanel from './components/LossReasonsPanel';
+import { buildLossAnalysis } from './losses';
+import MarketingEfficiencyPanel from './components/MarketingEfficiencyPanel';
+import DataQualityPanel from './components/DataQualityPanel';
+import MarketIntelligencePanel from './components/MarketIntelligencePanel';
+import ScenarioPanel from './components/ScenarioPanel';
+import CapacityPanel from './components/CapacityPanel';
+import {
+  buildSourceEfficiency, clearUploadedSpend, EfficiencyMetric, loadUploadedSpend, parseSpendCsv, rankSources,
+  saveUploadedSpend, UploadedSpend
+} from './spend';
+import { convertSpend } from './currency';
+import { SheetMappingError } from './schema';
+import {
+  createSyncScheduler, formatAge, formatDuration, getSyncStatus, readCachedDashboard, REFRESH_INTERVAL, SchedulerState, SyncScheduler,
+  SyncStatus, withRetry, writeCachedDashboard
+} from './sync';
+import { FORECAST_HORIZON, FORECAST_METHODS, ForecastMethod, forecastRevenue } from './forecast';
 import { 
-  formatCurrency, formatPercent, formatNumber, parseGoogleSheetsJSON 
-} from './utils';
+  DEFAULT_LOGO_URL, DEFAULT_WORKSPACE, getWorkspaceFormat, loadWorkspaces, resolveWorkspace, writeWorkspaceToUrl 
+} from './config';
+import { createProvider } from './providers';
+import { defaultBaseline, listSnapshots, pruneSnapshots, saveSnapshot } from './snapshots';
+import { buildInsights } from './insights';
+import { createSourceResolver, getOtherSourceShare, getSourceColors, groupLongTail, listSources } from './sources';
+import {
+  buildCapacityOutlook, buildUtilisationHistory, EMPTY_CAPACITY, loadCapacitySettings, saveCapacitySettings
+} from './capacity';
+import {
+  computeGoalProgress, DEFAULT_ALERT_RULES, evaluateAlerts, GoalProgress, GoalSettings as GoalConfig,
+  loadGoalSettings, saveGoalSettings, showBrowserNotifications
+} from './goals';
+import { computeKpiDeltas, KpiDelta } from './kpiTrends';
 import { 
-  DashboardState, KPIData, RevenueTrend, WeeklyConversation, SourceConversion 
-} from './types';
+  TIME_FILTERS, getFilterWindow, filterDashboardData, readTimeFilterFromUrl, writeTimeFilterToUrl 
+} from './timeFilter';
 
-const SHEET_URL = 'https://docs.google.com/spreadsheets/d/1zL0ZkcCC4K-PoVwlz_mkNWCR22XfPdM1_7k-rkg32Es/gviz/tq?tqx=out:json&gid=2004389061';
-const REFRESH_INTERVAL = 5 * 60 * 1000;
-const LOGO_URL = 'https://pivottai.com/assets/pivott-logo-bQ24Oe-4.png';
+const MAX_ALERTS = 5;
 
-const SOURCE_COLORS: Record<string, string> = {
-  'LinkedIn': '#0A66C2',
-  'Instantly': '#6366F1',
-  'Calendly': '#006BFF',
-  'Organic': '#10B981',
-  'Other': '#F59E0B'
+const SYNC_BADGES: Record<SyncStatus, { label: string; dot: string; ping: boolean }> = {
+  syncing: { label: 'Syncing', dot: 'bg-pivott-blue', ping: true },
+  live: { label: 'Live', dot: 'bg-pivott-success', ping: true },
+  cached: { label: 'Cached', dot: 'bg-pivott-sand', ping: false },
+  stale: { label: 'Stale', dot: 'bg-pivott-warning', ping: false },
+  error: { label: 'Sync failed', dot: 'bg-pivott-danger', ping: false },
+  paused: { label: 'Paused', dot: 'bg-slate-400', ping: false },
 };
 
 const KPICard: React.FC<{
   title: string;
   value: string | number;
   icon: React.ReactNode;
-  trend?: string;
-  trendDir?: 'up' | 'down' | 'neutral';
+  trend?: KpiDelta;
+  goal?: GoalProgress;
   tooltip?: string;
-}> = ({ title, value, icon, trend, trendDir = 'neutral', tooltip }) => {
-  const TrendIcon = trendDir === 'up' ? ArrowUp : trendDir === 'down' ? ArrowDown : ArrowRight;
-  const trendBg = trendDir === 'up' ? 'bg-pivott-success text-white shadow-[0_0_15px_rgba(16,185,129,0.4)]' : 
-                   trendDir === 'down' ? 'bg-pivott-danger text-white shadow-[0_0_15px_rgba(239,68,68,0.4)]' : 
+}> = ({ title, value, icon, trend, goal, tooltip }) => {
+  // Direction picks the arrow; sentiment picks the colour, so a falling
+  // lower-is-better metric still reads green
+  const TrendIcon = trend?.direction === 'up' ? ArrowUp : trend?.direction === 'down' ? ArrowDown : ArrowRight;
+  // Behind pace when less of the goal is done than of the period
+  const goalTone = !goal ? '' : goal.ratio >= 1 ? 'bg-pivott-success' : goal.elapsed !== null && goal.ratio < goal.elapsed ? 'bg-pivott-warning' : 'bg-pivott-blue';
+  const trendBg = trend?.sentiment === 'positive' ? 'bg-pivott-success text-white shadow-[0_0_15px_rgba(16,185,129,0.4)]' : 
+                   trend?.sentiment === 'negative' ? 'bg-pivott-danger text-white shadow-[0_0_15px_rgba(239,68,68,0.4)]' : 
                    'bg-slate-500 text-white';
 
   return (
@@ -52,9 +110,9 @@ const KPICard: React.FC<{
           {icon}
         </div>
         {trend && (
-          <div className={`flex items-center gap-1.5 ${trendBg} px-3.5 py-1.5 rounded-xl transition-transform hover:scale-110 cursor-default font-black`}>
+          <div title={trend.basis} className={`flex items-center gap-1.5 ${trendBg} px-3.5 py-1.5 rounded-xl transition-transform hover:scale-110 cursor-default font-black`}>
             <TrendIcon className="w-3.5 h-3.5" />
-            <span className="text-[13px] uppercase tracking-wider">{trend}</span>
+            <span className="text-[13px] uppercase tracking-wider">{trend.label}</span>
           </div>
         )}
       </div>
@@ -72,139 +130,428 @@ const KPICard: React.FC<{
           )}
         </div>
         <p className="text-[42px] font-extrabold text-white tracking-tighter font-display leading-none group-hover:text-pivott-sand transition-colors duration-500">{value}</p>
+        {goal && (
+          <div className="mt-5 space-y-2">
+            <div className="relative h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <div className={`h-full ${goalTone} rounded-full transition-all duration-700`} style={{ width: `${Math.min(1, goal.ratio) * 100}%` }}></div>
+              {goal.elapsed !== null && goal.ratio < 1 && (
+                <div className="absolute top-0 h-full w-0.5 bg-white/60" style={{ left: `${goal.elapsed * 100}%` }} title="Expected by now"></div>
+              )}
+            </div>
+            <p className="text-[10px] font-black text-white/50 uppercase tracking-wider">
+              <span className="text-white">{formatPercent(goal.ratio)}</span> of {goal.label}
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-const ChartCard: React.FC<{
-  title: string;
-  subtitle?: string;
-  children: React.ReactNode;
-  className?: string;
-}> = ({ title, subtitle, children, className = "" }) => (
-  <div className={`glass-box p-8 md:p-10 rounded-[3rem] flex flex-col h-full chart-container-hover ${className}`}>
-    <div className="mb-8 md:mb-10 flex flex-col gap-2">
-      <div className="flex items-center gap-3">
-        <div className="w-1.5 h-6 bg-pivott-blue rounded-full shadow-[0_0_12px_rgba(110,172,218,0.6)]"></div>
-        <h3 className="text-2xl font-black text-pivott-sand font-display tracking-tight uppercase">
-          {title}
-        </h3>
-      </div>
-      {subtitle && <p className="text-[14px] font-bold text-white/50 tracking-wide pl-4 uppercase">{subtitle}</p>}
-    </div>
-    <div className="flex-1 min-h-[350px] w-full relative">
-      {children}
+const FunnelStep: React.FC<{
+  step: FunnelStage;
+  isLast?: boolean;
+  pinned: boolean;
+  onToggle: () => void;
+  sourceColors: Record<string, string>;
+}> = ({ step, isLast, pinned, onToggle, sourceColors }) => {
+  const sources = Object.entries(step.bySource).sort((a, b) => b[1] - a[1]);
+  return (
+    <div 
+      onClick={onToggle}
+      className={`flex-1 min-w-[120px] flex flex-col items-center text-center px-4 relative group/step ${sources.length ? 'cursor-pointer' : ''} ${!isLast ? 'funnel-arrow' : ''}`}
+    >
+      <p className="text-[10px] font-bold text-pivott-blue uppercase tracking-[0.2em] mb-1 opacity-70 italic">{step.name}</p>
+      <p className="text-4xl font-black text-white font-display tracking-tighter">{formatNumber(step.count)}</p>
+      {step.conversion !== null && (
+        <p className="text-[10px] font-black uppercase tracking-wider mt-1.5 text-white/50">
+          <span className="text-pivott-sand">{formatPercent(step.conversion)}</span> conv
+          {step.dropOff > 0 && <span className="text-pivott-danger/80"> • −{formatNumber(step.dropOff)}</span>}
+        </p>
+      )}
+      {sources.length > 0 && (
+        <div className={`absolute top-full left-1/2 -translate-x-1/2 mt-4 w-56 p-4 bg-pivott-navy/95 border border-pivott-blue/30 rounded-2xl z-50 shadow-2xl backdrop-blur-xl text-left transition-all ${pinned ? 'opacity-100' : 'opacity-0 pointer-events-none group-hover/step:opacity-100'}`}>
+          <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em] mb-3">By Source</p>
+          {sources.map(([source, count]) => (
+            <div key={source} className="flex items-center justify-between gap-3 py-1">
+              <span className="flex items-center gap-2 text-[12px] font-bold text-white/80">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: sourceColors[source] || sourceColors['Other'] }}></span>
+                {source}
+              </span>
+              <span className="text-[12px] font-black text-white">{formatNumber(count)}</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
-  </div>
-);
+  );
+};
 
-const FunnelStep: React.FC<{ label: string, value: string | number, isLast?: boolean }> = ({ label, value, isLast }) => (
-  <div className={`flex-1 flex flex-col items-center text-center px-4 ${!isLast ? 'funnel-arrow' : ''}`}>
-    <p className="text-[10px] font-bold text-pivott-blue uppercase tracking-[0.2em] mb-1 opacity-70 italic">{label}</p>
-    <p className="text-4xl font-black text-white font-display tracking-tighter">{value}</p>
-  </div>
-);
+const EMPTY_DATA: DashboardData = {
+  kpis: null,
+  revenueTrend: [],
+  weeklyConversations: [],
+  sourceConversions: [],
+  ownerPerformance: [],
+  losses: [],
+  spend: [],
+  opportunities: [],
+  stages: [],
+};
 
 const App: React.FC = () => {
-  const [state, setState] = useState<DashboardState & { timeFilter: string }>({
-    kpis: null,
-    revenueTrend: [],
-    weeklyConversations: [],
-    sourceConversions: [],
+  const [state, setState] = useState<DashboardState & { timeFilter: TimeFilter }>({
+    ...EMPTY_DATA,
+    issues: [],
     loading: true,
     error: null,
     lastUpdated: null,
-    timeFilter: 'All time'
+    fromCache: false,
+    timeFilter: readTimeFilterFromUrl()
   });
 
-  const fetchData = useCallback(async () => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  // Lets an in-flight sync notice that the user switched workspace meanwhile
+  const workspaceRef = useRef<Workspace | null>(null);
+  workspaceRef.current = workspace;
+  // Formatters are module-level, so every card picks up the workspace's locale and currency
+  setFormatSettings(getWorkspaceFormat(workspace ?? DEFAULT_WORKSPACE));
+  // Bumped after each sync is stored so the comparison view reloads its list
+  const [snapshotVersion, setSnapshotVersion] = useState(0);
+  // Alert rules compare each sync with the one before it
+  const lastSyncRef = useRef<{ workspaceId: string; data: DashboardData } | null>(null);
+
+  const [goalSettings, setGoalSettings] = useState<GoalConfig>({ goals: [], alerts: DEFAULT_ALERT_RULES });
+  const goalSettingsRef = useRef(goalSettings);
+  goalSettingsRef.current = goalSettings;
+  const [showGoalSettings, setShowGoalSettings] = useState(false);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+
+  useEffect(() => {
+    if (workspace) setGoalSettings(loadGoalSettings(workspace));
+  }, [workspace]);
+
+  const [capacitySettings, setCapacitySettings] = useState<CapacitySettings>(EMPTY_CAPACITY);
+  useEffect(() => {
+    if (workspace) setCapacitySettings(loadCapacitySettings(workspace));
+  }, [workspace]);
+
+  const [embed] = useState(isEmbedMode);
+  const [viewSettings, setViewSettings] = useState<ViewSettings>({ views: [], active: null, layout: DEFAULT_LAYOUT });
+  const [editingLayout, setEditingLayout] = useState(false);
+  // A shared link's layout applies to the first workspace loaded, not to later switches
+  const urlViewRef = useRef<ReturnType<typeof readViewFromUrl> | null>(readViewFromUrl());
+
+  useEffect(() => {
+    if (!workspace) return;
+    const stored = loadViewSettings(workspace);
+    const fromUrl = urlViewRef.current;
+    urlViewRef.current = null;
+    const named = fromUrl?.name ? listViews(workspace, stored).find(v => v.name === fromUrl.name) : undefined;
+    const layout = fromUrl?.layout ?? named?.layout;
+    const next = layout ? { ...stored, active: fromUrl?.name ?? null, layout } : stored;
+    setViewSettings(next);
+    setEditingLayout(false);
+    writeViewToUrl(next.active, next.layout);
+  }, [workspace]);
+
+  const updateViewSettings = useCallback((next: ViewSettings) => {
+    setViewSettings(next);
+    if (workspace) saveViewSettings(workspace.id, next);
+    writeViewToUrl(next.active, next.layout);
+  }, [workspace]);
+
+  const changeLayout = useCallback(
+    (layout: LayoutItem[]) => updateViewSettings({ ...viewSettings, layout }),
+    [viewSettings, updateViewSettings]
+  );
+  const applyView = useCallback(
+    (view: SavedView | null) => updateViewSettings({ ...viewSettings, active: view?.name ?? null, layout: view?.layout ?? DEFAULT_LAYOUT }),
+    [viewSettings, updateViewSettings]
+  );
+  const saveView = useCallback((name: string) => updateViewSettings({
+    ...viewSettings,
+    active: name,
+    views: [...viewSettings.views.filter(v => v.name !== name), { name, layout: viewSettings.layout }],
+  }), [viewSettings, updateViewSettings]);
+  const deleteView = useCallback((name: string) => updateViewSettings({
+    ...viewSettings,
+    active: viewSettings.active === name ? null : viewSettings.active,
+    views: viewSettings.views.filter(v => v.name !== name),
+  }), [viewSettings, updateViewSettings]);
+
+  // A spend CSV uploaded in this browser replaces the workspace's spend tab
+  const [uploadedSpend, setUploadedSpend] = useState<UploadedSpend | null>(null);
+  const [uploadIssues, setUploadIssues] = useState<DataIssue[]>([]);
+  const [rankMetric, setRankMetric] = useState<EfficiencyMetric>('roas');
+
+  useEffect(() => {
+    setUploadedSpend(workspace ? loadUploadedSpend(workspace.id) : null);
+    setUploadIssues([]);
+  }, [workspace]);
+
+  const uploadSpend = useCallback(async (file: File) => {
+    if (!workspace) return;
     try {
-      const response = await fetch(SHEET_URL);
-      if (!response.ok) throw new Error('Data sync failed');
-      const text = await response.text();
-      const rawData = parseGoogleSheetsJSON(text);
-      const rows = rawData.table?.rows;
-      if (!rows || rows.length === 0) throw new Error('No dataset records found');
-
-      const getNum = (cell: any) => (cell && typeof cell.v === 'number') ? cell.v : 0;
-      const getStr = (cell: any) => (cell && cell.v !== null && cell.v !== undefined) ? String(cell.v) : '';
-
-      const firstRowCells = rows[0]?.c || [];
-      const kpis: KPIData = {
-        totalOpportunities: getNum(firstRowCells[0]),
-        qualifiedConversations: getNum(firstRowCells[1]),
-        convertedClients: getNum(firstRowCells[2]),
-        conversionRate: Math.abs(getNum(firstRowCells[3])), 
-        totalRevenue: getNum(firstRowCells[4]),
-        activeClientLoad: getNum(firstRowCells[14]) || 1, 
-      };
-
-      const revenueTrend: RevenueTrend[] = [];
-      const weeklyConversations: WeeklyConversation[] = [];
-      const sourceConversions: SourceConversion[] = [];
-
-      rows.forEach((row: any) => {
-        const cells = row?.c;
-        if (!cells) return;
-        
-        const month = getStr(cells[5]);
-        const rev = cells[6]?.v;
-        if (month && typeof rev === 'number') revenueTrend.push({ month, revenue: rev });
-        
-        const week = getStr(cells[7]);
-        const count = cells[8]?.v;
-        if (week && typeof count === 'number') weeklyConversations.push({ week, count });
-        
-        const source = getStr(cells[9]);
-        const rate = cells[12]?.v;
-        if (source && typeof rate === 'number') {
-          // Attributing revenue from index 13 as indicated by the Dashboard_Calculations sheet logic
-          const revAttr = getNum(cells[13]); 
-          sourceConversions.push({
-            source,
-            qualified: getNum(cells[10]),
-            converted: getNum(cells[11]),
-            rate: Math.abs(rate),
-            revenue: revAttr
-          });
+      const { spend, issues } = parseSpendCsv(await file.text());
+      const upload = { fileName: file.name, uploadedAt: new Date(), spend };
+      saveUploadedSpend(workspace.id, upload);
+      setUploadedSpend(upload);
+      setUploadIssues(issues);
+    } catch (error) {
+      console.error('Could not read spend CSV', error);
+      setUploadIssues(error instanceof SheetMappingError
+        ? error.issues
+        : [{ severity: 'error', message: `${file.name} could not be read` }]);
+    }
+  }, [workspace]);
+
+  const clearSpendUpload = useCallback(() => {
+    if (workspace) clearUploadedSpend(workspace.id);
+    setUploadedSpend(null);
+    setUploadIssues([]);
+  }, [workspace]);
+
+  useEffect(() => {
+    loadWorkspaces().then(list => {
+      setWorkspaces(list);
+      setWorkspace(resolveWorkspace(list));
+    });
+  }, []);
+
+  const [owner, setOwner] = useState<string | null>(readOwnerFromUrl);
+
+  const switchWorkspace = useCallback((id: string) => {
+    const next = workspaces.find(w => w.id === id);
+    if (!next) return;
+    writeWorkspaceToUrl(next.id);
+    setWorkspace(next);
+    setOwner(null);
+    writeOwnerToUrl(null);
+    setState(prev => ({ ...prev, ...EMPTY_DATA, issues: [], loading: true, error: null, lastUpdated: null, fromCache: false }));
+  }, [workspaces]);
+
+  // Paint the last good data straight away; the first sync replaces it
+  useEffect(() => {
+    if (!workspace) return;
+    const cached = readCachedDashboard(workspace.id);
+    if (cached) setState(prev => ({ ...prev, ...cached.data, lastUpdated: cached.syncedAt, fromCache: true }));
+  }, [workspace]);
+
+  // The previous error stays up until a sync succeeds, so a retry doesn't hide it
+  const fetchData = useCallback(async (): Promise<boolean> => {
+    if (!workspace) return false;
+    setState(prev => ({ ...prev, loading: true }));
+    try {
+      const fetched = await withRetry(() => createProvider(workspace).fetchDashboard());
+      const { issues } = fetched;
+      // Stage history is a nice-to-have; a browser without IndexedDB still gets the sync
+      const data = fetched.data.opportunities.length
+        ? {
+          ...fetched.data,
+          opportunities: await recordStageHistory(workspace.id, fetched.data.opportunities, fetched.data.stages).catch(err => {
+            console.warn('Could not record stage history', err);
+            return fetched.data.opportunities;
+          }),
         }
-      });
+        : fetched.data;
+      if (workspaceRef.current?.id !== workspace.id) return false;
+      issues.forEach(issue => console.warn(`Data issue: ${issue.message}`));
 
-      setState(prev => ({ ...prev, kpis, revenueTrend, weeklyConversations, sourceConversions, loading: false, lastUpdated: new Date() }));
+      const syncedAt = new Date();
+      writeCachedDashboard(workspace.id, data, syncedAt);
+      setState(prev => ({ ...prev, ...data, issues, loading: false, error: null, lastUpdated: syncedAt, fromCache: false }));
+
+      // On the first sync of a session, the last stored snapshot stands in for the previous sync
+      const previous = lastSyncRef.current?.workspaceId === workspace.id
+        ? Promise.resolve(lastSyncRef.current.data)
+        : listSnapshots(workspace.id).then(list => list[0]?.data ?? null, () => null);
+      lastSyncRef.current = { workspaceId: workspace.id, data };
+
+      previous
+        .then(prior => {
+          const raised = evaluateAlerts(goalSettingsRef.current.alerts, prior, data);
+          if (!raised.length) return;
+          setAlerts(list => [...raised, ...list].slice(0, MAX_ALERTS));
+          showBrowserNotifications(raised, workspace.name);
+        })
+        .then(() => saveSnapshot(workspace.id, data))
+        .then(() => pruneSnapshots(workspace.id))
+        .then(() => setSnapshotVersion(v => v + 1))
+        .catch(err => console.warn('Could not store snapshot', err));
+      return true;
     } catch (err) {
       console.error(err);
+      if (workspaceRef.current?.id !== workspace.id) return false;
       setState(prev => ({ ...prev, loading: false, error: err instanceof Error ? err.message : 'Unknown sync error' }));
+      return false;
     }
-  }, []);
+  }, [workspace]);
+
+  const [schedule, setSchedule] = useState<SchedulerState>({ nextSyncAt: null, paused: false });
+  const schedulerRef = useRef<SyncScheduler | null>(null);
 
   useEffect(() => {
-    fetchData();
-    const timer = setInterval(fetchData, REFRESH_INTERVAL);
+    if (!workspace) return;
+    const scheduler = createSyncScheduler(fetchData, setSchedule);
+    schedulerRef.current = scheduler;
+    scheduler.start();
+    return () => scheduler.stop();
+  }, [workspace, fetchData]);
+
+  const syncNow = useCallback(() => schedulerRef.current?.syncNow(), []);
+
+  // Ticks so "synced 4m ago" and the stale check stay current between syncs
+  const [clock, setClock] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setClock(new Date()), 30 * 1000);
     return () => clearInterval(timer);
-  }, [fetchData]);
+  }, []);
+  const syncStatus = getSyncStatus(state, schedule.paused, clock);
+  const syncBadge = SYNC_BADGES[syncStatus];
+  const syncAge = state.lastUpdated ? formatAge(state.lastUpdated, clock) : null;
+  const nextSyncIn = schedule.nextSyncAt ? formatDuration(schedule.nextSyncAt.getTime() - clock.getTime()) : null;
+
+  const setTimeFilter = useCallback((timeFilter: TimeFilter) => {
+    writeTimeFilterToUrl(timeFilter);
+    setState(s => ({ ...s, timeFilter }));
+  }, []);
+
+  const selectOwner = useCallback((next: string | null) => {
+    writeOwnerToUrl(next);
+    setOwner(next);
+  }, []);
+
+  const uploadedConversion = useMemo(() => {
+    if (!uploadedSpend || !workspace) return null;
+    // Uploads skip the provider, so their source spellings are merged here
+    const resolve = createSourceResolver(workspace);
+    return convertSpend(uploadedSpend.spend.map(s => ({ ...s, source: resolve(s.source) })), workspace);
+  }, [uploadedSpend, workspace]);
+  const synced = useMemo(
+    () => (uploadedConversion ? { ...state, spend: uploadedConversion.spend } : state),
+    [state, uploadedConversion]
+  );
+  const owners = useMemo(() => listOwners(synced), [synced]);
+  // Only row-level data can be filtered by rep; a ?rep= on sheet data is ignored rather than mislabelling team totals
+  const activeOwner = owners.length ? owner : null;
+  // A rep filter recounts everything from that rep's opportunities before windowing
+  const scoped = useMemo(() => filterByOwner(synced, activeOwner), [synced, activeOwner]);
+  // Everything below the header renders from the windowed view, not the raw sync
+  const view = useMemo(() => filterDashboardData(scoped, getFilterWindow(state.timeFilter)), [scoped, state.timeFilter]);
+  // The leaderboard always ranks the whole team
+  const teamView = useMemo(
+    () => (activeOwner ? filterDashboardData(synced, getFilterWindow(state.timeFilter)) : view),
+    [activeOwner, synced, state.timeFilter, view]
+  );
+
+  const funnel = useMemo(() => buildFunnel(view), [view]);
+  // Row-level panels work off the full history and apply the window themselves
+  const filterWindow = useMemo(() => getFilterWindow(state.timeFilter), [state.timeFilter]);
+  const velocity = useMemo(() => computeVelocity(scoped, filterWindow), [scoped, filterWindow]);
+  const [pinnedStep, setPinnedStep] = useState<string | null>(null);
+
+  const kpiDeltas = useMemo(() => computeKpiDeltas(scoped, state.timeFilter), [scoped, state.timeFilter]);
+  const goalProgress = useMemo(() => computeGoalProgress(goalSettings.goals, scoped, view), [goalSettings, scoped, view]);
+
+  const saveGoals = useCallback((settings: GoalConfig) => {
+    if (workspace) saveGoalSettings(workspace.id, settings);
+    setGoalSettings(settings);
+    setShowGoalSettings(false);
+  }, [workspace]);
+
+  // Forecasts always learn from the full history, then continue the windowed chart
+  const [forecastMethod, setForecastMethod] = useState<ForecastMethod>('linear');
+  const forecast = useMemo(() => forecastRevenue(scoped, forecastMethod), [scoped, forecastMethod]);
+  const revenueChartData = useMemo(() => {
+    const last = view.revenueTrend[view.revenueTrend.length - 1];
+    if (!forecast.length || !last) return view.revenueTrend;
+    return [
+      ...view.revenueTrend.slice(0, -1),
+      // Seed the forecast series at the last actual point so the lines join
+      { ...last, forecast: last.revenue, band: [last.revenue, last.revenue] },
+      ...forecast.map(p => ({ month: p.month, forecast: p.revenue, band: [p.lower, p.upper] })),
+    ];
+  }, [view.revenueTrend, forecast]);
+
+  const efficiency = useMemo(() => buildSourceEfficiency(view, filterWindow), [view, filterWindow]);
+  // Without spend the cost metrics are all empty, so sources rank by win rate
+  const rankedBy: EfficiencyMetric = efficiency.some(r => r.spend !== null) ? rankMetric : 'rate';
+  const topSource = useMemo(() => rankSources(efficiency, rankedBy)[0] ?? null, [efficiency, rankedBy]);
+
+  // Sheets only hold all-time totals, so their win-rate trends and client load history come from earlier syncs
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  useEffect(() => {
+    if (!workspace) return;
+    let cancelled = false;
+    listSnapshots(workspace.id)
+      .then(list => { if (!cancelled) setSnapshots(list); })
+      .catch(() => { if (!cancelled) setSnapshots([]); });
+    return () => { cancelled = true; };
+  }, [workspace, snapshotVersion]);
+  const baselineSnapshot = useMemo(() => defaultBaseline(snapshots), [snapshots]);
+  const insights = useMemo(
+    () => buildInsights({ data: scoped, filter: state.timeFilter, efficiency, rankedBy, baseline: baselineSnapshot }),
+    [scoped, state.timeFilter, efficiency, rankedBy, baselineSnapshot]
+  );
+
+  // Capacity is a team figure, so it ignores the rep filter and the time window
+  const capacityOutlook = useMemo(() => buildCapacityOutlook(synced, capacitySettings), [synced, capacitySettings]);
+  const utilisationHistory = useMemo(
+    () => buildUtilisationHistory(synced, snapshots, capacityOutlook.capacity),
+    [synced, snapshots, capacityOutlook.capacity]
+  );
+  const saveCapacity = useCallback((settings: CapacitySettings) => {
+    if (workspace) saveCapacitySettings(workspace.id, settings);
+    setCapacitySettings(settings);
+  }, [workspace]);
+
+  const exportContext = useMemo(() => ({
+    workspace: workspace?.name ?? DEFAULT_WORKSPACE.name,
+    timeFilter: state.timeFilter,
+    lastUpdated: state.lastUpdated,
+    owner: activeOwner,
+  }), [workspace, state.timeFilter, state.lastUpdated, activeOwner]);
+  const exportDatasets = useMemo(() => buildExportDatasets(view, exportContext), [view, exportContext]);
+
+  // Colours come from every source in the data, so they stay put when the window or rep changes
+  const sources = useMemo(() => listSources(synced), [synced]);
+  const sourceColors = useMemo(() => getSourceColors(workspace ?? DEFAULT_WORKSPACE, sources), [workspace, sources]);
+  // The pie and the matrix fold the long tail of small sources into "Other"
+  const chartSources = useMemo(
+    () => groupLongTail(view.sourceConversions, getOtherSourceShare(workspace ?? DEFAULT_WORKSPACE)),
+    [view.sourceConversions, workspace]
+  );
+  // A grouped "Other" stands for several sources, so it has no detail panel
+  const selectChartSource = (source: string) => {
+    if (!chartSources.find(s => s.source === source)?.members) setSelectedSource(source);
+  };
 
-  const topSource = useMemo(() => 
-    state.sourceConversions.length ? [...state.sourceConversions].sort((a, b) => b.rate - a.rate)[0] : null
-  , [state.sourceConversions]);
+  const lossAnalysis = useMemo(() => buildLossAnalysis(view), [view]);
+
+  const [selectedSource, setSelectedSource] = useState<string | null>(null);
+  const sourceDetail = useMemo(
+    () => (selectedSource ? buildSourceDetail(view, selectedSource, getFilterWindow(state.timeFilter)) : null),
+    [view, selectedSource, state.timeFilter]
+  );
 
   const pieData = useMemo(() => {
-    if (!state.sourceConversions.length) return [];
+    if (!chartSources.length) return [];
     
     // Check if we have real attributed revenue in the sheet (non-zero)
-    const hasRealRevenue = state.sourceConversions.some(s => s.revenue > 0);
-    const avgDeal = state.kpis?.convertedClients ? (state.kpis.totalRevenue / state.kpis.convertedClients) : 0;
+    const hasRealRevenue = view.sourceConversions.some(s => s.revenue > 0);
+    const avgDeal = view.kpis?.convertedClients ? (view.kpis.totalRevenue / view.kpis.convertedClients) : 0;
 
-    return state.sourceConversions
+    return chartSources
       .filter(s => s.converted > 0 || s.revenue > 0)
       .map(s => ({
         name: s.source,
         // Use real revenue if available, else fallback to avg estimate
         value: hasRealRevenue ? s.revenue : (s.converted * avgDeal),
-        fill: SOURCE_COLORS[s.source] || SOURCE_COLORS['Other']
+        fill: sourceColors[s.source] || sourceColors['Other']
       }));
-  }, [state.sourceConversions, state.kpis]);
+  }, [chartSources, view.kpis, sourceColors]);
 
   // Loading state
   if (state.loading && !state.kpis) {
@@ -229,7 +576,7 @@ const App: React.FC = () => {
           <p className="text-pivott-sand/60 max-w-md mx-auto">{state.error}</p>
         </div>
         <button 
-          onClick={fetchData} 
+          onClick={syncNow} 
           className="flex items-center gap-4 bg-pivott-blue text-pivott-navy px-8 py-4 rounded-2xl font-black uppercase tracking-widest hover:scale-105 transition-all shadow-2xl active:scale-95"
         >
           <RefreshCcw className="w-5 h-5" /> Retry Handshake
@@ -238,307 +585,467 @@ const App: React.FC = () => {
     );
   }
 
-  const isHighConversion = (state.kpis?.conversionRate || 0) >= 0.3;
-
-  return (
-    <div className="min-h-screen pb-32 font-sans animate-fade-in px-8 md:px-16 bg-main-gradient overflow-x-hidden">
-      {/* HEADER BAR */}
-      <nav className="max-w-[1800px] mx-auto mt-12 py-6 flex flex-col lg:flex-row items-center justify-between border-b border-white/10 gap-8">
-        <div className="flex items-center gap-10">
-          <div className="relative group cursor-pointer" onClick={() => window.location.reload()}>
-            <img src={LOGO_URL} alt="Pivott AI" className="h-10 w-auto hover:scale-110 transition-transform duration-500" />
-            <div className="absolute -inset-4 bg-pivott-blue/10 blur-2xl rounded-full opacity-0 group-hover:opacity-100 transition-opacity"></div>
-          </div>
-          <div className="hidden sm:block border-l border-white/10 pl-10 h-10 flex flex-col justify-center">
-            <p className="text-2xl font-black text-white uppercase tracking-tighter leading-none">PIVOTT AI</p>
-            <p className="text-[10px] font-bold text-pivott-blue uppercase tracking-[0.4em] mt-1.5 opacity-80 italic">PIPELINE ANALYTICS ENGINE</p>
-          </div>
-        </div>
-        
-        <div className="flex items-center gap-8">
-          <div className="flex items-center gap-2 bg-pivott-navy/60 p-2 rounded-2xl border border-pivott-blue/20 shadow-inner">
-            {['7D', '30D', '90D', 'All time'].map(p => (
-              <button 
-                key={p} 
-                onClick={() => setState(s => ({ ...s, timeFilter: p }))}
-                className={`px-5 py-2.5 rounded-xl text-[12px] font-black uppercase tracking-wider transition-all duration-300 ${state.timeFilter === p ? 'bg-pivott-blue text-pivott-navy shadow-lg scale-105' : 'text-white/40 hover:text-white hover:bg-white/10'}`}
-              >
-                {p}
-              </button>
-            ))}
-          </div>
-          <div className="hidden md:flex items-center gap-4 bg-pivott-navy/30 px-5 py-2.5 rounded-2xl border border-pivott-blue/20">
-            <span className="relative flex h-3 w-3">
-              <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-pivott-success opacity-75"></span>
-              <span className="relative inline-flex rounded-full h-3 w-3 bg-pivott-success"></span>
-            </span>
-            <span className="text-[11px] font-black text-white uppercase tracking-[0.2em]">LIVE DATA STREAM</span>
-          </div>
-          <button onClick={fetchData} className="p-3.5 bg-pivott-blue/10 border border-pivott-blue/30 rounded-2xl hover:bg-pivott-blue hover:text-pivott-dark transition-all duration-500 active:scale-90 shadow-2xl group">
-            <RefreshCcw className={`w-6 h-6 group-hover:rotate-180 transition-transform duration-700 ${state.loading ? 'animate-spin' : ''}`} />
-          </button>
-        </div>
-      </nav>
+  const isHighConversion = (view.kpis?.conversionRate || 0) >= 0.3;
 
-      <main className="max-w-[1800px] mx-auto mt-20 space-y-16">
-        {/* FUNNEL AND TITLE */}
-        <div className="flex flex-col xl:flex-row gap-16 xl:items-center justify-between px-2">
-          <div className="space-y-4">
-            <h2 className="text-4xl md:text-5xl font-black text-white tracking-tighter font-display uppercase leading-tight">
-              Pipeline Performance<br/>
-              <span className="text-pivott-blue italic flex items-center gap-6">
-                Dashboard
-                {isHighConversion && (
-                   <span className="inline-flex items-center gap-2 bg-pivott-success text-white px-4 py-1.5 rounded-xl text-[12px] font-black tracking-widest animate-confetti shadow-[0_0_15px_rgba(16,185,129,0.4)]">
-                     <Award className="w-4 h-4" /> ELITE PERFORMANCE
-                   </span>
-                )}
-              </span>
-            </h2>
-          </div>
-          <div className="glass-box p-8 md:p-10 rounded-[2.5rem] flex items-center justify-between min-w-[400px] md:min-w-[600px] gap-6 shadow-[0_25px_70px_-15px_rgba(0,0,0,0.6)] border-pivott-blue/25">
-            <FunnelStep label="Top of Funnel" value={formatNumber(state.kpis?.totalOpportunities || 0)} />
-            <FunnelStep label="Qualified Pipeline" value={formatNumber(state.kpis?.qualifiedConversations || 0)} />
-            <FunnelStep label="Revenue Wins" value={formatNumber(state.kpis?.convertedClients || 0)} isLast />
+  // Every widget the layout can place; null when the data cannot feed it
+  const widgets: Record<WidgetId, React.ReactNode> = {
+    'kpi-opportunities': <KPICard title="Opportunities" value={formatNumber(view.kpis?.totalOpportunities || 0)} icon={<Users className="w-7 h-7" />} trend={kpiDeltas.totalOpportunities} goal={goalProgress.totalOpportunities} tooltip="Total potential leads entering the system. Syncing from global CRM nodes." />,
+    'kpi-qualified': <KPICard title="Qualified Opps" value={formatNumber(view.kpis?.qualifiedConversations || 0)} icon={<MessageSquare className="w-7 h-7" />} trend={kpiDeltas.qualifiedConversations} goal={goalProgress.qualifiedConversations} tooltip="Verified leads that have passed the strict qualification threshold." />,
+    'kpi-closed': <KPICard title="Closed Deals" value={formatNumber(view.kpis?.convertedClients || 0)} icon={<UserCheck className="w-7 h-7" />} trend={kpiDeltas.convertedClients} goal={goalProgress.convertedClients} tooltip="Number of enterprise deals closed-won this period." />,
+    'kpi-conversion': <KPICard title="Conv. Rate" value={formatPercent(view.kpis?.conversionRate || 0)} icon={<TrendingUp className="w-7 h-7" />} trend={kpiDeltas.conversionRate} goal={goalProgress.conversionRate} tooltip="Efficiency of your qualification-to-close pipeline." />,
+    'kpi-revenue': <KPICard title="Total Revenue" value={formatCurrency(view.kpis?.totalRevenue || 0)} icon={<DollarSign className="w-7 h-7" />} trend={kpiDeltas.totalRevenue} goal={goalProgress.totalRevenue} tooltip="Gross attribution from all closed-won records synced from calculations sheet." />,
+    'kpi-clients': <KPICard title="Active Clients" value={formatNumber(view.kpis?.activeClientLoad || 0)} icon={<Briefcase className="w-7 h-7" />} trend={kpiDeltas.activeClientLoad} goal={goalProgress.activeClientLoad} tooltip="Live managed client records within the service ecosystem." />,
+    'revenue-trend': (
+      <ChartCard 
+        title="Monthly Revenue Momentum" 
+        subtitle={`Cumulative Yield: ${formatCurrency(view.kpis?.totalRevenue || 0)}${forecast.length ? ` • ${FORECAST_HORIZON}-month forecast` : ''}`}
+        actions={
+          <div className="flex items-center gap-3 group/info">
+            <div className="flex items-center gap-1 bg-pivott-navy/60 p-1 rounded-xl border border-pivott-blue/20">
+              {(Object.keys(FORECAST_METHODS) as ForecastMethod[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setForecastMethod(m)}
+                  className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all ${forecastMethod === m ? 'bg-pivott-blue text-pivott-navy' : 'text-white/40 hover:text-white'}`}
+                >
+                  {FORECAST_METHODS[m].label}
+                </button>
+              ))}
+            </div>
+            <div className="relative">
+              <Info className="w-4 h-4 text-white/20 hover:text-pivott-blue transition-colors cursor-help" />
+              <div className="absolute top-full right-0 mt-3 w-64 p-4 bg-pivott-navy/95 border border-pivott-blue/30 rounded-2xl text-[12px] text-white opacity-0 group-hover/info:opacity-100 transition-all pointer-events-none z-50 shadow-2xl backdrop-blur-xl leading-relaxed font-medium">
+                {FORECAST_METHODS[forecastMethod].description}
+                {!forecast.length && <span className="block mt-2 text-pivott-warning">Not enough history for this method yet.</span>}
+              </div>
+            </div>
           </div>
-        </div>
-
-        {/* KPI GRID */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-8">
-          <KPICard title="Opportunities" value={formatNumber(state.kpis?.totalOpportunities || 0)} icon={<Users className="w-7 h-7" />} trend="+12%" trendDir="up" tooltip="Total potential leads entering the system. Syncing from global CRM nodes." />
-          <KPICard title="Qualified Opps" value={formatNumber(state.kpis?.qualifiedConversations || 0)} icon={<MessageSquare className="w-7 h-7" />} trend="+3%" trendDir="up" tooltip="Verified leads that have passed the strict qualification threshold." />
-          <KPICard title="Closed Deals" value={formatNumber(state.kpis?.convertedClients || 0)} icon={<UserCheck className="w-7 h-7" />} trend="+14%" trendDir="up" tooltip="Number of enterprise deals closed-won this period." />
-          <KPICard title="Conv. Rate" value={formatPercent(state.kpis?.conversionRate || 0)} icon={<TrendingUp className="w-7 h-7" />} trend="+2%" trendDir="up" tooltip="Efficiency of your qualification-to-close pipeline." />
-          <KPICard title="Total Revenue" value={formatCurrency(state.kpis?.totalRevenue || 0)} icon={<DollarSign className="w-7 h-7" />} trend="+28%" trendDir="up" tooltip="Gross attribution from all closed-won records synced from calculations sheet." />
-          <KPICard title="Active Clients" value={formatNumber(state.kpis?.activeClientLoad || 0)} icon={<Briefcase className="w-7 h-7" />} trend="→" trendDir="neutral" tooltip="Live managed client records within the service ecosystem." />
-        </div>
-
-        {/* ROW 1: REVENUE TREND & WEEKLY ACTIVITY */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
-          <ChartCard title="Monthly Revenue Momentum" subtitle={`Cumulative Yield: ${formatCurrency(state.kpis?.totalRevenue || 0)}`}>
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={state.revenueTrend} margin={{ top: 20, right: 30, left: 10, bottom: 20 }}>
-                <defs>
-                  <linearGradient id="colorRev" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="#6EACDA" stopOpacity={0.7}/>
-                    <stop offset="95%" stopColor="#6EACDA" stopOpacity={0}/>
-                  </linearGradient>
-                </defs>
-                <CartesianGrid strokeDasharray="6 6" vertical={false} stroke="rgba(255,255,255,0.06)" />
-                <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 13, fontWeight: 800 }} dy={12} />
-                <YAxis axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 13, fontWeight: 800 }} tickFormatter={(val) => `$${val/1000}k`} />
-                <Tooltip 
-                  cursor={{ stroke: '#6EACDA', strokeWidth: 2, strokeDasharray: '4 4' }}
-                  contentStyle={{ backgroundColor: '#021526', borderRadius: '1.5rem', border: '2px solid rgba(110,172,218,0.4)', color: '#fff', padding: '16px', boxShadow: '0 20px 40px rgba(0,0,0,0.5)' }}
-                  itemStyle={{ color: '#6EACDA', fontWeight: '900' }}
-                />
-                <Area 
-                  type="monotone" 
-                  dataKey="revenue" 
-                  stroke="#6EACDA" 
-                  strokeWidth={6} 
-                  fillOpacity={1} 
-                  fill="url(#colorRev)" 
-                  animationDuration={2500}
-                  dot={{ r: 9, fill: '#6EACDA', strokeWidth: 3, stroke: '#fff' }}
-                  activeDot={{ r: 12, strokeWidth: 4, stroke: '#fff' }}
-                />
-                <Area 
-                  type="monotone" 
-                  data={[
-                    ...state.revenueTrend, 
-                    { month: 'Proj.', revenue: (state.revenueTrend[state.revenueTrend.length - 1]?.revenue || 0) * 1.35 }
-                  ]} 
-                  dataKey="revenue" 
-                  stroke="#6EACDA" 
-                  strokeDasharray="8 8" 
-                  strokeWidth={3}
-                  fill="none" 
-                  animationDuration={3000}
-                />
-              </AreaChart>
-            </ResponsiveContainer>
-          </ChartCard>
-
-          <ChartCard title="Weekly Activity Pulse" subtitle={`${state.weeklyConversations.reduce((a, b) => a + b.count, 0)} qualified conversations recorded`}>
+        }
+      >
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={revenueChartData} margin={{ top: 20, right: 30, left: 10, bottom: 20 }}>
+            <defs>
+              <linearGradient id="colorRev" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#6EACDA" stopOpacity={0.7}/>
+                <stop offset="95%" stopColor="#6EACDA" stopOpacity={0}/>
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="6 6" vertical={false} stroke="rgba(255,255,255,0.06)" />
+            <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 13, fontWeight: 800 }} dy={12} />
+            <YAxis axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 13, fontWeight: 800 }} tickFormatter={(val) => formatCompactCurrency(val)} />
+            <Tooltip 
+              cursor={{ stroke: '#6EACDA', strokeWidth: 2, strokeDasharray: '4 4' }}
+              contentStyle={{ backgroundColor: '#021526', borderRadius: '1.5rem', border: '2px solid rgba(110,172,218,0.4)', color: '#fff', padding: '16px', boxShadow: '0 20px 40px rgba(0,0,0,0.5)' }}
+              itemStyle={{ color: '#6EACDA', fontWeight: '900' }}
+              formatter={(value, name) => {
+                if (Array.isArray(value)) return [`${formatCurrency(value[0] as number)} – ${formatCurrency(value[1] as number)}`, '95% range'];
+                return [formatCurrency(value as number), name === 'forecast' ? `Forecast (${FORECAST_METHODS[forecastMethod].label})` : 'Revenue'];
+              }}
+            />
+            <Area 
+              type="monotone" 
+              dataKey="band" 
+              stroke="none" 
+              fill="#6EACDA" 
+              fillOpacity={0.12} 
+              activeDot={false}
+              animationDuration={3000}
+            />
+            <Area 
+              type="monotone" 
+              dataKey="revenue" 
+              stroke="#6EACDA" 
+              strokeWidth={6} 
+              fillOpacity={1} 
+              fill="url(#colorRev)" 
+              animationDuration={2500}
+              dot={{ r: 9, fill: '#6EACDA', strokeWidth: 3, stroke: '#fff' }}
+              activeDot={{ r: 12, strokeWidth: 4, stroke: '#fff' }}
+            />
+            <Area 
+              type="monotone" 
+              dataKey="forecast" 
+              stroke="#6EACDA" 
+              strokeDasharray="8 8" 
+              strokeWidth={3}
+              fill="none" 
+              animationDuration={3000}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </ChartCard>
+    ),
+    'weekly-pulse': (
+      <ChartCard title="Weekly Activity Pulse" subtitle={`${view.weeklyConversations.reduce((a, b) => a + b.count, 0)} qualified conversations recorded`}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={view.weeklyConversations} margin={{ top: 45, right: 25, left: 10, bottom: 20 }}>
+            <defs>
+              <linearGradient id="barGrad" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="0%" stopColor="#6EACDA" stopOpacity={1}/>
+                <stop offset="100%" stopColor="#03346E" stopOpacity={1}/>
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="6 6" vertical={false} stroke="rgba(255,255,255,0.06)" />
+            <XAxis dataKey="week" axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 13, fontWeight: 800 }} dy={12} />
+            <YAxis axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 13, fontWeight: 800 }} />
+            <Tooltip 
+              cursor={{ fill: 'rgba(110, 172, 218, 0.15)', radius: 12 }}
+              contentStyle={{ backgroundColor: '#021526', borderRadius: '1.5rem', border: '2px solid rgba(110,172,218,0.4)', padding: '16px' }}
+              itemStyle={{ color: '#6EACDA', fontWeight: '900' }}
+            />
+            <Bar dataKey="count" radius={[18, 18, 0, 0]} barSize={85} fill="url(#barGrad)">
+              <LabelList dataKey="count" position="top" fill="#E2E2B6" style={{ fontSize: '18px', fontWeight: 900 }} dy={-15} />
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartCard>
+    ),
+    'revenue-distribution': (
+      <ChartCard title="Revenue Distribution" subtitle={view.estimated ? 'Pro-rated to the selected window' : 'Direct attribution from calculation sheet'}>
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart>
+            <Pie 
+              data={pieData} 
+              innerRadius={115} 
+              outerRadius={160} 
+              paddingAngle={10} 
+              dataKey="value"
+              animationDuration={2200}
+              stroke="none"
+              onClick={(entry) => selectChartSource(entry.name)}
+            >
+              {pieData.map((entry, index) => (
+                <Cell key={`cell-${index}`} fill={entry.fill} className="hover:opacity-80 transition-opacity cursor-pointer filter drop-shadow-xl" />
+              ))}
+            </Pie>
+            <Legend verticalAlign="middle" align="right" layout="vertical" iconType="circle" wrapperStyle={{ paddingLeft: '50px', fontWeight: '900', fontSize: '14px', textTransform: 'uppercase' }} />
+            <Tooltip 
+              contentStyle={{ backgroundColor: '#021526', borderRadius: '1.5rem', border: 'none', color: '#fff', boxShadow: '0 30px 60px rgba(0,0,0,0.7)', padding: '20px' }} 
+              formatter={(value) => [formatCurrency(value as number), 'Revenue Attribution']}
+              itemStyle={{ color: '#6EACDA', fontWeight: '900' }}
+            />
+          </PieChart>
+        </ResponsiveContainer>
+      </ChartCard>
+    ),
+    'lead-efficiency': (
+      <ChartCard title="Lead Efficiency Matrix" subtitle={`Win-rate benchmark per source${view.estimated ? ' • pro-rated to window' : ''} • click a source for detail`}>
+        <div className="flex-1 w-full flex flex-col justify-center">
+          <div className="h-[280px] w-full">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={state.weeklyConversations} margin={{ top: 45, right: 25, left: 10, bottom: 20 }}>
-                <defs>
-                  <linearGradient id="barGrad" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="0%" stopColor="#6EACDA" stopOpacity={1}/>
-                    <stop offset="100%" stopColor="#03346E" stopOpacity={1}/>
-                  </linearGradient>
-                </defs>
-                <CartesianGrid strokeDasharray="6 6" vertical={false} stroke="rgba(255,255,255,0.06)" />
-                <XAxis dataKey="week" axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 13, fontWeight: 800 }} dy={12} />
-                <YAxis axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 13, fontWeight: 800 }} />
+              <BarChart data={chartSources} layout="vertical" margin={{ top: 20, right: 110, left: 35, bottom: 20 }}>
+                <XAxis type="number" domain={[0, 1]} hide />
+                <YAxis dataKey="source" type="category" axisLine={false} tickLine={false} tick={{ fill: '#fff', fontSize: 16, fontWeight: 900 }} width={130} />
                 <Tooltip 
-                  cursor={{ fill: 'rgba(110, 172, 218, 0.15)', radius: 12 }}
-                  contentStyle={{ backgroundColor: '#021526', borderRadius: '1.5rem', border: '2px solid rgba(110,172,218,0.4)', padding: '16px' }}
+                  cursor={{ fill: 'rgba(110, 172, 218, 0.15)', radius: 12 }} 
+                  contentStyle={{ backgroundColor: '#021526', borderRadius: '1.5rem', border: '1px solid rgba(110,172,218,0.4)', padding: '16px' }} 
+                  formatter={(value) => [formatPercent(value as number), 'Win Rate']}
                   itemStyle={{ color: '#6EACDA', fontWeight: '900' }}
                 />
-                <Bar dataKey="count" radius={[18, 18, 0, 0]} barSize={85} fill="url(#barGrad)">
-                  <LabelList dataKey="count" position="top" fill="#E2E2B6" style={{ fontSize: '18px', fontWeight: 900 }} dy={-15} />
+                <Bar dataKey="rate" radius={[0, 24, 24, 0]} barSize={60} animationDuration={2000} onClick={(entry) => selectChartSource(entry.source)} className="cursor-pointer">
+                   {chartSources.map((entry, index) => (
+                     <Cell key={`cell-${index}`} fill={sourceColors[entry.source] || sourceColors['Other']} className="filter drop-shadow-lg" />
+                   ))}
+                   <LabelList 
+                     dataKey="rate" 
+                     position="right" 
+                     formatter={(val: number) => formatPercent(val)} 
+                     style={{ fill: '#fff', fontWeight: 900, fontSize: '19px' }} 
+                     dx={22}
+                   />
                 </Bar>
               </BarChart>
             </ResponsiveContainer>
-          </ChartCard>
+          </div>
+          <div className="mt-10 space-y-5 px-4">
+            {chartSources.map((s, i) => (
+              <div key={i} onClick={() => selectChartSource(s.source)} title={s.members?.join(', ')} className="flex justify-between items-center bg-white/5 p-5 rounded-[2rem] border border-white/5 hover:border-pivott-blue/50 transition-all group cursor-pointer">
+                <div className="flex items-center gap-5">
+                   <div className="w-6 h-6 rounded-full shadow-[0_0_15px_rgba(110,172,218,0.3)]" style={{ backgroundColor: sourceColors[s.source] || sourceColors['Other'] }}></div>
+                   <span className="text-lg font-black text-pivott-sand uppercase tracking-wider">{s.source}</span>
+                   {s.members && <span className="text-[11px] font-bold text-white/40 uppercase tracking-wider">{s.members.length} sources</span>}
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="text-sm font-bold text-white/70 group-hover:text-white transition-colors">
+                    <span className="text-white font-black">{s.qualified}</span> Qualified 
+                    <span className="mx-3 opacity-30 text-pivott-blue font-light">|</span>
+                    <span className="text-white font-black">{s.converted}</span> Won
+                  </span>
+                  <div className="bg-pivott-blue/20 text-pivott-blue px-4 py-1.5 rounded-xl font-black text-[14px] shadow-sm">
+                    {formatPercent(s.rate)}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
         </div>
+      </ChartCard>
+    ),
+    'loss-reasons': lossAnalysis && (
+      <LossReasonsPanel analysis={lossAnalysis} sourceColors={sourceColors} estimated={view.estimated} onSelectSource={setSelectedSource} />
+    ),
+    'marketing-efficiency': (
+      <MarketingEfficiencyPanel
+        rows={efficiency}
+        metric={rankMetric}
+        onMetricChange={setRankMetric}
+        upload={uploadedSpend}
+        uploadIssues={[...uploadIssues, ...(uploadedConversion?.issues ?? [])]}
+        onUpload={uploadSpend}
+        onClearUpload={clearSpendUpload}
+        sourceColors={sourceColors}
+        estimated={view.estimated}
+        owner={activeOwner}
+        onSelectSource={setSelectedSource}
+      />
+    ),
+    'rep-leaderboard': teamView.ownerPerformance.length > 0 ? (
+      <RepLeaderboard
+        owners={teamView.ownerPerformance}
+        selected={activeOwner}
+        onSelect={owners.length ? selectOwner : null}
+        estimated={teamView.estimated}
+      />
+    ) : null,
+    velocity: velocity && <VelocityPanel velocity={velocity} />,
+    cohorts: scoped.opportunities.length > 0 ? (
+      <CohortTable opportunities={scoped.opportunities} window={filterWindow} sourceColors={sourceColors} />
+    ) : null,
+    capacity: (
+      <CapacityPanel
+        outlook={capacityOutlook}
+        history={utilisationHistory}
+        settings={capacitySettings}
+        owners={owners}
+        onSave={saveCapacity}
+      />
+    ),
+    scenarios: workspace && <ScenarioPanel view={view} workspaceId={workspace.id} sourceColors={sourceColors} />,
+    snapshots: workspace && (
+      <SnapshotComparison workspaceId={workspace.id} refreshKey={snapshotVersion} sourceColors={sourceColors} />
+    ),
+    'market-intelligence': (
+      <MarketIntelligencePanel
+        insights={insights}
+        conversionRate={view.kpis?.conversionRate ?? 0}
+        topSource={topSource}
+        rankedBy={rankedBy}
+        onSelectSource={setSelectedSource}
+      />
+    ),
+    'data-quality': <DataQualityPanel issues={state.issues} lastUpdated={state.lastUpdated} fromCache={state.fromCache} />,
+  };
 
-        {/* ROW 2: REVENUE BY SOURCE & PERFORMANCE */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
-          <ChartCard title="Revenue Distribution" subtitle="Direct attribution from calculation sheet">
-            <ResponsiveContainer width="100%" height="100%">
-              <PieChart>
-                <Pie 
-                  data={pieData} 
-                  innerRadius={115} 
-                  outerRadius={160} 
-                  paddingAngle={10} 
-                  dataKey="value"
-                  animationDuration={2200}
-                  stroke="none"
-                >
-                  {pieData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.fill} className="hover:opacity-80 transition-opacity cursor-pointer filter drop-shadow-xl" />
-                  ))}
-                </Pie>
-                <Legend verticalAlign="middle" align="right" layout="vertical" iconType="circle" wrapperStyle={{ paddingLeft: '50px', fontWeight: '900', fontSize: '14px', textTransform: 'uppercase' }} />
-                <Tooltip 
-                  contentStyle={{ backgroundColor: '#021526', borderRadius: '1.5rem', border: 'none', color: '#fff', boxShadow: '0 30px 60px rgba(0,0,0,0.7)', padding: '20px' }} 
-                  formatter={(value) => [formatCurrency(value as number), 'Revenue Attribution']}
-                  itemStyle={{ color: '#6EACDA', fontWeight: '900' }}
-                />
-              </PieChart>
-            </ResponsiveContainer>
-          </ChartCard>
-
-          <ChartCard title="Lead Efficiency Matrix" subtitle="Win-rate benchmark per source">
-            <div className="flex-1 w-full flex flex-col justify-center">
-              <div className="h-[280px] w-full">
-                <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={state.sourceConversions} layout="vertical" margin={{ top: 20, right: 110, left: 35, bottom: 20 }}>
-                    <XAxis type="number" domain={[0, 1]} hide />
-                    <YAxis dataKey="source" type="category" axisLine={false} tickLine={false} tick={{ fill: '#fff', fontSize: 16, fontWeight: 900 }} width={130} />
-                    <Tooltip 
-                      cursor={{ fill: 'rgba(110, 172, 218, 0.15)', radius: 12 }} 
-                      contentStyle={{ backgroundColor: '#021526', borderRadius: '1.5rem', border: '1px solid rgba(110,172,218,0.4)', padding: '16px' }} 
-                      formatter={(value) => [`${Math.round((value as number) * 100)}%`, 'Win Rate']}
-                      itemStyle={{ color: '#6EACDA', fontWeight: '900' }}
-                    />
-                    <Bar dataKey="rate" radius={[0, 24, 24, 0]} barSize={60} animationDuration={2000}>
-                       {state.sourceConversions.map((entry, index) => (
-                         <Cell key={`cell-${index}`} fill={SOURCE_COLORS[entry.source] || '#6EACDA'} className="filter drop-shadow-lg" />
-                       ))}
-                       <LabelList 
-                         dataKey="rate" 
-                         position="right" 
-                         formatter={(val: number) => `${Math.round(val * 100)}%`} 
-                         style={{ fill: '#fff', fontWeight: 900, fontSize: '19px' }} 
-                         dx={22}
-                       />
-                    </Bar>
-                  </BarChart>
-                </ResponsiveContainer>
-              </div>
-              <div className="mt-10 space-y-5 px-4">
-                {state.sourceConversions.map((s, i) => (
-                  <div key={i} className="flex justify-between items-center bg-white/5 p-5 rounded-[2rem] border border-white/5 hover:border-pivott-blue/50 transition-all group cursor-default">
-                    <div className="flex items-center gap-5">
-                       <div className="w-6 h-6 rounded-full shadow-[0_0_15px_rgba(110,172,218,0.3)]" style={{ backgroundColor: SOURCE_COLORS[s.source] || '#6EACDA' }}></div>
-                       <span className="text-lg font-black text-pivott-sand uppercase tracking-wider">{s.source}</span>
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <span className="text-sm font-bold text-white/70 group-hover:text-white transition-colors">
-                        <span className="text-white font-black">{s.qualified}</span> Qualified 
-                        <span className="mx-3 opacity-30 text-pivott-blue font-light">|</span>
-                        <span className="text-white font-black">{s.converted}</span> Won
-                      </span>
-                      <div className="bg-pivott-blue/20 text-pivott-blue px-4 py-1.5 rounded-xl font-black text-[14px] shadow-sm">
-                        {Math.round(s.rate * 100)}%
-                      </div>
-                    </div>
-                  </div>
+  return (
+    <div className={`min-h-screen font-sans animate-fade-in bg-main-gradient overflow-x-hidden ${embed ? 'pb-8 px-4 md:px-6' : 'pb-32 px-8 md:px-16'}`}>
+      {/* HEADER BAR */}
+      {!embed && (
+        <nav className="max-w-[1800px] mx-auto mt-12 py-6 flex flex-col lg:flex-row items-center justify-between border-b border-white/10 gap-8">
+          <div className="flex items-center gap-10">
+            <div className="relative group cursor-pointer" onClick={() => window.location.reload()}>
+              <img src={workspace?.logoUrl || DEFAULT_LOGO_URL} alt={workspace?.name || 'Pivott AI'} className="h-10 w-auto hover:scale-110 transition-transform duration-500" />
+              <div className="absolute -inset-4 bg-pivott-blue/10 blur-2xl rounded-full opacity-0 group-hover:opacity-100 transition-opacity"></div>
+            </div>
+            <div className="hidden sm:block border-l border-white/10 pl-10 h-10 flex flex-col justify-center">
+              <p className="text-2xl font-black text-white uppercase tracking-tighter leading-none">{workspace?.name || 'PIVOTT AI'}</p>
+              <p className="text-[10px] font-bold text-pivott-blue uppercase tracking-[0.4em] mt-1.5 opacity-80 italic">PIPELINE ANALYTICS ENGINE</p>
+            </div>
+          </div>
+        
+          <div className="flex items-center gap-8">
+            {workspaces.length > 1 && (
+              <select
+                value={workspace?.id ?? ''}
+                onChange={e => switchWorkspace(e.target.value)}
+                className="bg-pivott-navy/60 border border-pivott-blue/20 rounded-2xl px-5 py-3.5 text-[12px] font-black text-white uppercase tracking-wider shadow-inner focus:outline-none focus:border-pivott-blue cursor-pointer print:hidden"
+              >
+                {workspaces.map(w => (
+                  <option key={w.id} value={w.id} className="bg-pivott-dark">{w.name}</option>
                 ))}
-              </div>
+                {/* A ?sheet= override is not in the config; list it so the select shows what is open */}
+                {workspace && !workspaces.some(w => w.id === workspace.id) && (
+                  <option value={workspace.id} className="bg-pivott-dark">{workspace.name} • custom sheet</option>
+                )}
+              </select>
+            )}
+            {owners.length > 0 && (
+              <select
+                value={owner ?? ''}
+                onChange={e => selectOwner(e.target.value || null)}
+                className="bg-pivott-navy/60 border border-pivott-blue/20 rounded-2xl px-5 py-3.5 text-[12px] font-black text-white uppercase tracking-wider shadow-inner focus:outline-none focus:border-pivott-blue cursor-pointer print:hidden"
+              >
+                <option value="" className="bg-pivott-dark">All reps</option>
+                {owners.map(name => (
+                  <option key={name} value={name} className="bg-pivott-dark">{name}</option>
+                ))}
+              </select>
+            )}
+            <div className="flex items-center gap-2 bg-pivott-navy/60 p-2 rounded-2xl border border-pivott-blue/20 shadow-inner print:hidden">
+              {TIME_FILTERS.map(p => (
+                <button 
+                  key={p} 
+                  onClick={() => setTimeFilter(p)}
+                  className={`px-5 py-2.5 rounded-xl text-[12px] font-black uppercase tracking-wider transition-all duration-300 ${state.timeFilter === p ? 'bg-pivott-blue text-pivott-navy shadow-lg scale-105' : 'text-white/40 hover:text-white hover:bg-white/10'}`}
+                >
+                  {p}
+                </button>
+              ))}
             </div>
-          </ChartCard>
+            <div 
+              title={state.lastUpdated ? `Last successful sync: ${state.lastUpdated.toLocaleString()}` : 'Not synced yet'}
+              className="hidden md:flex items-center gap-4 bg-pivott-navy/30 px-5 py-2.5 rounded-2xl border border-pivott-blue/20 print:hidden"
+            >
+              <span className="relative flex h-3 w-3">
+                {syncBadge.ping && <span className={`animate-ping absolute inline-flex h-full w-full rounded-full ${syncBadge.dot} opacity-75`}></span>}
+                <span className={`relative inline-flex rounded-full h-3 w-3 ${syncBadge.dot}`}></span>
+              </span>
+              <span className="text-[11px] font-black text-white uppercase tracking-[0.2em]">
+                {syncBadge.label}{syncAge && syncStatus !== 'syncing' && <span className="text-white/50"> • {syncAge}</span>}
+              </span>
+            </div>
+            <button onClick={() => setShowGoalSettings(true)} title="Goals & alerts" className="p-3.5 bg-pivott-blue/10 border border-pivott-blue/30 rounded-2xl hover:bg-pivott-blue hover:text-pivott-dark transition-all duration-500 active:scale-90 shadow-2xl print:hidden">
+              <Target className="w-6 h-6" />
+            </button>
+            <ViewMenu
+              views={listViews(workspace, viewSettings)}
+              deletable={viewSettings.views.map(v => v.name)}
+              active={viewSettings.active}
+              onApply={applyView}
+              onSave={saveView}
+              onDelete={deleteView}
+              onCustomize={() => setEditingLayout(true)}
+            />
+            <ExportMenu datasets={exportDatasets} context={exportContext} />
+            <button onClick={syncNow} className="p-3.5 bg-pivott-blue/10 border border-pivott-blue/30 rounded-2xl hover:bg-pivott-blue hover:text-pivott-dark transition-all duration-500 active:scale-90 shadow-2xl group print:hidden">
+              <RefreshCcw className={`w-6 h-6 group-hover:rotate-180 transition-transform duration-700 ${state.loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </nav>
+      )}
+
+      <main className={`max-w-[1800px] mx-auto ${embed ? 'mt-6 space-y-8' : 'mt-20 space-y-16'}`}>
+        {/* PRINT REPORT HEADER */}
+        <div className="hidden print:flex justify-between items-end border-b border-white/10 pb-6">
+          <p className="text-2xl font-black text-white uppercase tracking-tighter">{exportContext.workspace} Pipeline Report{activeOwner && ` • ${activeOwner}`}</p>
+          <p className="text-[12px] font-bold text-pivott-sand uppercase tracking-[0.2em]">
+            {state.timeFilter} • Data as of {state.lastUpdated ? state.lastUpdated.toLocaleString() : 'n/a'}
+          </p>
         </div>
 
-        {/* COMPACT MARKET INTELLIGENCE SECTION */}
-        <div className="relative group overflow-hidden rounded-[2rem] p-6 md:p-8 flex flex-col lg:flex-row gap-8 text-white border border-pivott-blue/20 bg-gradient-to-br from-pivott-navy to-pivott-dark shadow-2xl">
-          <div className="absolute -top-32 -right-32 w-[300px] h-[300px] bg-pivott-blue/10 rounded-full blur-[100px] pointer-events-none group-hover:bg-pivott-blue/15 transition-all"></div>
-          
-          <div className="relative z-10 flex flex-col justify-between flex-1">
-            <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-6">
-              <div className="flex items-center gap-6">
-                <div className="w-14 h-14 bg-pivott-blue/20 backdrop-blur-3xl rounded-[1rem] flex items-center justify-center border border-pivott-blue/40 shadow-xl">
-                  <Activity className="w-7 h-7 text-pivott-blue" />
-                </div>
-                <div>
-                  <h3 className="text-xl font-black font-display tracking-tight leading-none uppercase italic underline decoration-pivott-sand/20 underline-offset-4">Market Intelligence</h3>
-                  <p className="text-[9px] font-black text-pivott-sand tracking-[0.4em] mt-2 uppercase opacity-80 italic">Global Diagnostics Engine</p>
-                </div>
-              </div>
-              
-              <div className="flex items-center gap-8 bg-white/5 px-6 py-3 rounded-2xl border border-white/5">
-                <div className="flex flex-col">
-                  <span className="text-4xl font-black text-white font-display tracking-tighter leading-none">
-                    {formatPercent(state.kpis?.conversionRate || 0)}
-                  </span>
-                  <span className="text-[10px] text-pivott-blue font-black uppercase tracking-widest mt-1">Matrix Efficiency</span>
-                </div>
-                <div className="h-10 w-px bg-white/10"></div>
-                <div className="flex flex-col">
-                  <span className="text-xl font-black text-pivott-sand uppercase italic leading-none">
-                    {topSource?.source || 'INSTANTLY'}
-                  </span>
-                  <span className="text-[10px] text-white/40 font-black uppercase tracking-widest mt-1">Lead Dominance</span>
-                </div>
+        {/* SYNC STATUS */}
+        {(state.error || syncStatus === 'stale') && (
+          <div className={`flex items-center justify-between gap-4 rounded-2xl px-6 py-4 border print:hidden ${state.error ? 'bg-pivott-danger/10 border-pivott-danger/30' : 'bg-pivott-warning/10 border-pivott-warning/30'}`}>
+            <div className="flex items-start gap-4">
+              <AlertCircle className={`w-5 h-5 shrink-0 mt-0.5 ${state.error ? 'text-pivott-danger' : 'text-pivott-warning'}`} />
+              <div className="space-y-1">
+                <p className={`text-[11px] font-black uppercase tracking-[0.2em] ${state.error ? 'text-pivott-danger' : 'text-pivott-warning'}`}>
+                  {state.error ? (syncStatus === 'syncing' ? 'Sync failed • retrying' : 'Sync failed') : 'Data is stale'}
+                </p>
+                <p className="text-sm text-white/70 font-medium">
+                  {state.error && `${state.error}. `}
+                  Showing data last synced {syncAge}{state.lastUpdated && ` (${state.lastUpdated.toLocaleString()})`}.
+                  {nextSyncIn && ` Next attempt in ${nextSyncIn}.`}
+                </p>
               </div>
             </div>
+            <button onClick={syncNow} className="shrink-0 flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 text-[11px] font-black text-white uppercase tracking-wider hover:bg-white/20">
+              <RefreshCcw className="w-4 h-4" /> Retry now
+            </button>
+          </div>
+        )}
+
+        {/* DATA WARNINGS */}
+        {state.issues.length > 0 && (
+          <div className="flex items-start gap-4 bg-pivott-warning/10 border border-pivott-warning/30 rounded-2xl px-6 py-4">
+            <AlertCircle className="w-5 h-5 text-pivott-warning shrink-0 mt-0.5" />
+            <div className="space-y-1">
+              <p className="text-[11px] font-black text-pivott-warning uppercase tracking-[0.2em]">
+                {state.issues.length} data {state.issues.length === 1 ? 'issue' : 'issues'}
+              </p>
+              {state.issues.slice(0, 5).map((issue, i) => (
+                <p key={i} className="text-sm text-white/70 font-medium">{issue.message}</p>
+              ))}
+              <a href="#data-quality" className="inline-block pt-1 text-[11px] font-black text-pivott-blue uppercase tracking-wider hover:text-white">
+                See every issue in Data Quality
+              </a>
+            </div>
+          </div>
+        )}
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-8">
-              <div className="glass-box bg-white/5 rounded-[1.5rem] p-5 border border-pivott-blue/20 shadow-lg hover:border-pivott-sand/40 transition-all">
-                <div className="flex justify-between items-center mb-2">
-                  <p className="text-[10px] text-pivott-blue uppercase font-black tracking-[0.3em]">Pipeline At Risk/Reward</p>
-                  <span className="text-[9px] bg-pivott-blue/20 text-pivott-blue px-2 py-0.5 rounded-full font-bold">Attributed</span>
-                </div>
-                <p className="text-3xl font-black text-white font-display tracking-tighter mb-3">
-                  {formatCurrency(state.kpis?.totalRevenue || 0)}
-                </p>
-                <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
-                   <div className="h-full bg-pivott-blue" style={{ width: '100%' }}></div>
-                </div>
-              </div>
-              
-              <div className="glass-box bg-white/5 rounded-[1.5rem] p-5 border border-pivott-blue/20 shadow-lg hover:border-pivott-sand/40 transition-all flex flex-col justify-center">
-                 <p className="text-white/60 text-sm font-medium leading-snug">
-                   Historical nodes identify the <span className="text-pivott-blue font-black">{topSource?.source || 'Instantly'}</span> channel as your highest yield interaction vector. Direct attribution synced successfully.
-                 </p>
-              </div>
+        {/* FUNNEL AND TITLE */}
+        <div className="flex flex-col xl:flex-row gap-16 xl:items-center justify-between px-2">
+          {!embed && (
+            <div className="space-y-4">
+              <h2 className="text-4xl md:text-5xl font-black text-white tracking-tighter font-display uppercase leading-tight">
+                Pipeline Performance<br/>
+                <span className="text-pivott-blue italic flex items-center gap-6">
+                  Dashboard
+                  {isHighConversion && (
+                     <span className="inline-flex items-center gap-2 bg-pivott-success text-white px-4 py-1.5 rounded-xl text-[12px] font-black tracking-widest animate-confetti shadow-[0_0_15px_rgba(16,185,129,0.4)]">
+                       <Award className="w-4 h-4" /> ELITE PERFORMANCE
+                     </span>
+                  )}
+                </span>
+              </h2>
             </div>
+          )}
+          <div className="glass-box p-8 md:p-10 rounded-[2.5rem] flex flex-wrap items-start justify-between min-w-[400px] md:min-w-[600px] gap-x-10 gap-y-8 shadow-[0_25px_70px_-15px_rgba(0,0,0,0.6)] border-pivott-blue/25">
+            {funnel.map((step, i) => (
+              <FunnelStep 
+                key={step.name} 
+                step={step} 
+                isLast={i === funnel.length - 1} 
+                pinned={pinnedStep === step.name}
+                onToggle={() => setPinnedStep(p => (p === step.name ? null : step.name))}
+                sourceColors={sourceColors}
+              />
+            ))}
           </div>
         </div>
+
+        <WidgetGrid
+          layout={viewSettings.layout}
+          widgets={widgets}
+          editing={editingLayout}
+          onChange={changeLayout}
+          onDone={() => setEditingLayout(false)}
+        />
       </main>
 
+      <AlertToasts alerts={alerts} onDismiss={id => setAlerts(list => list.filter(a => a.id !== id))} />
+      {sourceDetail && workspace && (
+        <SourceDetailPanel
+          detail={sourceDetail}
+          workspaceId={workspace.id}
+          color={sourceColors[sourceDetail.source] || sourceColors['Other']}
+          estimated={view.estimated}
+          onClose={() => setSelectedSource(null)}
+        />
+      )}
+      {showGoalSettings && (
+        <GoalSettings settings={goalSettings} onSave={saveGoals} onClose={() => setShowGoalSettings(false)} />
+      )}
+
       {/* FOOTER */}
-      <footer className="mt-32 max-w-[1800px] mx-auto border-t border-white/10 pt-20 pb-28 flex flex-col md:flex-row justify-between items-center gap-12 opacity-80">
-        <div className="flex items-center gap-10">
-          <div className="w-5 h-5 rounded-full bg-pivott-success shadow-[0_0_25px_rgba(16,185,129,0.9)] animate-pulse"></div>
-          <span className="text-[15px] font-black uppercase tracking-[0.4em] text-white">
-            © 2026 Pivott AI • Distributed Analytics Protocol • Secure Cloud Link
-          </span>
-        </div>
-        <div className="flex gap-20 text-[14px] font-black text-pivott-blue uppercase tracking-[0.6em]">
-          <span className="flex items-center gap-4 hover:text-white transition-all cursor-pointer group">
-            <Activity className="w-6 h-6 group-hover:scale-110 transition-transform" /> System Integrity
-          </span>
-          <span className="flex items-center gap-4 hover:text-white transition-all cursor-pointer group">
-            <RefreshCcw className="w-6 h-6 group-hover:rotate-90 transition-transform" /> Node Sync: 300s
-          </span>
-        </div>
-      </footer>
+      {!embed && (
+        <footer className="mt-32 max-w-[1800px] mx-auto border-t border-white/10 pt-20 pb-28 flex flex-col md:flex-row justify-between items-center gap-12 opacity-80">
+          <div className="flex items-center gap-10">
+            <div className="w-5 h-5 rounded-full bg-pivott-success shadow-[0_0_25px_rgba(16,185,129,0.9)] animate-pulse"></div>
+            <span className="text-[15px] font-black uppercase tracking-[0.4em] text-white">
+              © 2026 Pivott AI • Distributed Analytics Protocol • Secure Cloud Link
+            </span>
+          </div>
+          <div className="flex gap-20 text-[14px] font-black text-pivott-blue uppercase tracking-[0.6em]">
+            <span className="flex items-center gap-4 hover:text-white transition-all cursor-pointer group">
+              <Activity className="w-6 h-6 group-hover:scale-110 transition-transform" /> System Integrity
+            </span>
+            <span className="flex items-center gap-4 hover:text-white transition-all cursor-pointer group">
+              <RefreshCcw className="w-6 h-6 group-hover:rotate-90 transition-transform" />
+              {syncStatus === 'syncing' ? 'Syncing' : schedule.paused ? 'Sync paused' : nextSyncIn ? `Next sync: ${nextSyncIn}` : `Sync: every ${REFRESH_INTERVAL / 60000}m`}
+            </span>
+          </div>
+        </footer>
+      )}
     </div>
   );
 };
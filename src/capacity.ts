@@ -0,0 +1,213 @@
+import { CapacitySettings, ConsultantCapacity, DashboardData, Opportunity, Snapshot, Workspace } from './types';
+import { formatWeekLabel } from './derive';
+import { getPipelineOutlook } from './forecast';
+import { formatNumber, formatPercent } from './utils';
+
+const STORAGE_PREFIX = 'pipeline-dashboard:capacity:';
+const DAY = 24 * 60 * 60 * 1000;
+
+// Weeks of utilisation history shown
+export const CAPACITY_HISTORY_WEEKS = 12;
+// Recent weeks of qualified conversations the intake rate is averaged over
+const INTAKE_WEEKS = 8;
+// Utilisation from which the team is warned that room is running out
+export const CAPACITY_WARNING_RATIO = 0.85;
+
+export const EMPTY_CAPACITY: CapacitySettings = { maxClients: null, consultants: [] };
+
+const isLimit = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const parseCapacity = (value: any): CapacitySettings | null => {
+  if (!value || !Array.isArray(value.consultants)) return null;
+  return {
+    maxClients: isLimit(value.maxClients) ? value.maxClients : null,
+    consultants: value.consultants.filter(
+      (c: any): c is ConsultantCapacity => typeof c?.name === 'string' && c.name.trim() !== '' && isLimit(c.maxClients)
+    ),
+  };
+};
+
+/**
+ * Capacity settings for a workspace: the ones saved in this browser, else
+ * the workspace config, else none
+ */
+export const loadCapacitySettings = (workspace: Workspace): CapacitySettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + workspace.id);
+    const parsed = stored ? parseCapacity(JSON.parse(stored)) : null;
+    if (parsed) return parsed;
+  } catch (error) {
+    console.warn('Could not read saved capacity settings', error);
+  }
+  return parseCapacity(workspace.capacity) ?? EMPTY_CAPACITY;
+};
+
+export const saveCapacitySettings = (workspaceId: string, settings: CapacitySettings): void => {
+  localStorage.setItem(STORAGE_PREFIX + workspaceId, JSON.stringify(settings));
+};
+
+/**
+ * The most clients the team can take on: the team cap, the consultants'
+ * limits added up, or the smaller of the two when both are set. Null when
+ * no capacity has been configured.
+ */
+export const getTeamCapacity = (settings: CapacitySettings): number | null => {
+  const consultantTotal = settings.consultants.length
+    ? settings.consultants.reduce((sum, c) => sum + c.maxClients, 0)
+    : null;
+  if (settings.maxClients === null) return consultantTotal;
+  return consultantTotal === null ? settings.maxClients : Math.min(settings.maxClients, consultantTotal);
+};
+
+const startOfWeek = (date: Date): Date => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+};
+
+// Same identity and start date the active client KPI uses
+const clientKey = (o: Opportunity) => o.contactId ?? o.id;
+const wonAt = (o: Opportunity) => o.closedAt ?? o.createdAt;
+const ownerKey = (name: string) => name.trim().toLowerCase();
+
+export interface UtilisationPoint {
+  week: string;
+  load: number;
+  capacity: number | null;
+}
+
+/**
+ * Active clients at the end of each of the last `CAPACITY_HISTORY_WEEKS`
+ * weeks. Row-level data is replayed from win dates; sheet data only has
+ * the current figure, so earlier weeks use the last snapshot taken in them
+ * and weeks without one are left out. The current week is always the live
+ * figure.
+ */
+export const buildUtilisationHistory = (
+  data: DashboardData,
+  snapshots: Snapshot[],
+  capacity: number | null,
+  now: Date = new Date()
+): UtilisationPoint[] => {
+  const thisWeek = startOfWeek(now);
+  const weeks = Array.from({ length: CAPACITY_HISTORY_WEEKS }, (_, i) =>
+    new Date(thisWeek.getFullYear(), thisWeek.getMonth(), thisWeek.getDate() - (CAPACITY_HISTORY_WEEKS - 1 - i) * 7)
+  );
+  const point = (week: Date, load: number): UtilisationPoint => ({ week: formatWeekLabel(week), load, capacity });
+
+  if (data.opportunities.length) {
+    const won = data.opportunities.filter(o => o.status === 'won');
+    return weeks.map((week, i) => {
+      const end = i === weeks.length - 1 ? now : new Date(week.getFullYear(), week.getMonth(), week.getDate() + 7);
+      return point(week, new Set(won.filter(o => wonAt(o) <= end).map(clientKey)).size);
+    });
+  }
+
+  // Newest first, so the first snapshot found in a week is its last
+  const byWeek = new Map<string, number>();
+  snapshots.forEach(s => {
+    const key = formatWeekLabel(startOfWeek(s.takenAt));
+    if (!byWeek.has(key) && s.data.kpis) byWeek.set(key, s.data.kpis.activeClientLoad);
+  });
+  return weeks.flatMap((week, i) => {
+    if (i === weeks.length - 1) return data.kpis ? [point(week, data.kpis.activeClientLoad)] : [];
+    const load = byWeek.get(formatWeekLabel(week));
+    return load === undefined ? [] : [point(week, load)];
+  });
+};
+
+export interface ConsultantLoad {
+  name: string;
+  maxClients: number;
+  // Null when the data has no owners to count clients by
+  load: number | null;
+  utilisation: number | null;
+}
+
+export interface CapacityWarning {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface CapacityOutlook {
+  capacity: number | null;
+  load: number;
+  remaining: number | null;
+  utilisation: number | null;
+  // New clients a week at the recent qualified volume and current win rate
+  weeklyWins: number;
+  // Clients the open pipeline is expected to win; null for sheet data, which has no open-deal count
+  pipelineWins: number | null;
+  // When the weekly intake uses up the remaining room; null when it never does or already has
+  fullAt: Date | null;
+  consultants: ConsultantLoad[];
+  warnings: CapacityWarning[];
+}
+
+/**
+ * Current utilisation against the configured capacity and when the team
+ * fills up if clients keep arriving at the current rate. Warns when the
+ * team is over or near capacity, when the open pipeline would win more
+ * clients than there is room for (row-level data only), and when a
+ * consultant is over their limit. Clients are never counted as leaving,
+ * as with the KPI.
+ */
+export const buildCapacityOutlook = (
+  data: DashboardData,
+  settings: CapacitySettings,
+  now: Date = new Date()
+): CapacityOutlook => {
+  const capacity = getTeamCapacity(settings);
+  const load = data.kpis?.activeClientLoad ?? 0;
+  const remaining = capacity === null ? null : capacity - load;
+  const utilisation = capacity ? load / capacity : null;
+
+  const recent = data.weeklyConversations.slice(-INTAKE_WEEKS);
+  const weeklyQualified = recent.length ? recent.reduce((sum, w) => sum + w.count, 0) / recent.length : 0;
+  const weeklyWins = weeklyQualified * (data.kpis?.conversionRate ?? 0);
+  // The sheet's stand-in for open deals is every qualified conversation never won, lost ones
+  // included, which would overstate the pipeline many times over
+  const outlook = data.opportunities.length ? getPipelineOutlook(data) : null;
+  const pipelineWins = outlook ? outlook.open * outlook.winRate : null;
+  const fullAt = remaining !== null && remaining > 0 && weeklyWins > 0
+    ? new Date(now.getTime() + (remaining / weeklyWins) * 7 * DAY)
+    : null;
+
+  const clientsByOwner = new Map<string, Set<string>>();
+  data.opportunities.filter(o => o.status === 'won' && o.owner).forEach(o => {
+    const key = ownerKey(o.owner!);
+    if (!clientsByOwner.has(key)) clientsByOwner.set(key, new Set());
+    clientsByOwner.get(key)!.add(clientKey(o));
+  });
+  const consultants = settings.consultants.map(c => {
+    const consultantLoad = data.opportunities.length ? clientsByOwner.get(ownerKey(c.name))?.size ?? 0 : null;
+    return {
+      name: c.name,
+      maxClients: c.maxClients,
+      load: consultantLoad,
+      utilisation: consultantLoad === null ? null : consultantLoad / c.maxClients,
+    };
+  });
+
+  const warnings: CapacityWarning[] = [];
+  if (capacity !== null && remaining !== null) {
+    if (remaining < 0) {
+      warnings.push({ severity: 'error', message: `${formatNumber(load)} active clients is ${formatNumber(-remaining)} over the capacity of ${formatNumber(capacity)}` });
+    } else if (utilisation !== null && utilisation >= CAPACITY_WARNING_RATIO) {
+      warnings.push({ severity: 'warning', message: `${formatPercent(utilisation)} of capacity in use, with room for ${formatNumber(remaining)} more ${remaining === 1 ? 'client' : 'clients'}` });
+    }
+    if (remaining >= 0 && pipelineWins !== null && pipelineWins > remaining) {
+      warnings.push({
+        severity: 'warning',
+        message: `The open pipeline is expected to win ${formatNumber(Math.round(pipelineWins))} clients, more than the ${formatNumber(remaining)} places left`,
+      });
+    }
+  }
+  consultants.forEach(c => {
+    if (c.load !== null && c.load > c.maxClients) {
+      warnings.push({ severity: 'warning', message: `${c.name} has ${formatNumber(c.load)} clients against a limit of ${formatNumber(c.maxClients)}` });
+    }
+  });
+
+  return { capacity, load, remaining, utilisation, weeklyWins, pipelineWins, fullAt, consultants, warnings };
+};
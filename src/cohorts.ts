@@ -0,0 +1,79 @@
+import { DateRange, Opportunity } from './types';
+import { formatMonthLabel } from './derive';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Without a window, the table shows this many recent acquisition months
+const MONTHS_SHOWN = 12;
+
+export const COHORT_HORIZONS = [30, 60, 90] as const;
+
+export interface CohortCell {
+  days: number;
+  converted: number;
+  // Share of the cohort won within `days` of entering the pipeline
+  rate: number;
+  revenue: number;
+  // False while some of the cohort is younger than `days`, so the number can still grow
+  complete: boolean;
+}
+
+export interface Cohort {
+  month: string;
+  start: Date;
+  size: number;
+  qualified: number;
+  cells: CohortCell[];
+}
+
+/**
+ * Groups opportunities by the month they entered the pipeline and counts,
+ * for each cohort, the wins and revenue closed within 30/60/90 days of
+ * each opportunity's creation. Pass a source to look at one channel.
+ * Needs row-level data; aggregate-only data yields no cohorts.
+ */
+export const buildCohorts = (
+  opportunities: Opportunity[],
+  source: string | null,
+  window: DateRange | null,
+  now: Date = new Date()
+): Cohort[] => {
+  const bySource = source ? opportunities.filter(o => o.source === source) : opportunities;
+  if (!bySource.length) return [];
+
+  const firstMonth = window
+    ? new Date(window.start.getFullYear(), window.start.getMonth(), 1)
+    : new Date(now.getFullYear(), now.getMonth() - (MONTHS_SHOWN - 1), 1);
+  const lastDay = window?.end ?? now;
+
+  const cohorts: Cohort[] = [];
+  for (let start = firstMonth; start <= lastDay; start = new Date(start.getFullYear(), start.getMonth() + 1, 1)) {
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+    const members = bySource.filter(o => o.createdAt >= start && o.createdAt < end);
+    cohorts.push({
+      month: formatMonthLabel(start),
+      start,
+      size: members.length,
+      qualified: members.filter(o => o.qualified).length,
+      cells: COHORT_HORIZONS.map(days => {
+        const won = members.filter(o =>
+          o.status === 'won' && o.closedAt && o.closedAt.getTime() - o.createdAt.getTime() <= days * DAY_MS
+        );
+        return {
+          days,
+          converted: won.length,
+          rate: members.length ? won.length / members.length : 0,
+          revenue: won.reduce((sum, o) => sum + o.value, 0),
+          complete: now.getTime() - end.getTime() >= days * DAY_MS,
+        };
+      }),
+    });
+  }
+  // Newest cohort first, like the snapshot list
+  return cohorts.reverse();
+};
+
+/**
+ * Sources present in the data, for the cohort source filter
+ */
+export const listCohortSources = (opportunities: Opportunity[]): string[] =>
+  [...new Set(opportunities.map(o => o.source))].sort((a, b) => a.localeCompare(b));
@@ -0,0 +1,34 @@
+import React from 'react';
+import { BellRing, X } from 'lucide-react';
+import { Alert } from '../types';
+
+/**
+ * In-app stack of alerts raised by the last syncs, newest on top
+ */
+const AlertToasts: React.FC<{
+  alerts: Alert[];
+  onDismiss: (id: string) => void;
+}> = ({ alerts, onDismiss }) => {
+  if (!alerts.length) return null;
+  return (
+    <div className="fixed top-6 right-6 z-[90] w-96 max-w-[calc(100vw-3rem)] space-y-3 print:hidden">
+      {alerts.map(alert => (
+        <div
+          key={alert.id}
+          className={`flex items-start gap-3 p-4 rounded-2xl border shadow-2xl backdrop-blur-xl bg-pivott-navy/95 ${alert.severity === 'positive' ? 'border-pivott-success/40' : 'border-pivott-danger/40'}`}
+        >
+          <BellRing className={`w-5 h-5 shrink-0 mt-0.5 ${alert.severity === 'positive' ? 'text-pivott-success' : 'text-pivott-danger'}`} />
+          <div className="flex-1">
+            <p className="text-sm font-bold text-white leading-snug">{alert.message}</p>
+            <p className="text-[10px] font-black text-white/40 uppercase tracking-[0.2em] mt-1">{alert.raisedAt.toLocaleTimeString()}</p>
+          </div>
+          <button onClick={() => onDismiss(alert.id)} className="p-1 rounded-lg text-white/40 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AlertToasts;
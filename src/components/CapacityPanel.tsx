@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import {
+  CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { AlertCircle, AlertTriangle, Plus, Settings, Trash2 } from 'lucide-react';
+import ChartCard from './ChartCard';
+import { CapacitySettings, ConsultantCapacity } from '../types';
+import { CAPACITY_WARNING_RATIO, CapacityOutlook, UtilisationPoint } from '../capacity';
+import { formatNumber, formatPercent } from '../utils';
+
+const inputClass = 'bg-pivott-navy/60 border border-pivott-blue/20 rounded-xl px-3 py-2 text-[12px] font-bold text-white focus:outline-none focus:border-pivott-blue';
+const labelClass = 'text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]';
+const buttonClass = 'flex items-center gap-2 px-3 py-2 rounded-xl bg-pivott-blue/20 text-[11px] font-black text-pivott-blue uppercase tracking-wider hover:bg-pivott-blue hover:text-pivott-dark transition-all';
+
+const utilisationColor = (ratio: number | null) =>
+  ratio === null ? 'bg-pivott-blue' : ratio > 1 ? 'bg-pivott-danger' : ratio >= CAPACITY_WARNING_RATIO ? 'bg-pivott-warning' : 'bg-pivott-success';
+
+const formatWins = (value: number) => (value > 0 && value < 10 ? value.toFixed(1) : formatNumber(Math.round(value)));
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-white/5 border border-white/5 rounded-2xl p-4">
+    <p className={`${labelClass} mb-2`}>{label}</p>
+    <p className="text-2xl font-black text-white font-display tracking-tighter">{value}</p>
+    {hint && <p className="text-[10px] font-bold text-white/40 uppercase tracking-wider mt-1">{hint}</p>}
+  </div>
+);
+
+const CapacityEditor: React.FC<{
+  settings: CapacitySettings;
+  owners: string[];
+  onSave: (settings: CapacitySettings) => void;
+  onCancel: () => void;
+}> = ({ settings, owners, onSave, onCancel }) => {
+  const [maxClients, setMaxClients] = useState(settings.maxClients);
+  const [consultants, setConsultants] = useState<ConsultantCapacity[]>(settings.consultants);
+
+  const update = (index: number, patch: Partial<ConsultantCapacity>) =>
+    setConsultants(list => list.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+
+  const save = () => onSave({
+    maxClients,
+    consultants: consultants
+      .map(c => ({ ...c, name: c.name.trim() }))
+      .filter(c => c.name && c.maxClients > 0),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-[1fr_10rem] items-center gap-4 max-w-xl">
+        <span className="text-sm font-black text-white uppercase tracking-wider">Team maximum clients</span>
+        <input
+          type="number"
+          min={0}
+          placeholder="No cap"
+          value={maxClients ?? ''}
+          onChange={e => setMaxClients(Number(e.target.value) > 0 ? Number(e.target.value) : null)}
+          className={inputClass}
+        />
+      </div>
+
+      <section className="space-y-3 max-w-xl">
+        <p className={labelClass}>Per-consultant limits</p>
+        {consultants.map((c, i) => (
+          <div key={i} className="grid grid-cols-[1fr_10rem_auto] items-center gap-4">
+            <input
+              type="text"
+              list="capacity-owners"
+              placeholder="Consultant name"
+              value={c.name}
+              onChange={e => update(i, { name: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min={1}
+              placeholder="Max clients"
+              value={c.maxClients || ''}
+              onChange={e => update(i, { maxClients: Number(e.target.value) || 0 })}
+              className={inputClass}
+            />
+            <button onClick={() => setConsultants(list => list.filter((_, j) => j !== i))} className="p-2 rounded-xl text-white/40 hover:text-pivott-danger hover:bg-white/10" title="Remove consultant">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <datalist id="capacity-owners">
+          {owners.map(o => <option key={o} value={o} />)}
+        </datalist>
+        <button onClick={() => setConsultants(list => [...list, { name: '', maxClients: 0 }])} className={buttonClass}>
+          <Plus className="w-4 h-4" /> Add consultant
+        </button>
+        <p className="text-[10px] font-bold text-white/40 uppercase tracking-wider">
+          Names are matched to opportunity owners. With both set, the smaller of the team cap and the consultants' total applies.
+        </p>
+      </section>
+
+      <div className="flex gap-3">
+        <button onClick={save} className="px-5 py-2.5 rounded-xl bg-pivott-blue text-pivott-dark text-[11px] font-black uppercase tracking-wider hover:bg-pivott-sand transition-all">Save</button>
+        <button onClick={onCancel} className="px-5 py-2.5 rounded-xl text-[11px] font-black text-white/60 uppercase tracking-wider hover:text-white hover:bg-white/10 transition-all">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Active clients against the team's capacity: utilisation over recent
+ * weeks, per-consultant load, when the current win rate fills the team
+ * up, and warnings when the expected wins will not fit
+ */
+const CapacityPanel: React.FC<{
+  outlook: CapacityOutlook;
+  history: UtilisationPoint[];
+  settings: CapacitySettings;
+  owners: string[];
+  onSave: (settings: CapacitySettings) => void;
+}> = ({ outlook, history, settings, owners, onSave }) => {
+  const [editing, setEditing] = useState(false);
+  useEffect(() => setEditing(false), [settings]);
+
+  const { capacity, load, remaining, utilisation, weeklyWins, pipelineWins, fullAt, consultants, warnings } = outlook;
+
+  return (
+    <ChartCard
+      title="Client Capacity"
+      subtitle={capacity === null ? 'Active clients • no capacity set' : `Active clients against a capacity of ${formatNumber(capacity)}`}
+      actions={!editing && (
+        <button onClick={() => setEditing(true)} className={`${buttonClass} print:hidden`}>
+          <Settings className="w-4 h-4" /> Capacity
+        </button>
+      )}
+    >
+      {editing ? (
+        <CapacityEditor settings={settings} owners={owners} onSave={onSave} onCancel={() => setEditing(false)} />
+      ) : (
+        <div className="space-y-8">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Stat label="Active Clients" value={formatNumber(load)} hint={capacity === null ? 'no capacity set' : `of ${formatNumber(capacity)}`} />
+            <Stat
+              label="Utilisation"
+              value={utilisation === null ? '—' : formatPercent(utilisation)}
+              hint={remaining === null ? undefined : remaining >= 0 ? `${formatNumber(remaining)} places left` : `${formatNumber(-remaining)} over`}
+            />
+            <Stat label="New Clients / Week" value={formatWins(weeklyWins)} hint={pipelineWins === null ? undefined : `${formatWins(pipelineWins)} expected from open pipeline`} />
+            <Stat
+              label="At Capacity"
+              value={remaining !== null && remaining <= 0 ? 'Now' : fullAt ? fullAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) : '—'}
+              hint="at the current win rate"
+            />
+          </div>
+
+          {warnings.length > 0 && (
+            <ul className="space-y-2">
+              {warnings.map(w => (
+                <li key={w.message} className="flex items-start gap-3 bg-white/5 border border-white/5 rounded-2xl px-4 py-3">
+                  {w.severity === 'error'
+                    ? <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-pivott-danger" />
+                    : <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-pivott-warning" />}
+                  <span className="text-sm text-white/80 font-medium">{w.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <section className="space-y-3">
+              <p className={labelClass}>Active clients by week</p>
+              {history.length > 1 ? (
+                <div className="h-[220px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={history} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="6 6" vertical={false} stroke="rgba(255,255,255,0.06)" />
+                      <XAxis dataKey="week" axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 11, fontWeight: 800 }} />
+                      <YAxis axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 11, fontWeight: 800 }} allowDecimals={false} />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#021526', borderRadius: '1rem', border: '1px solid rgba(110,172,218,0.4)', padding: '12px' }}
+                        formatter={(value: number, name: string) => [formatNumber(value), name === 'load' ? 'Active clients' : 'Capacity']}
+                      />
+                      <Line type="monotone" dataKey="load" stroke="#6EACDA" strokeWidth={3} dot={false} />
+                      {capacity !== null && <Line type="stepAfter" dataKey="capacity" stroke="#ef4444" strokeWidth={2} strokeDasharray="6 6" dot={false} />}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-sm text-white/50 font-medium">Sheets only report the current figure, so history builds up from each week's syncs.</p>
+              )}
+            </section>
+
+            <section className="space-y-3">
+              <p className={labelClass}>Consultants</p>
+              {consultants.map(c => (
+                <div key={c.name} className="grid grid-cols-[8rem_1fr_5rem] items-center gap-4">
+                  <span className="text-[12px] font-black text-white uppercase tracking-wider truncate" title={c.name}>{c.name}</span>
+                  <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${utilisationColor(c.utilisation)}`} style={{ width: `${Math.min(1, c.utilisation ?? 0) * 100}%` }}></div>
+                  </div>
+                  <span className="text-[12px] font-black text-white text-right">
+                    {c.load === null ? '—' : formatNumber(c.load)} <span className="text-white/40">/ {formatNumber(c.maxClients)}</span>
+                  </span>
+                </div>
+              ))}
+              {!consultants.length && (
+                <p className="text-sm text-white/50 font-medium">Add consultant limits to see each person's load.</p>
+              )}
+              {consultants.some(c => c.load === null) && (
+                <p className="text-[10px] font-bold text-white/40 uppercase tracking-wider">Per-consultant load needs opportunity owners from the CRM.</p>
+              )}
+            </section>
+          </div>
+        </div>
+      )}
+    </ChartCard>
+  );
+};
+
+export default CapacityPanel;
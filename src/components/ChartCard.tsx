@@ -0,0 +1,29 @@
+import React from 'react';
+
+const ChartCard: React.FC<{
+  title: string;
+  subtitle?: string;
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+  className?: string;
+}> = ({ title, subtitle, actions, children, className = "" }) => (
+  <div className={`glass-box p-8 md:p-10 rounded-[3rem] flex flex-col h-full chart-container-hover ${className}`}>
+    <div className="mb-8 md:mb-10 flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-3">
+          <div className="w-1.5 h-6 bg-pivott-blue rounded-full shadow-[0_0_12px_rgba(110,172,218,0.6)]"></div>
+          <h3 className="text-2xl font-black text-pivott-sand font-display tracking-tight uppercase">
+            {title}
+          </h3>
+        </div>
+        {actions}
+      </div>
+      {subtitle && <p className="text-[14px] font-bold text-white/50 tracking-wide pl-4 uppercase">{subtitle}</p>}
+    </div>
+    <div className="flex-1 min-h-[350px] w-full relative">
+      {children}
+    </div>
+  </div>
+);
+
+export default ChartCard;
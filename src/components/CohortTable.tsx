@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import ChartCard from './ChartCard';
+import { DateRange, Opportunity } from '../types';
+import { buildCohorts, COHORT_HORIZONS, CohortCell, listCohortSources } from '../cohorts';
+import { formatCurrency, formatNumber, formatPercent } from '../utils';
+
+type CohortMetric = 'rate' | 'revenue';
+
+const METRICS: { key: CohortMetric; label: string }[] = [
+  { key: 'rate', label: 'Conversion' },
+  { key: 'revenue', label: 'Revenue' },
+];
+
+/**
+ * Heatmap of acquisition-month cohorts: how much of each month's intake
+ * converted, and for how much revenue, within 30/60/90 days
+ */
+const CohortTable: React.FC<{
+  opportunities: Opportunity[];
+  window: DateRange | null;
+  sourceColors: Record<string, string>;
+}> = ({ opportunities, window, sourceColors }) => {
+  const [source, setSource] = useState<string | null>(null);
+  const [metric, setMetric] = useState<CohortMetric>('rate');
+  const sources = useMemo(() => listCohortSources(opportunities), [opportunities]);
+  const cohorts = useMemo(() => buildCohorts(opportunities, source, window), [opportunities, source, window]);
+
+  // Drop a source filter that no longer exists, e.g. after switching rep or workspace
+  useEffect(() => {
+    if (source && !sources.includes(source)) setSource(null);
+  }, [source, sources]);
+
+  const value = (cell: CohortCell) => cell[metric];
+  const max = Math.max(0, ...cohorts.flatMap(c => c.cells.map(value)));
+  const format = (cell: CohortCell) => (metric === 'rate' ? formatPercent(cell.rate) : formatCurrency(cell.revenue));
+
+  const selectClass = 'bg-pivott-navy/60 border border-pivott-blue/20 rounded-xl px-3 py-2 text-[11px] font-black text-white uppercase tracking-wider focus:outline-none focus:border-pivott-blue cursor-pointer';
+
+  return (
+    <ChartCard
+      title="Lead Cohorts"
+      subtitle="Cumulative wins by the month leads entered the pipeline • faded cells are still maturing"
+      actions={(
+        <div className="flex items-center gap-3 print:hidden">
+          {source && <span className="w-3 h-3 rounded-full" style={{ backgroundColor: sourceColors[source] || sourceColors['Other'] }}></span>}
+          <select value={source ?? ''} onChange={e => setSource(e.target.value || null)} className={selectClass}>
+            <option value="" className="bg-pivott-dark">All sources</option>
+            {sources.map(s => <option key={s} value={s} className="bg-pivott-dark">{s}</option>)}
+          </select>
+          <div className="flex bg-pivott-navy/60 p-1 rounded-xl border border-pivott-blue/20">
+            {METRICS.map(m => (
+              <button
+                key={m.key}
+                onClick={() => setMetric(m.key)}
+                className={`px-3 py-1.5 rounded-lg text-[11px] font-black uppercase tracking-wider transition-all ${metric === m.key ? 'bg-pivott-blue text-pivott-dark' : 'text-white/60 hover:text-white'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    >
+      {cohorts.some(c => c.size) ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">
+                <th className="py-3 px-4 text-left">Cohort</th>
+                <th className="py-3 px-4 text-right">Leads</th>
+                <th className="py-3 px-4 text-right">Qualified</th>
+                {COHORT_HORIZONS.map(days => <th key={days} className="py-3 px-4 text-center">{days} days</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {cohorts.map(cohort => (
+                <tr key={cohort.month} className="border-t border-white/5">
+                  <td className="py-3 px-4 font-black text-pivott-sand uppercase tracking-wider">{cohort.month}</td>
+                  <td className="py-3 px-4 text-right text-white/70 font-bold">{formatNumber(cohort.size)}</td>
+                  <td className="py-3 px-4 text-right text-white/70 font-bold">{formatNumber(cohort.qualified)}</td>
+                  {cohort.cells.map(cell => (
+                    <td key={cell.days} className="py-1.5 px-1.5">
+                      <div
+                        className={`rounded-xl py-2 px-3 text-center font-black text-white ${cell.complete ? '' : 'opacity-50 border border-dashed border-white/20'}`}
+                        style={{ backgroundColor: `rgba(110,172,218,${max ? (value(cell) / max) * 0.7 : 0})` }}
+                        title={`${formatNumber(cell.converted)} won • ${formatCurrency(cell.revenue)}${cell.complete ? '' : ' • still maturing'}`}
+                      >
+                        {cohort.size ? format(cell) : '—'}
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-white/50 font-medium">No leads entered the pipeline in the selected window{source ? ` from ${source}` : ''}.</p>
+      )}
+    </ChartCard>
+  );
+};
+
+export default CohortTable;
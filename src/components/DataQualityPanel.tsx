@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import ChartCard from './ChartCard';
+import { DataIssue, DataIssueCategory } from '../types';
+import { formatNumber } from '../utils';
+
+type Filter = 'all' | DataIssue['severity'];
+
+const FILTERS: { key: Filter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'error', label: 'Errors' },
+  { key: 'warning', label: 'Warnings' },
+];
+
+const CATEGORY_LABELS: Record<DataIssueCategory, string> = {
+  mapping: 'Column',
+  value: 'Value',
+  consistency: 'Consistency',
+  duplicate: 'Duplicate',
+};
+
+// The row and column get their own cells, so drop them from the message
+const stripLocation = (message: string) => message.replace(/^row \d+(, column '[^']*')?: /, '');
+
+/**
+ * Every issue found in the last sync, errors first and then in sheet row
+ * order, so the sheet can be fixed rather than the numbers trusted
+ */
+const DataQualityPanel: React.FC<{
+  issues: DataIssue[];
+  lastUpdated: Date | null;
+  // Cached data carries no issues, so there is nothing to report until a sync
+  fromCache: boolean;
+}> = ({ issues, lastUpdated, fromCache }) => {
+  const [filter, setFilter] = useState<Filter>('all');
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  const shown = useMemo(() => issues
+    .filter(i => filter === 'all' || i.severity === filter)
+    .sort((a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1)
+      || (a.row ?? Infinity) - (b.row ?? Infinity)
+    ), [issues, filter]);
+
+  return (
+    <div id="data-quality" className="h-full scroll-mt-8">
+      <ChartCard
+        title="Data Quality"
+        subtitle={issues.length
+          ? `${formatNumber(errors)} ${errors === 1 ? 'error' : 'errors'} • ${formatNumber(warnings)} ${warnings === 1 ? 'warning' : 'warnings'} in the last sync`
+          : fromCache ? 'Checked on the next sync' : `All checks passed${lastUpdated ? ` • ${lastUpdated.toLocaleString()}` : ''}`}
+        actions={issues.length > 0 && (
+          <div className="flex bg-pivott-navy/60 p-1 rounded-xl border border-pivott-blue/20 print:hidden">
+            {FILTERS.map(f => (
+              <button
+                key={f.key}
+                onClick={() => setFilter(f.key)}
+                className={`px-3 py-1.5 rounded-lg text-[11px] font-black uppercase tracking-wider transition-all ${filter === f.key ? 'bg-pivott-blue text-pivott-dark' : 'text-white/60 hover:text-white'}`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        )}
+      >
+        {issues.length ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">
+                  <th className="py-3 px-4 text-left w-10"></th>
+                  <th className="py-3 px-4 text-left">Check</th>
+                  <th className="py-3 px-4 text-right">Row</th>
+                  <th className="py-3 px-4 text-left">Column</th>
+                  <th className="py-3 px-4 text-left">Issue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((issue, i) => (
+                  <tr key={i} className="border-t border-white/5 align-top">
+                    <td className="py-3 px-4">
+                      {issue.severity === 'error'
+                        ? <AlertCircle className="w-4 h-4 text-pivott-danger" />
+                        : <AlertTriangle className="w-4 h-4 text-pivott-warning" />}
+                    </td>
+                    <td className="py-3 px-4 text-[11px] font-black text-white/60 uppercase tracking-wider whitespace-nowrap">
+                      {issue.category ? CATEGORY_LABELS[issue.category] : 'Sync'}
+                    </td>
+                    <td className="py-3 px-4 text-right font-black text-white">{issue.row ?? '—'}</td>
+                    <td className="py-3 px-4 font-bold text-pivott-sand whitespace-nowrap">{issue.column ?? '—'}</td>
+                    <td className="py-3 px-4 text-white/70 font-medium">{stripLocation(issue.message)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : fromCache ? (
+          <p className="text-sm text-white/50 font-medium">Showing cached data; the sheet is checked again when the next sync completes.</p>
+        ) : (
+          <p className="flex items-center gap-3 text-sm text-white/60 font-medium">
+            <CheckCircle2 className="w-5 h-5 text-pivott-success" />
+            No missing columns, unreadable cells, inconsistent totals or repeated periods were found.
+          </p>
+        )}
+      </ChartCard>
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileSpreadsheet, FileText, Printer } from 'lucide-react';
+import { ExportContext, ExportDataset, downloadCsv, downloadWorkbook } from '../export';
+
+const ExportMenu: React.FC<{
+  datasets: ExportDataset[];
+  context: ExportContext;
+}> = ({ datasets, context }) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const exportWorkbook = async () => {
+    setBusy(true);
+    try {
+      await downloadWorkbook(datasets, context);
+    } catch (err) {
+      console.error('Workbook export failed', err);
+    } finally {
+      setBusy(false);
+      setOpen(false);
+    }
+  };
+
+  const printReport = () => {
+    setOpen(false);
+    // Let the menu close before the print dialog snapshots the page
+    setTimeout(() => window.print(), 50);
+  };
+
+  const itemClass = 'w-full flex items-center gap-3 px-4 py-3 rounded-xl text-left text-[12px] font-black uppercase tracking-wider text-white/70 hover:text-white hover:bg-white/10 transition-all';
+
+  return (
+    <div ref={ref} className="relative print:hidden">
+      <button 
+        onClick={() => setOpen(o => !o)} 
+        title="Export"
+        className="p-3.5 bg-pivott-blue/10 border border-pivott-blue/30 rounded-2xl hover:bg-pivott-blue hover:text-pivott-dark transition-all duration-500 active:scale-90 shadow-2xl"
+      >
+        <Download className={`w-6 h-6 ${busy ? 'animate-pulse' : ''}`} />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-3 w-72 p-2 bg-pivott-navy/95 border border-pivott-blue/30 rounded-2xl z-50 shadow-2xl backdrop-blur-xl">
+          <p className="px-4 pt-2 pb-1 text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">CSV</p>
+          {datasets.map(d => (
+            <button key={d.id} onClick={() => { downloadCsv(d, context); setOpen(false); }} className={itemClass}>
+              <FileText className="w-4 h-4 text-pivott-blue" /> {d.title}
+            </button>
+          ))}
+          <div className="h-px bg-white/10 my-2"></div>
+          <button onClick={exportWorkbook} disabled={busy} className={itemClass}>
+            <FileSpreadsheet className="w-4 h-4 text-pivott-success" /> All datasets (XLSX)
+          </button>
+          <button onClick={printReport} className={itemClass}>
+            <Printer className="w-4 h-4 text-pivott-sand" /> PDF report
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
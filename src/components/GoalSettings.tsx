@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Bell, Plus, Trash2, X } from 'lucide-react';
+import { AlertRule, GoalPeriod, KPIData, KpiGoal } from '../types';
+import { GOAL_PERIOD_LABELS, GoalSettings as Settings } from '../goals';
+import { KPI_LABELS } from '../utils';
+
+const METRICS = Object.keys(KPI_LABELS) as (keyof KPIData)[];
+const PERIODS = Object.keys(GOAL_PERIOD_LABELS) as GoalPeriod[];
+
+// Rates are edited as whole percentages and stored as fractions
+const toInput = (metric: keyof KPIData, value: number) => (metric === 'conversionRate' ? value * 100 : value);
+const fromInput = (metric: keyof KPIData, value: number) => (metric === 'conversionRate' ? value / 100 : value);
+
+const inputClass = 'bg-pivott-navy/60 border border-pivott-blue/20 rounded-xl px-3 py-2 text-[12px] font-bold text-white focus:outline-none focus:border-pivott-blue';
+const labelClass = 'text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]';
+
+/**
+ * Editor for a workspace's KPI goals and alert rules
+ */
+const GoalSettings: React.FC<{
+  settings: Settings;
+  onSave: (settings: Settings) => void;
+  onClose: () => void;
+}> = ({ settings, onSave, onClose }) => {
+  const [goals, setGoals] = useState<KpiGoal[]>(settings.goals);
+  const [alerts, setAlerts] = useState<AlertRule[]>(settings.alerts);
+  const [permission, setPermission] = useState(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+  const setGoal = (metric: keyof KPIData, patch: Partial<KpiGoal>) => {
+    setGoals(list => {
+      const existing = list.find(g => g.metric === metric) ?? { metric, target: 0, period: 'month' as GoalPeriod };
+      const next = { ...existing, ...patch };
+      return [...list.filter(g => g.metric !== metric), next].filter(g => g.target > 0);
+    });
+  };
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) =>
+    setAlerts(list => list.map(r => (r.id === id ? { ...r, ...patch } as AlertRule : r)));
+
+  const addThreshold = () =>
+    setAlerts(list => [...list, { id: `threshold-${Date.now()}`, type: 'threshold', metric: 'conversionRate', direction: 'below', value: 0.2 }]);
+
+  const addWinRateDrop = () =>
+    setAlerts(list => [...list, { id: `win-rate-drop-${Date.now()}`, type: 'winRateDrop', points: 0.1, minQualified: 5 }]);
+
+  const requestPermission = async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-pivott-dark/80 backdrop-blur-sm p-6 print:hidden" onClick={onClose}>
+      <div className="glass-box w-full max-w-3xl max-h-[90vh] overflow-y-auto p-8 md:p-10 rounded-[2.5rem] space-y-10" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-black text-pivott-sand font-display tracking-tight uppercase">Goals & Alerts</h3>
+          <button onClick={onClose} className="p-2 rounded-xl text-white/50 hover:text-white hover:bg-white/10"><X className="w-5 h-5" /></button>
+        </div>
+
+        <section className="space-y-4">
+          <p className={labelClass}>KPI Goals</p>
+          {METRICS.map(metric => {
+            const goal = goals.find(g => g.metric === metric);
+            return (
+              <div key={metric} className="grid grid-cols-[1fr_10rem_10rem] items-center gap-4">
+                <span className="text-sm font-black text-white uppercase tracking-wider">{KPI_LABELS[metric]}</span>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder={metric === 'conversionRate' ? 'Target %' : 'No goal'}
+                  value={goal ? toInput(metric, goal.target) : ''}
+                  onChange={e => setGoal(metric, { target: fromInput(metric, Number(e.target.value) || 0) })}
+                  className={inputClass}
+                />
+                <select
+                  value={goal?.period ?? 'month'}
+                  disabled={!goal}
+                  onChange={e => setGoal(metric, { period: e.target.value as GoalPeriod })}
+                  className={`${inputClass} disabled:opacity-40`}
+                >
+                  {PERIODS.map(p => <option key={p} value={p} className="bg-pivott-dark">{GOAL_PERIOD_LABELS[p]}</option>)}
+                </select>
+              </div>
+            );
+          })}
+        </section>
+
+        <section className="space-y-4">
+          <p className={labelClass}>Alert Rules • checked on every sync</p>
+          {alerts.map(rule => (
+            <div key={rule.id} className="flex flex-wrap items-center gap-3 bg-white/5 rounded-2xl p-4">
+              {rule.type === 'threshold' ? (
+                <>
+                  <select value={rule.metric} onChange={e => updateRule(rule.id, { metric: e.target.value as keyof KPIData })} className={inputClass}>
+                    {METRICS.map(m => <option key={m} value={m} className="bg-pivott-dark">{KPI_LABELS[m]}</option>)}
+                  </select>
+                  <span className="text-sm text-white/60">goes</span>
+                  <select value={rule.direction} onChange={e => updateRule(rule.id, { direction: e.target.value as 'above' | 'below' })} className={inputClass}>
+                    <option value="above" className="bg-pivott-dark">above</option>
+                    <option value="below" className="bg-pivott-dark">below</option>
+                  </select>
+                  <input
+                    type="number"
+                    value={toInput(rule.metric, rule.value)}
+                    onChange={e => updateRule(rule.id, { value: fromInput(rule.metric, Number(e.target.value) || 0) })}
+                    className={`${inputClass} w-32`}
+                  />
+                </>
+              ) : (
+                <>
+                  <span className="text-sm text-white/60">A source's win rate drops by</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={Math.round(rule.points * 100)}
+                    onChange={e => updateRule(rule.id, { points: (Number(e.target.value) || 0) / 100 })}
+                    className={`${inputClass} w-20`}
+                  />
+                  <span className="text-sm text-white/60">pts or more, with at least</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={rule.minQualified ?? 0}
+                    onChange={e => updateRule(rule.id, { minQualified: Number(e.target.value) || 0 })}
+                    className={`${inputClass} w-20`}
+                  />
+                  <span className="text-sm text-white/60">qualified</span>
+                </>
+              )}
+              <button onClick={() => setAlerts(list => list.filter(r => r.id !== rule.id))} className="ml-auto p-2 rounded-xl text-white/40 hover:text-pivott-danger">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-3">
+            <button onClick={addThreshold} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/5 text-[11px] font-black text-white/70 uppercase tracking-wider hover:bg-white/10">
+              <Plus className="w-4 h-4" /> Threshold
+            </button>
+            <button onClick={addWinRateDrop} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/5 text-[11px] font-black text-white/70 uppercase tracking-wider hover:bg-white/10">
+              <Plus className="w-4 h-4" /> Win-rate drop
+            </button>
+            {permission !== 'unsupported' && (
+              <button
+                onClick={requestPermission}
+                disabled={permission !== 'default'}
+                className="ml-auto flex items-center gap-2 px-4 py-2 rounded-xl bg-pivott-blue/10 border border-pivott-blue/30 text-[11px] font-black text-pivott-blue uppercase tracking-wider disabled:opacity-60"
+              >
+                <Bell className="w-4 h-4" />
+                {permission === 'granted' ? 'Browser notifications on' : permission === 'denied' ? 'Notifications blocked' : 'Enable browser notifications'}
+              </button>
+            )}
+          </div>
+        </section>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-6 py-3 rounded-2xl text-[12px] font-black text-white/60 uppercase tracking-wider hover:text-white">Cancel</button>
+          <button
+            onClick={() => onSave({ goals, alerts })}
+            className="px-6 py-3 rounded-2xl bg-pivott-blue text-pivott-navy text-[12px] font-black uppercase tracking-wider hover:scale-105 transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoalSettings;
@@ -0,0 +1,90 @@
+import React from 'react';
+import {
+  Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import ChartCard from './ChartCard';
+import { LossAnalysis } from '../losses';
+import { formatCurrency, formatNumber, formatPercent } from '../utils';
+
+const REASON_COLORS = ['#ef4444', '#f59e0b', '#E2E2B6', '#6EACDA', 'rgba(255,255,255,0.35)'];
+
+/**
+ * Why deals are lost: totals per reason, loss rate per source and the top
+ * reasons over time
+ */
+const LossReasonsPanel: React.FC<{
+  analysis: LossAnalysis;
+  sourceColors: Record<string, string>;
+  estimated: boolean;
+  onSelectSource: (source: string) => void;
+}> = ({ analysis, sourceColors, estimated, onSelectSource }) => {
+  const { reasons, bySource, trend, trendReasons } = analysis;
+
+  return (
+    <ChartCard
+      title="Lost Deal Analysis"
+      subtitle={`${formatNumber(analysis.totalLost)} lost or disqualified${estimated ? ' • pro-rated to window' : ''}`}
+    >
+      <div className="space-y-10">
+        <section className="space-y-3">
+          <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">By reason</p>
+          {reasons.map(r => (
+            <div key={r.reason} className="grid grid-cols-[10rem_1fr_3rem_3.5rem] items-center gap-4" title={r.value === null ? undefined : `${formatCurrency(r.value)} lost`}>
+              <span className="text-[12px] font-black text-white uppercase tracking-wider truncate">{r.reason}</span>
+              <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                <div className="h-full bg-pivott-danger/80 rounded-full" style={{ width: `${(r.lost / reasons[0].lost) * 100}%` }}></div>
+              </div>
+              <span className="text-[12px] font-black text-white text-right">{formatNumber(r.lost)}</span>
+              <span className="text-[11px] font-bold text-white/40 text-right">{formatPercent(r.share)}</span>
+            </div>
+          ))}
+        </section>
+
+        <section className="space-y-3">
+          <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">Loss rate per source</p>
+          {bySource.length ? bySource.map(s => (
+            <div key={s.source} onClick={() => onSelectSource(s.source)} className="grid grid-cols-[10rem_1fr_3.5rem] items-center gap-4 cursor-pointer group" title={`${formatNumber(s.lost)} lost • ${formatNumber(s.won)} won`}>
+              <span className="flex items-center gap-2 text-[12px] font-black text-white uppercase tracking-wider truncate group-hover:text-pivott-sand">
+                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: sourceColors[s.source] || sourceColors['Other'] }}></span>
+                {s.source}
+              </span>
+              <div className="h-2 bg-pivott-success/30 rounded-full overflow-hidden">
+                <div className="h-full bg-pivott-danger/80 rounded-full" style={{ width: `${s.lossRate * 100}%` }}></div>
+              </div>
+              <span className="text-[12px] font-black text-white text-right">{formatPercent(s.lossRate)}</span>
+            </div>
+          )) : (
+            <p className="text-sm text-white/50 font-medium">The loss data has no source column.</p>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">Top reasons by month</p>
+          {trend.length ? (
+            <div className="h-[240px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={trend} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="6 6" vertical={false} stroke="rgba(255,255,255,0.06)" />
+                  <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 11, fontWeight: 800 }} />
+                  <YAxis axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 11, fontWeight: 800 }} allowDecimals={false} />
+                  <Tooltip
+                    cursor={{ fill: 'rgba(110, 172, 218, 0.1)' }}
+                    contentStyle={{ backgroundColor: '#021526', borderRadius: '1rem', border: '1px solid rgba(110,172,218,0.4)', padding: '12px' }}
+                  />
+                  <Legend iconType="circle" wrapperStyle={{ fontSize: '11px', fontWeight: 900, textTransform: 'uppercase' }} />
+                  {trendReasons.map((reason, i) => (
+                    <Bar key={reason} dataKey={reason} stackId="losses" fill={REASON_COLORS[i % REASON_COLORS.length]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <p className="text-sm text-white/50 font-medium">The loss data has no month column.</p>
+          )}
+        </section>
+      </div>
+    </ChartCard>
+  );
+};
+
+export default LossReasonsPanel;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Activity, AlertTriangle, TrendingDown, TrendingUp, Trophy } from 'lucide-react';
+import { Insight } from '../insights';
+import { EFFICIENCY_METRICS, EfficiencyMetric, SourceEfficiency } from '../spend';
+import { formatPercent } from '../utils';
+
+// Insights shown before "show all"
+const COLLAPSED_COUNT = 4;
+
+const SENTIMENT_STYLES: Record<Insight['sentiment'], string> = {
+  positive: 'text-pivott-success bg-pivott-success/15 border-pivott-success/30',
+  negative: 'text-pivott-danger bg-pivott-danger/15 border-pivott-danger/30',
+  neutral: 'text-pivott-blue bg-pivott-blue/15 border-pivott-blue/30',
+};
+
+const InsightIcon: React.FC<{ insight: Insight }> = ({ insight }) => {
+  const className = 'w-4 h-4';
+  if (insight.kind === 'topSource') return <Trophy className={className} />;
+  if (insight.kind === 'concentration' || insight.kind === 'lowActivity') return <AlertTriangle className={className} />;
+  return insight.sentiment === 'negative' ? <TrendingDown className={className} /> : <TrendingUp className={className} />;
+};
+
+/**
+ * Ranked observations from the insights engine, each with the numbers
+ * behind it, under the headline win rate and top source
+ */
+const MarketIntelligencePanel: React.FC<{
+  insights: Insight[];
+  conversionRate: number;
+  topSource: SourceEfficiency | null;
+  rankedBy: EfficiencyMetric;
+  onSelectSource: (source: string) => void;
+}> = ({ insights, conversionRate, topSource, rankedBy, onSelectSource }) => {
+  const [expanded, setExpanded] = useState(false);
+  const shown = expanded ? insights : insights.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="relative group overflow-hidden rounded-[2rem] p-6 md:p-8 flex flex-col gap-8 text-white border border-pivott-blue/20 bg-gradient-to-br from-pivott-navy to-pivott-dark shadow-2xl">
+      <div className="absolute -top-32 -right-32 w-[300px] h-[300px] bg-pivott-blue/10 rounded-full blur-[100px] pointer-events-none group-hover:bg-pivott-blue/15 transition-all"></div>
+
+      <div className="relative z-10 flex flex-col lg:flex-row lg:items-center justify-between gap-6">
+        <div className="flex items-center gap-6">
+          <div className="w-14 h-14 bg-pivott-blue/20 backdrop-blur-3xl rounded-[1rem] flex items-center justify-center border border-pivott-blue/40 shadow-xl">
+            <Activity className="w-7 h-7 text-pivott-blue" />
+          </div>
+          <div>
+            <h3 className="text-xl font-black font-display tracking-tight leading-none uppercase italic underline decoration-pivott-sand/20 underline-offset-4">Market Intelligence</h3>
+            <p className="text-[9px] font-black text-pivott-sand tracking-[0.4em] mt-2 uppercase opacity-80 italic">
+              {insights.length} {insights.length === 1 ? 'observation' : 'observations'} • most important first
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-8 bg-white/5 px-6 py-3 rounded-2xl border border-white/5">
+          <div className="flex flex-col">
+            <span className="text-4xl font-black text-white font-display tracking-tighter leading-none">
+              {formatPercent(conversionRate)}
+            </span>
+            <span className="text-[10px] text-pivott-blue font-black uppercase tracking-widest mt-1">Win Rate</span>
+          </div>
+          <div className="h-10 w-px bg-white/10"></div>
+          <div className="flex flex-col">
+            {topSource ? (
+              <button onClick={() => onSelectSource(topSource.source)} className="text-left text-xl font-black text-pivott-sand uppercase italic leading-none hover:text-white transition-colors">
+                {topSource.source}
+              </button>
+            ) : (
+              <span className="text-xl font-black text-white/30 uppercase italic leading-none">No sources</span>
+            )}
+            <span className="text-[10px] text-white/40 font-black uppercase tracking-widest mt-1">Top Source • {EFFICIENCY_METRICS[rankedBy].label}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="relative z-10 grid grid-cols-1 md:grid-cols-2 gap-4">
+        {shown.map(insight => (
+          <div key={insight.id} className="glass-box bg-white/5 rounded-[1.5rem] p-5 border border-pivott-blue/20 shadow-lg hover:border-pivott-sand/40 transition-all flex flex-col gap-3">
+            <div className="flex items-start gap-3">
+              <span className={`shrink-0 w-8 h-8 rounded-xl border flex items-center justify-center ${SENTIMENT_STYLES[insight.sentiment]}`}>
+                <InsightIcon insight={insight} />
+              </span>
+              <div className="min-w-0">
+                {insight.source ? (
+                  <button onClick={() => onSelectSource(insight.source!)} className="text-left text-[13px] font-black text-white uppercase tracking-wider hover:text-pivott-sand transition-colors">
+                    {insight.title}
+                  </button>
+                ) : (
+                  <p className="text-[13px] font-black text-white uppercase tracking-wider">{insight.title}</p>
+                )}
+                <p className="text-white/60 text-sm font-medium leading-snug mt-1">{insight.detail}</p>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2 pl-11">
+              {insight.figures.map(figure => (
+                <span key={figure.label} className="px-2.5 py-1 rounded-lg bg-white/5 border border-white/10 text-[11px] font-bold text-white/50">
+                  {figure.label} <span className="text-white font-black ml-1">{figure.value}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+        {!insights.length && (
+          <p className="text-sm text-white/50 font-medium">Nothing stands out in this window yet; observations appear as the data builds up.</p>
+        )}
+      </div>
+
+      {insights.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setExpanded(e => !e)}
+          className="relative z-10 self-start text-[11px] font-black text-pivott-blue uppercase tracking-[0.2em] hover:text-pivott-sand transition-colors"
+        >
+          {expanded ? 'Show fewer' : `Show all ${insights.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MarketIntelligencePanel;
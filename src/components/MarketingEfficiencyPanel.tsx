@@ -0,0 +1,137 @@
+import React, { useRef } from 'react';
+import { Upload, X } from 'lucide-react';
+import ChartCard from './ChartCard';
+import { DataIssue } from '../types';
+import {
+  EFFICIENCY_METRICS, EfficiencyMetric, formatEfficiency, rankSources, SourceEfficiency, totalEfficiency, UploadedSpend
+} from '../spend';
+import { formatCurrency, formatNumber } from '../utils';
+
+const COLUMNS: EfficiencyMetric[] = ['costPerLead', 'costPerQualified', 'cac', 'roas', 'roi'];
+
+/**
+ * Spend against returns per source, ranked by the chosen efficiency
+ * metric. Spend comes from the workspace's spend tab or a CSV uploaded
+ * here, which takes precedence in this browser.
+ */
+const MarketingEfficiencyPanel: React.FC<{
+  rows: SourceEfficiency[];
+  metric: EfficiencyMetric;
+  onMetricChange: (metric: EfficiencyMetric) => void;
+  upload: UploadedSpend | null;
+  uploadIssues: DataIssue[];
+  onUpload: (file: File) => void;
+  onClearUpload: () => void;
+  sourceColors: Record<string, string>;
+  estimated: boolean;
+  // The selected rep; spend is team-wide, so it is not shown against one rep
+  owner: string | null;
+  onSelectSource: (source: string) => void;
+}> = ({ rows, metric, onMetricChange, upload, uploadIssues, onUpload, onClearUpload, sourceColors, estimated, owner, onSelectSource }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const hasSpend = rows.some(r => r.spend !== null);
+  const ranked = rankSources(rows, metric);
+  const total = totalEfficiency(rows);
+
+  const selectClass = 'bg-pivott-navy/60 border border-pivott-blue/20 rounded-xl px-3 py-2 text-[11px] font-black text-white uppercase tracking-wider focus:outline-none focus:border-pivott-blue cursor-pointer';
+  const buttonClass = 'flex items-center gap-2 px-3 py-2 rounded-xl bg-pivott-blue/20 text-[11px] font-black text-pivott-blue uppercase tracking-wider hover:bg-pivott-blue hover:text-pivott-dark transition-all';
+
+  const cell = (row: SourceEfficiency, key: EfficiencyMetric) => (
+    <td key={key} className={`py-4 px-4 text-right ${metric === key ? 'text-white font-black' : 'text-white/70 font-bold'}`}>
+      {formatEfficiency(key, row[key])}
+    </td>
+  );
+
+  return (
+    <ChartCard
+      title="Marketing Efficiency"
+      subtitle={`${upload ? `Spend from ${upload.fileName}` : 'Spend per source'}${estimated ? ' • pro-rated to window' : ''} • ranked by ${EFFICIENCY_METRICS[metric].label}`}
+      actions={(
+        <div className="flex items-center gap-3 print:hidden">
+          <select value={metric} onChange={e => onMetricChange(e.target.value as EfficiencyMetric)} className={selectClass}>
+            {(Object.keys(EFFICIENCY_METRICS) as EfficiencyMetric[]).map(key => (
+              <option key={key} value={key} className="bg-pivott-dark">{EFFICIENCY_METRICS[key].label}</option>
+            ))}
+          </select>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onUpload(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => fileInput.current?.click()} className={buttonClass} title="Upload spend CSV (Source, Month, Spend, Leads)">
+            <Upload className="w-4 h-4" /> CSV
+          </button>
+          {upload && (
+            <button onClick={onClearUpload} className="p-2 rounded-xl text-white/40 hover:text-pivott-danger hover:bg-white/10" title="Remove uploaded spend">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+    >
+      {uploadIssues.length > 0 && (
+        <ul className="mb-6 space-y-1 text-[12px] font-bold text-pivott-warning">
+          {uploadIssues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+        </ul>
+      )}
+      {hasSpend ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">
+                <th className="py-3 px-4 text-left">Source</th>
+                <th className="py-3 px-4 text-right">Spend</th>
+                <th className="py-3 px-4 text-right">Leads</th>
+                <th className="py-3 px-4 text-right">Won</th>
+                {COLUMNS.map(key => <th key={key} className="py-3 px-4 text-right">{EFFICIENCY_METRICS[key].label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {ranked.map(row => (
+                <tr key={row.source} onClick={() => onSelectSource(row.source)} className="border-t border-white/5 cursor-pointer hover:bg-white/5 transition-colors">
+                  <td className="py-4 px-4">
+                    <span className="flex items-center gap-3 font-black text-pivott-sand uppercase tracking-wider">
+                      <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: sourceColors[row.source] || sourceColors['Other'] }}></span>
+                      {row.source}
+                    </span>
+                  </td>
+                  <td className="py-4 px-4 text-right text-white/70 font-bold">{row.spend === null ? '—' : formatCurrency(row.spend)}</td>
+                  <td className="py-4 px-4 text-right text-white/70 font-bold">{row.leads === null ? '—' : formatNumber(row.leads)}</td>
+                  <td className="py-4 px-4 text-right text-white/70 font-bold">{formatNumber(row.converted)}</td>
+                  {COLUMNS.map(key => cell(row, key))}
+                </tr>
+              ))}
+            </tbody>
+            {total && (
+              <tfoot>
+                <tr className="border-t border-pivott-blue/30 text-[12px] uppercase tracking-wider">
+                  <td className="py-4 px-4 font-black text-pivott-blue">{total.source}</td>
+                  <td className="py-4 px-4 text-right text-white font-black">{formatCurrency(total.spend ?? 0)}</td>
+                  <td className="py-4 px-4 text-right text-white font-black">{total.leads === null ? '—' : formatNumber(total.leads)}</td>
+                  <td className="py-4 px-4 text-right text-white font-black">{formatNumber(total.converted)}</td>
+                  {COLUMNS.map(key => cell(total, key))}
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      ) : owner ? (
+        <p className="text-sm text-white/50 font-medium">
+          Spend is recorded for the whole team, so it is not set against {owner}'s results. Clear the rep filter to see cost per source.
+        </p>
+      ) : (
+        <p className="text-sm text-white/50 font-medium">
+          No spend recorded for this window. Add a spend tab to the workspace or upload a CSV with Source, Month, Spend and (optionally) Leads columns.
+        </p>
+      )}
+    </ChartCard>
+  );
+};
+
+export default MarketingEfficiencyPanel;
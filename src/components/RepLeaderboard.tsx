@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Award } from 'lucide-react';
+import ChartCard from './ChartCard';
+import { OwnerPerformance } from '../types';
+import { OwnerSortKey, sortOwners } from '../owners';
+import { formatCurrency, formatNumber, formatPercent } from '../utils';
+
+const COLUMNS: { key: OwnerSortKey; label: string; format: (o: OwnerPerformance) => string }[] = [
+  { key: 'qualified', label: 'Qualified', format: o => formatNumber(o.qualified) },
+  { key: 'converted', label: 'Won', format: o => formatNumber(o.converted) },
+  { key: 'rate', label: 'Win Rate', format: o => formatPercent(o.rate) },
+  { key: 'revenue', label: 'Revenue', format: o => formatCurrency(o.revenue) },
+  { key: 'avgCycleDays', label: 'Avg Cycle', format: o => (o.avgCycleDays === null ? '—' : `${Math.round(o.avgCycleDays)}d`) },
+];
+
+/**
+ * Sortable per-rep table. Clicking a rep filters the whole dashboard to
+ * them; without `onSelect` (sheet data, which only has per-rep totals) the
+ * table is for reading only.
+ */
+const RepLeaderboard: React.FC<{
+  owners: OwnerPerformance[];
+  selected: string | null;
+  onSelect: ((owner: string | null) => void) | null;
+  estimated: boolean;
+}> = ({ owners, selected, onSelect, estimated }) => {
+  const [sortKey, setSortKey] = useState<OwnerSortKey>('revenue');
+  const [descending, setDescending] = useState(true);
+  const sorted = useMemo(() => sortOwners(owners, sortKey, descending), [owners, sortKey, descending]);
+
+  const sortBy = (key: OwnerSortKey) => {
+    if (key === sortKey) {
+      setDescending(d => !d);
+    } else {
+      setSortKey(key);
+      // Names sort A→Z and cycle time shortest-first; everything else best-first
+      setDescending(key !== 'owner' && key !== 'avgCycleDays');
+    }
+  };
+
+  const SortIcon = descending ? ArrowDown : ArrowUp;
+  const header = (key: OwnerSortKey, label: string, align: string) => (
+    <th key={key} className={`py-3 px-4 ${align}`}>
+      <button onClick={() => sortBy(key)} className={`inline-flex items-center gap-1 uppercase tracking-[0.2em] ${sortKey === key ? 'text-white' : 'hover:text-white'}`}>
+        {label}
+        {sortKey === key && <SortIcon className="w-3 h-3" />}
+      </button>
+    </th>
+  );
+
+  return (
+    <ChartCard
+      title="Rep Leaderboard"
+      subtitle={`${owners.length} ${owners.length === 1 ? 'owner' : 'owners'}${estimated ? ' • pro-rated to window' : ''}${onSelect ? ' • click a rep to filter the dashboard' : ' • totals from the sheet'}`}
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] font-black text-pivott-blue">
+              <th className="py-3 px-4 text-left w-10">#</th>
+              {header('owner', 'Rep', 'text-left')}
+              {COLUMNS.map(c => header(c.key, c.label, 'text-right'))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((o, i) => (
+              <tr
+                key={o.owner}
+                onClick={onSelect ? () => onSelect(selected === o.owner ? null : o.owner) : undefined}
+                className={`border-t border-white/5 transition-colors ${onSelect ? 'cursor-pointer' : ''} ${selected === o.owner ? 'bg-pivott-blue/15' : 'hover:bg-white/5'}`}
+              >
+                <td className="py-4 px-4 text-white/40 font-black">
+                  {i < 3 && sortKey !== 'owner' ? <Award className={`w-4 h-4 ${['text-pivott-sand', 'text-white/70', 'text-pivott-warning/70'][i]}`} /> : i + 1}
+                </td>
+                <td className="py-4 px-4 font-black text-pivott-sand uppercase tracking-wider">{o.owner}</td>
+                {COLUMNS.map(c => (
+                  <td key={c.key} className={`py-4 px-4 text-right ${sortKey === c.key ? 'text-white font-black' : 'text-white/70 font-bold'}`}>{c.format(o)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </ChartCard>
+  );
+};
+
+export default RepLeaderboard;
@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import ChartCard from './ChartCard';
+import { DashboardView } from '../types';
+import {
+  EMPTY_SCENARIO, isNoAdjustment, loadScenarios, NO_ADJUSTMENT, projectScenario, saveScenarios, Scenario,
+  ScenarioAdjustment, ScenarioTotals, upsertScenario
+} from '../scenarios';
+import { formatCurrency, formatNumber, formatPercent } from '../utils';
+
+const inputClass = 'w-20 bg-pivott-navy/60 border border-pivott-blue/20 rounded-xl px-2 py-1.5 text-[12px] font-bold text-white text-right focus:outline-none focus:border-pivott-blue';
+
+// Adjustments are edited in whole percent (or points) and stored as fractions
+const toInput = (value: number) => (value ? String(Math.round(value * 1000) / 10) : '');
+const fromInput = (value: string) => (Number(value) || 0) / 100;
+
+const signedChange = (change: number, format: (value: number) => string) =>
+  `${change >= 0 ? '+' : '−'}${format(Math.abs(change))}`;
+
+const TOTALS: { key: keyof ScenarioTotals; label: string; format: (value: number) => string }[] = [
+  { key: 'revenue', label: 'Revenue', format: formatCurrency },
+  { key: 'converted', label: 'Won Deals', format: v => formatNumber(Math.round(v)) },
+  { key: 'clientLoad', label: 'Client Load', format: v => formatNumber(Math.round(v)) },
+];
+
+const AdjustmentInputs: React.FC<{
+  adjustment: ScenarioAdjustment;
+  onChange: (change: Partial<ScenarioAdjustment>) => void;
+  label: string;
+}> = ({ adjustment, onChange, label }) => (
+  <>
+    <td className="py-3 px-3 text-right">
+      <input type="number" step={5} min={-100} placeholder="0" aria-label={`${label} volume change %`} value={toInput(adjustment.volume)} onChange={e => onChange({ volume: fromInput(e.target.value) })} className={inputClass} />
+    </td>
+    <td className="py-3 px-3 text-right">
+      <input type="number" step={1} placeholder="0" aria-label={`${label} win rate change in points`} value={toInput(adjustment.winRate)} onChange={e => onChange({ winRate: fromInput(e.target.value) })} className={inputClass} />
+    </td>
+    <td className="py-3 px-3 text-right">
+      <input type="number" step={5} min={-100} placeholder="0" aria-label={`${label} deal size change %`} value={toInput(adjustment.dealSize)} onChange={e => onChange({ dealSize: fromInput(e.target.value) })} className={inputClass} />
+    </td>
+  </>
+);
+
+/**
+ * What-if planning: adjust each source's qualified volume, win rate and
+ * deal size (or all of them at once) and see projected revenue, wins and
+ * client load next to the actual figures for the window. Scenarios are
+ * saved in this browser per workspace and compared side by side.
+ */
+const ScenarioPanel: React.FC<{
+  view: DashboardView;
+  workspaceId: string;
+  sourceColors: Record<string, string>;
+}> = ({ view, workspaceId, sourceColors }) => {
+  const [saved, setSaved] = useState<Scenario[]>(() => loadScenarios(workspaceId));
+  const [scenario, setScenario] = useState<Scenario>(EMPTY_SCENARIO);
+
+  useEffect(() => {
+    setSaved(loadScenarios(workspaceId));
+    setScenario(EMPTY_SCENARIO);
+  }, [workspaceId]);
+
+  const projection = useMemo(() => projectScenario(view, scenario), [view, scenario]);
+  const comparisons = useMemo(() => saved.map(s => ({ scenario: s, totals: projectScenario(view, s).projected })), [view, saved]);
+
+  const setAll = (change: Partial<ScenarioAdjustment>) => setScenario(s => ({ ...s, all: { ...s.all, ...change } }));
+  const setSource = (source: string, change: Partial<ScenarioAdjustment>) =>
+    setScenario(s => ({ ...s, sources: { ...s.sources, [source]: { ...(s.sources[source] ?? NO_ADJUSTMENT), ...change } } }));
+
+  const persist = (next: Scenario[]) => {
+    saveScenarios(workspaceId, next);
+    setSaved(next);
+  };
+  const name = scenario.name.trim();
+  const isSaved = saved.some(s => s.name === name);
+  const save = () => {
+    if (name) persist(upsertScenario(saved, { ...scenario, name }));
+  };
+  const remove = () => {
+    persist(saved.filter(s => s.name !== name));
+    setScenario(EMPTY_SCENARIO);
+  };
+  const changed = !isNoAdjustment(scenario.all) || Object.values(scenario.sources).some(a => !isNoAdjustment(a));
+
+  const selectClass = 'bg-pivott-navy/60 border border-pivott-blue/20 rounded-xl px-3 py-2 text-[11px] font-black text-white uppercase tracking-wider focus:outline-none focus:border-pivott-blue cursor-pointer';
+  const buttonClass = 'flex items-center gap-2 px-3 py-2 rounded-xl bg-pivott-blue/20 text-[11px] font-black text-pivott-blue uppercase tracking-wider hover:bg-pivott-blue hover:text-pivott-dark transition-all disabled:opacity-40 disabled:pointer-events-none';
+
+  return (
+    <ChartCard
+      title="Scenario Planner"
+      subtitle={`What-if on this window's sources${view.estimated ? ' • pro-rated to window' : ''}${projection.estimatedDealSize ? ' • deal size from the average deal' : ''}`}
+      actions={(
+        <div className="flex items-center gap-3 print:hidden">
+          <select
+            value={isSaved ? name : ''}
+            onChange={e => setScenario(saved.find(s => s.name === e.target.value) ?? EMPTY_SCENARIO)}
+            className={selectClass}
+          >
+            <option value="" className="bg-pivott-dark">New scenario</option>
+            {saved.map(s => <option key={s.name} value={s.name} className="bg-pivott-dark">{s.name}</option>)}
+          </select>
+          <input
+            type="text"
+            placeholder="Scenario name"
+            value={scenario.name}
+            onChange={e => setScenario(s => ({ ...s, name: e.target.value }))}
+            className="w-40 bg-pivott-navy/60 border border-pivott-blue/20 rounded-xl px-3 py-2 text-[12px] font-bold text-white focus:outline-none focus:border-pivott-blue"
+          />
+          <button onClick={save} disabled={!name} className={buttonClass} title={isSaved ? 'Overwrite the saved scenario' : 'Save scenario'}>
+            <Save className="w-4 h-4" /> Save
+          </button>
+          {isSaved && (
+            <button onClick={remove} className="p-2 rounded-xl text-white/40 hover:text-pivott-danger hover:bg-white/10" title="Delete scenario">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+    >
+      {view.sourceConversions.length ? (
+        <div className="space-y-10">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {TOTALS.map(({ key, label, format }) => {
+              const change = projection.projected[key] - projection.actual[key];
+              return (
+                <div key={key} className="bg-white/5 rounded-2xl p-5 border border-white/5">
+                  <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">{label}</p>
+                  <div className="flex items-baseline gap-3 mt-2">
+                    <span className="text-white/40 font-bold">{format(projection.actual[key])}</span>
+                    <span className="text-pivott-blue/50">→</span>
+                    <span className="text-2xl font-black text-white font-display tracking-tight">{format(projection.projected[key])}</span>
+                  </div>
+                  <p className={`text-[12px] font-black mt-1 ${Math.abs(change) < 0.5 ? 'text-white/30' : change > 0 ? 'text-pivott-success' : 'text-pivott-danger'}`}>
+                    {changed ? signedChange(change, format) : 'actual'}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">
+                  <th className="py-3 px-3 text-left">Source</th>
+                  <th className="py-3 px-3 text-right">Qualified</th>
+                  <th className="py-3 px-3 text-right">Win Rate</th>
+                  <th className="py-3 px-3 text-right">Avg Deal</th>
+                  <th className="py-3 px-3 text-right">Revenue</th>
+                  <th className="py-3 px-3 text-right">Volume %</th>
+                  <th className="py-3 px-3 text-right">Win Rate Pts</th>
+                  <th className="py-3 px-3 text-right">Deal Size %</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-t border-white/5 bg-pivott-blue/5">
+                  <td className="py-3 px-3 font-black text-pivott-blue uppercase tracking-wider" colSpan={5}>All sources</td>
+                  <AdjustmentInputs adjustment={scenario.all} onChange={setAll} label="All sources" />
+                </tr>
+                {projection.sources.map(({ source, actual, projected }) => {
+                  const adjustment = scenario.sources[source] ?? NO_ADJUSTMENT;
+                  return (
+                    <tr key={source} className="border-t border-white/5">
+                      <td className="py-3 px-3">
+                        <span className="flex items-center gap-3 font-black text-pivott-sand uppercase tracking-wider">
+                          <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: sourceColors[source] || sourceColors['Other'] }}></span>
+                          {source}
+                        </span>
+                      </td>
+                      <td className="py-3 px-3 text-right whitespace-nowrap">
+                        <span className="text-white/40">{formatNumber(actual.qualified)}</span>
+                        <span className="mx-1.5 text-pivott-blue/50">→</span>
+                        <span className="text-white font-black">{formatNumber(Math.round(projected.qualified))}</span>
+                      </td>
+                      <td className="py-3 px-3 text-right whitespace-nowrap">
+                        <span className="text-white/40">{formatPercent(actual.rate)}</span>
+                        <span className="mx-1.5 text-pivott-blue/50">→</span>
+                        <span className="text-white font-black">{formatPercent(projected.rate)}</span>
+                      </td>
+                      <td className="py-3 px-3 text-right text-white/70 font-bold whitespace-nowrap">{formatCurrency(projected.avgDeal)}</td>
+                      <td className="py-3 px-3 text-right whitespace-nowrap">
+                        <span className="text-white/40">{formatCurrency(actual.revenue)}</span>
+                        <span className="mx-1.5 text-pivott-blue/50">→</span>
+                        <span className="text-white font-black">{formatCurrency(projected.revenue)}</span>
+                      </td>
+                      <AdjustmentInputs adjustment={adjustment} onChange={change => setSource(source, change)} label={source} />
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {comparisons.length > 0 && (
+            <section className="space-y-3">
+              <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">Saved scenarios • against this window</p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-[10px] font-black text-white/40 uppercase tracking-[0.2em]">
+                      <th className="py-3 px-3 text-left">Scenario</th>
+                      {TOTALS.map(t => <th key={t.key} className="py-3 px-3 text-right">{t.label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-t border-white/5">
+                      <td className="py-3 px-3 font-black text-white/60 uppercase tracking-wider">Actual</td>
+                      {TOTALS.map(t => <td key={t.key} className="py-3 px-3 text-right text-white/60 font-bold">{t.format(projection.actual[t.key])}</td>)}
+                    </tr>
+                    {comparisons.map(({ scenario: s, totals }) => (
+                      <tr
+                        key={s.name}
+                        onClick={() => setScenario(s)}
+                        className={`border-t border-white/5 cursor-pointer hover:bg-white/5 transition-colors ${s.name === name ? 'bg-pivott-blue/10' : ''}`}
+                      >
+                        <td className="py-3 px-3 font-black text-pivott-sand uppercase tracking-wider">{s.name}</td>
+                        {TOTALS.map(t => {
+                          const change = totals[t.key] - projection.actual[t.key];
+                          return (
+                            <td key={t.key} className="py-3 px-3 text-right whitespace-nowrap">
+                              <span className="text-white font-black">{t.format(totals[t.key])}</span>
+                              {Math.abs(change) >= 0.5 && (
+                                <span className={`ml-2 text-[11px] font-black ${change > 0 ? 'text-pivott-success' : 'text-pivott-danger'}`}>{signedChange(change, t.format)}</span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-white/50 font-medium">No sources in this window to plan from.</p>
+      )}
+    </ChartCard>
+  );
+};
+
+export default ScenarioPanel;
@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowRight, ArrowUp, History } from 'lucide-react';
+import ChartCard from './ChartCard';
+import { KPIData, Snapshot, SourceConversion } from '../types';
+import { compareSnapshots, defaultBaseline, listSnapshots, SNAPSHOT_RETENTION } from '../snapshots';
+import { formatCurrency, formatKpiValue, formatNumber, formatPercent, KPI_LABELS } from '../utils';
+
+const formatKpi = (key: keyof KPIData, value: number | null) => (value === null ? '—' : formatKpiValue(key, value));
+
+const formatStamp = (date: Date) =>
+  date.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SourceCell: React.FC<{
+  before: SourceConversion | null;
+  after: SourceConversion | null;
+  field: Exclude<keyof SourceConversion, 'source' | 'currency'>;
+}> = ({ before, after, field }) => {
+  const format = field === 'revenue' ? formatCurrency : field === 'rate' ? formatPercent : formatNumber;
+  const a = before?.[field] ?? 0;
+  const b = after?.[field] ?? 0;
+  const change = b - a;
+  const changeLabel = field === 'rate'
+    ? `${change >= 0 ? '+' : '−'}${Math.abs(Math.round(change * 100))} pts`
+    : `${change >= 0 ? '+' : '−'}${format(Math.abs(change))}`;
+  return (
+    <td className="py-3 px-4 text-right whitespace-nowrap">
+      <span className="text-white/40">{format(a)}</span>
+      <span className="mx-2 text-pivott-blue/50">→</span>
+      <span className="text-white font-black">{format(b)}</span>
+      {Math.abs(change) > 1e-9 && (
+        <span className={`ml-2 text-[11px] font-black ${change > 0 ? 'text-pivott-success' : 'text-pivott-danger'}`}>{changeLabel}</span>
+      )}
+    </td>
+  );
+};
+
+/**
+ * Side-by-side view of two stored syncs for the workspace. `refreshKey`
+ * changes whenever a new snapshot has been saved.
+ */
+const SnapshotComparison: React.FC<{
+  workspaceId: string;
+  refreshKey: number;
+  sourceColors: Record<string, string>;
+}> = ({ workspaceId, refreshKey, sourceColors }) => {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [targetId, setTargetId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSnapshots(workspaceId)
+      .then(list => { if (!cancelled) { setSnapshots(list); setError(null); } })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Could not read snapshot history'); });
+    return () => { cancelled = true; };
+  }, [workspaceId, refreshKey]);
+
+  // Reset the picks when the workspace changes
+  useEffect(() => {
+    setBaseId(null);
+    setTargetId(null);
+  }, [workspaceId]);
+
+  // An explicit pick sticks while it exists; otherwise compare since Monday with the latest sync
+  const target = snapshots.find(s => s.id === targetId) ?? snapshots[0] ?? null;
+  const base = snapshots.find(s => s.id === baseId) ?? defaultBaseline(snapshots);
+
+  const comparison = useMemo(
+    () => (base && target && base.id !== target.id ? compareSnapshots(base, target) : null),
+    [base, target]
+  );
+
+  const selectClass = 'bg-pivott-navy/60 border border-pivott-blue/20 rounded-xl px-3 py-2 text-[11px] font-black text-white uppercase tracking-wider focus:outline-none focus:border-pivott-blue cursor-pointer';
+  const options = snapshots.map(s => (
+    <option key={s.id} value={s.id} className="bg-pivott-dark">{formatStamp(s.takenAt)}</option>
+  ));
+
+  return (
+    <ChartCard
+      title="Snapshot Comparison"
+      subtitle={`${snapshots.length} saved ${snapshots.length === 1 ? 'sync' : 'syncs'} • all-time totals • kept ${SNAPSHOT_RETENTION.keepAllHours}h in full, then daily for ${SNAPSHOT_RETENTION.dailyDays} days, weekly for ${SNAPSHOT_RETENTION.weeklyWeeks} weeks`}
+      actions={snapshots.length > 1 && (
+        <div className="flex items-center gap-3 print:hidden">
+          <select value={base?.id ?? ''} onChange={e => setBaseId(Number(e.target.value))} className={selectClass}>{options}</select>
+          <ArrowRight className="w-4 h-4 text-pivott-blue" />
+          <select value={target?.id ?? ''} onChange={e => setTargetId(Number(e.target.value))} className={selectClass}>{options}</select>
+        </div>
+      )}
+    >
+      {error ? (
+        <p className="text-sm text-pivott-warning font-medium">Snapshot history is unavailable: {error}</p>
+      ) : !comparison || !base || !target ? (
+        <div className="h-full flex flex-col items-center justify-center gap-4 text-center">
+          <History className="w-10 h-10 text-pivott-blue/40" />
+          <p className="text-sm text-white/50 font-medium max-w-sm">
+            {snapshots.length < 2
+              ? 'Each successful sync is saved in this browser. Comparisons appear once there are at least two.'
+              : 'Pick two different syncs to compare.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-10">
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+            {comparison.kpis.map(({ key, before, after, delta }) => {
+              const Icon = delta?.direction === 'up' ? ArrowUp : delta?.direction === 'down' ? ArrowDown : ArrowRight;
+              const tone = delta?.sentiment === 'positive' ? 'text-pivott-success' : delta?.sentiment === 'negative' ? 'text-pivott-danger' : 'text-white/40';
+              return (
+                <div key={key} className="bg-white/5 border border-white/5 rounded-2xl p-4">
+                  <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em] mb-2">{KPI_LABELS[key]}</p>
+                  <p className="text-2xl font-black text-white font-display tracking-tighter">{formatKpi(key, after)}</p>
+                  <p className="text-[11px] font-bold text-white/40 mt-1">was {formatKpi(key, before)}</p>
+                  {delta && (
+                    <p className={`flex items-center gap-1 text-[12px] font-black mt-2 ${tone}`}>
+                      <Icon className="w-3.5 h-3.5" /> {delta.label}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em] text-right">
+                  <th className="py-3 px-4 text-left">Source</th>
+                  <th className="py-3 px-4">Qualified</th>
+                  <th className="py-3 px-4">Won</th>
+                  <th className="py-3 px-4">Win Rate</th>
+                  <th className="py-3 px-4">Revenue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.sources.map(({ source, before, after }) => (
+                  <tr key={source} className="border-t border-white/5 text-white/70">
+                    <td className="py-3 px-4">
+                      <span className="flex items-center gap-3 font-black text-pivott-sand uppercase tracking-wider">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: sourceColors[source] || sourceColors['Other'] }}></span>
+                        {source}
+                        {!before && <span className="text-[9px] bg-pivott-success/20 text-pivott-success px-2 py-0.5 rounded-full">New</span>}
+                        {!after && <span className="text-[9px] bg-pivott-danger/20 text-pivott-danger px-2 py-0.5 rounded-full">Gone</span>}
+                      </span>
+                    </td>
+                    <SourceCell before={before} after={after} field="qualified" />
+                    <SourceCell before={before} after={after} field="converted" />
+                    <SourceCell before={before} after={after} field="rate" />
+                    <SourceCell before={before} after={after} field="revenue" />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </ChartCard>
+  );
+};
+
+export default SnapshotComparison;
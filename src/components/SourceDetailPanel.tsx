@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { X } from 'lucide-react';
+import { Snapshot } from '../types';
+import { SourceDetail, sourceSnapshotHistory } from '../sourceDetail';
+import { listSnapshots } from '../snapshots';
+import { formatCompactCurrency, formatCurrency, formatNumber, formatPercent } from '../utils';
+
+// Row-level workspaces can have thousands of opportunities per source
+const MAX_ROWS = 100;
+
+const STATUS_STYLES: Record<string, string> = {
+  won: 'bg-pivott-success/20 text-pivott-success',
+  lost: 'bg-pivott-danger/20 text-pivott-danger',
+  abandoned: 'bg-white/10 text-white/50',
+  open: 'bg-pivott-blue/20 text-pivott-blue',
+};
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-white/5 border border-white/5 rounded-2xl p-4">
+    <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em] mb-2">{label}</p>
+    <p className="text-2xl font-black text-white font-display tracking-tighter">{value}</p>
+  </div>
+);
+
+/**
+ * Slide-over with one source's numbers, history, share of the pipeline and,
+ * for row-level data, the opportunities behind them
+ */
+const SourceDetailPanel: React.FC<{
+  detail: SourceDetail;
+  workspaceId: string;
+  color: string;
+  estimated: boolean;
+  onClose: () => void;
+}> = ({ detail, workspaceId, color, estimated, onClose }) => {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+
+  // Aggregate-only data has no per-month breakdown, so chart the stored syncs instead
+  useEffect(() => {
+    if (detail.monthly) return;
+    let cancelled = false;
+    listSnapshots(workspaceId)
+      .then(list => { if (!cancelled) setSnapshots(list); })
+      .catch(() => { if (!cancelled) setSnapshots([]); });
+    return () => { cancelled = true; };
+  }, [detail.monthly, workspaceId]);
+
+  useEffect(() => {
+    const close = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    document.addEventListener('keydown', close);
+    return () => document.removeEventListener('keydown', close);
+  }, [onClose]);
+
+  const history = detail.monthly ?? sourceSnapshotHistory(snapshots, detail.source);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-pivott-dark/70 backdrop-blur-sm print:hidden" onClick={onClose}>
+      <aside className="h-full w-full max-w-3xl overflow-y-auto bg-pivott-dark border-l border-pivott-blue/20 p-8 md:p-10 space-y-10 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <span className="w-5 h-5 rounded-full" style={{ backgroundColor: color }}></span>
+            <h3 className="text-3xl font-black text-pivott-sand font-display tracking-tight uppercase">{detail.source}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl text-white/50 hover:text-white hover:bg-white/10"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <Stat label="Qualified" value={formatNumber(detail.qualified)} />
+          <Stat label="Won" value={formatNumber(detail.converted)} />
+          <Stat label="Win Rate" value={formatPercent(detail.rate)} />
+          <Stat label="Revenue" value={formatCurrency(detail.revenue)} />
+          <Stat label="Avg Deal" value={detail.avgDeal === null ? '—' : formatCurrency(detail.avgDeal)} />
+        </div>
+        {estimated && (
+          <p className="text-[11px] font-bold text-white/40 uppercase tracking-wider -mt-6">Pro-rated to the selected window</p>
+        )}
+
+        <section className="space-y-4">
+          <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">
+            {detail.monthly ? 'By month' : 'All-time totals at each stored sync'}
+          </p>
+          {history.length ? (
+            <div className="h-[280px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={history} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="6 6" vertical={false} stroke="rgba(255,255,255,0.06)" />
+                  <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 11, fontWeight: 800 }} />
+                  <YAxis yAxisId="count" axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 11, fontWeight: 800 }} allowDecimals={false} />
+                  <YAxis yAxisId="revenue" orientation="right" axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 11, fontWeight: 800 }} tickFormatter={(val) => formatCompactCurrency(val)} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#021526', borderRadius: '1rem', border: '1px solid rgba(110,172,218,0.4)', padding: '12px' }}
+                    formatter={(value, name) => [name === 'Revenue' ? formatCurrency(value as number) : formatNumber(value as number), name]}
+                  />
+                  <Legend iconType="circle" wrapperStyle={{ fontSize: '11px', fontWeight: 900, textTransform: 'uppercase' }} />
+                  <Bar yAxisId="count" dataKey="qualified" name="Qualified" fill="#03346E" radius={[6, 6, 0, 0]} />
+                  <Bar yAxisId="count" dataKey="won" name="Won" fill={color} radius={[6, 6, 0, 0]} />
+                  <Line yAxisId="revenue" type="monotone" dataKey="revenue" name="Revenue" stroke="#E2E2B6" strokeWidth={3} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <p className="text-sm text-white/50 font-medium">
+              {detail.monthly ? 'No activity for this source in the selected window.' : 'History builds up as syncs are stored in this browser.'}
+            </p>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">Share vs other sources</p>
+          {detail.shares.map(share => (
+            <div key={share.source} className={`grid grid-cols-[8rem_1fr_3.5rem] items-center gap-4 ${share.source === detail.source ? '' : 'opacity-50'}`}>
+              <span className="text-[12px] font-black text-white uppercase tracking-wider truncate">{share.source}</span>
+              <div className="space-y-1">
+                <div className="h-2 bg-white/10 rounded-full overflow-hidden" title="Share of qualified pipeline">
+                  <div className="h-full bg-pivott-blue rounded-full" style={{ width: `${share.pipelineShare * 100}%` }}></div>
+                </div>
+                <div className="h-2 bg-white/10 rounded-full overflow-hidden" title="Share of revenue">
+                  <div className="h-full bg-pivott-sand rounded-full" style={{ width: `${share.revenueShare * 100}%` }}></div>
+                </div>
+              </div>
+              <span className="text-[12px] font-black text-white text-right">{formatPercent(share.pipelineShare)}</span>
+            </div>
+          ))}
+          <p className="text-[10px] font-bold text-white/40 uppercase tracking-wider">
+            <span className="text-pivott-blue">■</span> qualified pipeline <span className="ml-3 text-pivott-sand">■</span> revenue
+          </p>
+        </section>
+
+        {detail.monthly && (
+          <section className="space-y-3">
+            <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">
+              Opportunities • {formatNumber(detail.opportunities.length)}
+              {detail.opportunities.length > MAX_ROWS && ` (newest ${MAX_ROWS} shown)`}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-[10px] font-black text-white/40 uppercase tracking-[0.2em] text-left">
+                    <th className="py-2 pr-4">Name</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4 text-right">Value</th>
+                    <th className="py-2 pr-4">Created</th>
+                    <th className="py-2">Closed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.opportunities.slice(0, MAX_ROWS).map(o => (
+                    <tr key={o.id} className="border-t border-white/5 text-white/70">
+                      <td className="py-2 pr-4 font-bold text-white">{o.name || o.id}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`text-[10px] font-black uppercase tracking-wider px-2 py-0.5 rounded-full ${STATUS_STYLES[o.status]}`}>{o.status}</span>
+                      </td>
+                      <td className="py-2 pr-4 text-right">{formatCurrency(o.value)}</td>
+                      <td className="py-2 pr-4">{o.createdAt.toLocaleDateString()}</td>
+                      <td className="py-2">{o.closedAt ? o.closedAt.toLocaleDateString() : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default SourceDetailPanel;
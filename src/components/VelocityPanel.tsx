@@ -0,0 +1,83 @@
+import React from 'react';
+import {
+  CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import ChartCard from './ChartCard';
+import { VelocityData } from '../velocity';
+import { formatCurrency, formatNumber } from '../utils';
+
+const formatDays = (value: number | null) => (value === null ? '—' : `${value < 10 ? value.toFixed(1) : Math.round(value)}d`);
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-white/5 border border-white/5 rounded-2xl p-4">
+    <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em] mb-2">{label}</p>
+    <p className="text-2xl font-black text-white font-display tracking-tighter">{value}</p>
+    {hint && <p className="text-[10px] font-bold text-white/40 uppercase tracking-wider mt-1">{hint}</p>}
+  </div>
+);
+
+/**
+ * Sales cycle length, time spent in each stage and pipeline velocity.
+ * Only shown for row-level data.
+ */
+const VelocityPanel: React.FC<{ velocity: VelocityData }> = ({ velocity }) => {
+  const { daysToClose, daysToQualify, stageTimes, cycleTrend } = velocity;
+  const longest = Math.max(0, ...stageTimes.map(s => s.median ?? 0));
+
+  return (
+    <ChartCard title="Sales Velocity" subtitle="Cycle length and time-in-stage for deals closed in the window">
+      <div className="space-y-8">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Days to Close" value={formatDays(daysToClose.median)} hint={`median • avg ${formatDays(daysToClose.avg)}`} />
+          <Stat label="Days to Qualify" value={formatDays(daysToQualify.median)} hint={`median • ${formatNumber(daysToQualify.count)} deals`} />
+          <Stat label="Pipeline Velocity" value={velocity.pipelineVelocity === null ? '—' : `${formatCurrency(velocity.pipelineVelocity)}/d`} hint="expected revenue per day" />
+          <Stat label="Open Deals" value={formatNumber(velocity.openDeals)} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <section className="space-y-3">
+            <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">Time in stage (median)</p>
+            {stageTimes.map(stage => (
+              <div key={stage.stageId} className="grid grid-cols-[8rem_1fr_3.5rem_3rem] items-center gap-4">
+                <span className="text-[12px] font-black text-white uppercase tracking-wider truncate" title={stage.name}>{stage.name}</span>
+                <div className="h-2 bg-white/10 rounded-full overflow-hidden" title={`avg ${formatDays(stage.avg)} over ${stage.count} moves`}>
+                  <div className="h-full bg-pivott-blue rounded-full" style={{ width: `${longest ? ((stage.median ?? 0) / longest) * 100 : 0}%` }}></div>
+                </div>
+                <span className="text-[12px] font-black text-white text-right">{formatDays(stage.median)}</span>
+                <span className="text-[11px] font-bold text-white/40 text-right" title="Open deals in this stage now">{formatNumber(stage.current)}</span>
+              </div>
+            ))}
+            <p className="text-[10px] font-bold text-white/40 uppercase tracking-wider">
+              Right column: open deals in the stage now. Stage times build up from stage changes seen by this browser.
+            </p>
+          </section>
+
+          <section className="space-y-3">
+            <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">Cycle length by close month</p>
+            {cycleTrend.length ? (
+              <div className="h-[220px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={cycleTrend} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="6 6" vertical={false} stroke="rgba(255,255,255,0.06)" />
+                    <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 11, fontWeight: 800 }} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fill: '#E2E2B6', fontSize: 11, fontWeight: 800 }} tickFormatter={(val) => `${val}d`} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#021526', borderRadius: '1rem', border: '1px solid rgba(110,172,218,0.4)', padding: '12px' }}
+                      formatter={(value, name) => [formatDays(value as number), name]}
+                    />
+                    <Line type="monotone" dataKey="medianDays" name="Median" stroke="#6EACDA" strokeWidth={3} dot={false} />
+                    <Line type="monotone" dataKey="avgDays" name="Average" stroke="#E2E2B6" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-sm text-white/50 font-medium">No deals were won in the selected window.</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </ChartCard>
+  );
+};
+
+export default VelocityPanel;
@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Code, LayoutGrid, Link, PencilRuler, Save, Trash2 } from 'lucide-react';
+import { SavedView } from '../types';
+import { embedUrl } from '../layout';
+
+/**
+ * Header menu for picking, saving and sharing dashboard layouts
+ */
+const ViewMenu: React.FC<{
+  views: SavedView[];
+  // Views saved in this browser, which can be deleted; presets cannot
+  deletable: string[];
+  active: string | null;
+  onApply: (view: SavedView | null) => void;
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+  onCustomize: () => void;
+}> = ({ views, deletable, active, onApply, onSave, onDelete, onCustomize }) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState<'link' | 'embed' | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  useEffect(() => {
+    if (open) setName(active ?? '');
+  }, [open, active]);
+
+  const copy = async (kind: 'link' | 'embed') => {
+    try {
+      await navigator.clipboard.writeText(kind === 'link' ? window.location.href : embedUrl());
+      setCopied(kind);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error('Could not copy link', err);
+    }
+  };
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setOpen(false);
+  };
+
+  const itemClass = 'w-full flex items-center gap-3 px-4 py-3 rounded-xl text-left text-[12px] font-black uppercase tracking-wider text-white/70 hover:text-white hover:bg-white/10 transition-all';
+
+  return (
+    <div ref={ref} className="relative print:hidden">
+      <button
+        onClick={() => setOpen(o => !o)}
+        title={active ? `View: ${active}` : 'Views'}
+        className="p-3.5 bg-pivott-blue/10 border border-pivott-blue/30 rounded-2xl hover:bg-pivott-blue hover:text-pivott-dark transition-all duration-500 active:scale-90 shadow-2xl"
+      >
+        <LayoutGrid className="w-6 h-6" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-3 w-80 p-2 bg-pivott-navy/95 border border-pivott-blue/30 rounded-2xl z-50 shadow-2xl backdrop-blur-xl">
+          <p className="px-4 pt-2 pb-1 text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">Views</p>
+          <button onClick={() => { onApply(null); setOpen(false); }} className={itemClass}>
+            <Check className={`w-4 h-4 ${active === null ? 'text-pivott-success' : 'opacity-0'}`} /> Default
+          </button>
+          {views.map(view => (
+            <div key={view.name} className="flex items-center gap-1">
+              <button onClick={() => { onApply(view); setOpen(false); }} className={itemClass}>
+                <Check className={`w-4 h-4 ${active === view.name ? 'text-pivott-success' : 'opacity-0'}`} /> {view.name}
+              </button>
+              {deletable.includes(view.name) && (
+                <button onClick={() => onDelete(view.name)} title="Delete view" className="p-3 rounded-xl text-white/40 hover:text-pivott-danger hover:bg-white/10">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          <form onSubmit={save} className="flex items-center gap-2 px-2 py-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="View name"
+              className="flex-1 min-w-0 bg-pivott-dark/60 border border-pivott-blue/20 rounded-xl px-3 py-2 text-[12px] font-bold text-white focus:outline-none focus:border-pivott-blue"
+            />
+            <button type="submit" disabled={!name.trim()} title="Save current layout" className="p-2.5 rounded-xl bg-pivott-blue/20 text-pivott-blue hover:bg-pivott-blue hover:text-pivott-dark disabled:opacity-40">
+              <Save className="w-4 h-4" />
+            </button>
+          </form>
+          <div className="h-px bg-white/10 my-2"></div>
+          <button onClick={() => { onCustomize(); setOpen(false); }} className={itemClass}>
+            <PencilRuler className="w-4 h-4 text-pivott-sand" /> Customize layout
+          </button>
+          <button onClick={() => copy('link')} className={itemClass}>
+            <Link className="w-4 h-4 text-pivott-blue" /> {copied === 'link' ? 'Link copied' : 'Copy share link'}
+          </button>
+          <button onClick={() => copy('embed')} className={itemClass}>
+            <Code className="w-4 h-4 text-pivott-blue" /> {copied === 'embed' ? 'Embed link copied' : 'Copy embed link'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ViewMenu;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff, GripVertical, Maximize2, RotateCcw } from 'lucide-react';
+import { LayoutItem, WidgetSize } from '../types';
+import {
+  DEFAULT_LAYOUT, getWidget, moveWidget, nextWidgetSize, updateWidget, WIDGET_SIZE_LABELS
+} from '../layout';
+
+// Literal class names so Tailwind keeps them; everything stacks below lg
+const SIZE_CLASSES: Record<WidgetSize, string> = {
+  sm: 'col-span-12 sm:col-span-6 lg:col-span-4 xl:col-span-2',
+  md: 'col-span-12 lg:col-span-6 xl:col-span-4',
+  lg: 'col-span-12 lg:col-span-6',
+  xl: 'col-span-12',
+};
+
+const toolClass = 'p-2 rounded-lg bg-pivott-navy/90 border border-pivott-blue/30 text-white/70 hover:text-white hover:bg-pivott-blue/30 transition-all';
+
+/**
+ * Lays widgets out in the order and widths of `layout`. Widgets missing
+ * from `widgets` (or null, e.g. rep views without owner data) are skipped.
+ * In edit mode tiles can be dragged, resized and hidden.
+ */
+const WidgetGrid: React.FC<{
+  layout: LayoutItem[];
+  widgets: Record<string, React.ReactNode>;
+  editing: boolean;
+  onChange: (layout: LayoutItem[]) => void;
+  onDone: () => void;
+}> = ({ layout, widgets, editing, onChange, onDone }) => {
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const available = layout.filter(item => widgets[item.id]);
+  const visible = available.filter(item => !item.hidden);
+  const hidden = available.filter(item => item.hidden);
+
+  const drop = (beforeId: string | null) => {
+    if (dragging) onChange(moveWidget(layout, dragging, beforeId));
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="space-y-8">
+      {editing && (
+        <div className="flex flex-wrap items-center justify-between gap-4 rounded-2xl px-6 py-4 border border-pivott-blue/30 bg-pivott-blue/10 print:hidden">
+          <p className="text-[11px] font-black text-pivott-blue uppercase tracking-[0.2em]">
+            Editing layout • drag to reorder, resize or hide widgets
+          </p>
+          <div className="flex items-center gap-3">
+            <button onClick={() => onChange(DEFAULT_LAYOUT)} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 text-[11px] font-black text-white uppercase tracking-wider hover:bg-white/20">
+              <RotateCcw className="w-4 h-4" /> Reset
+            </button>
+            <button onClick={onDone} className="px-4 py-2 rounded-xl bg-pivott-blue text-[11px] font-black text-pivott-dark uppercase tracking-wider hover:scale-105 transition-all">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-12 gap-8 lg:gap-10" onDragOver={e => editing && e.preventDefault()} onDrop={() => drop(null)}>
+        {visible.map(item => (
+          <div
+            key={item.id}
+            draggable={editing}
+            onDragStart={e => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragging(item.id);
+            }}
+            onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+            onDragOver={e => {
+              if (!editing) return;
+              e.preventDefault();
+              setDropTarget(item.id);
+            }}
+            onDrop={e => {
+              e.stopPropagation();
+              drop(item.id);
+            }}
+            className={`${SIZE_CLASSES[item.size]} relative ${editing ? 'cursor-move' : ''} ${dragging === item.id ? 'opacity-40' : ''} ${editing && dropTarget === item.id && dragging !== item.id ? 'ring-2 ring-pivott-blue rounded-[3rem]' : ''}`}
+          >
+            {editing && (
+              <div className="absolute top-4 right-4 z-20 flex items-center gap-2 print:hidden">
+                <span className={toolClass} title="Drag to move"><GripVertical className="w-4 h-4" /></span>
+                <button onClick={() => onChange(updateWidget(layout, item.id, { size: nextWidgetSize(item) }))} className={`${toolClass} flex items-center gap-1.5`} title="Resize">
+                  <Maximize2 className="w-4 h-4" />
+                  <span className="text-[10px] font-black uppercase">{WIDGET_SIZE_LABELS[item.size]}</span>
+                </button>
+                <button onClick={() => onChange(updateWidget(layout, item.id, { hidden: true }))} className={toolClass} title="Hide">
+                  <EyeOff className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            {/* Charts stay interactive outside edit mode only */}
+            <div className={`h-full ${editing ? 'pointer-events-none select-none' : ''}`}>{widgets[item.id]}</div>
+          </div>
+        ))}
+      </div>
+
+      {editing && hidden.length > 0 && (
+        <div className="glass-box rounded-[2rem] p-6 space-y-4 print:hidden">
+          <p className="text-[10px] font-black text-pivott-blue uppercase tracking-[0.2em]">Hidden widgets</p>
+          <div className="flex flex-wrap gap-3">
+            {hidden.map(item => (
+              <button
+                key={item.id}
+                onClick={() => onChange(updateWidget(layout, item.id, { hidden: false }))}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-[11px] font-black text-white/70 uppercase tracking-wider hover:text-white hover:border-pivott-blue/50"
+              >
+                <Eye className="w-4 h-4 text-pivott-blue" /> {getWidget(item.id)?.title ?? item.id}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WidgetGrid;
@@ -0,0 +1,111 @@
+import { Workspace } from './types';
+import { DEFAULT_FORMAT, FormatSettings } from './utils';
+import { getDisplayCurrency } from './currency';
+
+const CONFIG_URL = '/workspaces.json';
+
+export const DEFAULT_LOGO_URL = 'https://pivottai.com/assets/pivott-logo-bQ24Oe-4.png';
+
+export const DEFAULT_SOURCE_COLORS: Record<string, string> = {
+  'LinkedIn': '#0A66C2',
+  'Instantly': '#6366F1',
+  'Calendly': '#006BFF',
+  'Organic': '#10B981',
+  'Other': '#F59E0B'
+};
+
+export const DEFAULT_WORKSPACE: Workspace = {
+  id: 'pivott',
+  name: 'Pivott AI',
+  sheetId: '1zL0ZkcCC4K-PoVwlz_mkNWCR22XfPdM1_7k-rkg32Es',
+  gid: '2004389061',
+  logoUrl: DEFAULT_LOGO_URL,
+  sourceColors: DEFAULT_SOURCE_COLORS,
+};
+
+/**
+ * Builds the gviz JSON endpoint for a workspace's sheet tab
+ */
+export const buildSheetUrl = (workspace: { sheetId: string; gid: string }): string =>
+  `https://docs.google.com/spreadsheets/d/${encodeURIComponent(workspace.sheetId)}/gviz/tq?tqx=out:json&gid=${encodeURIComponent(workspace.gid)}`;
+
+/**
+ * Locale, currency and percentage precision for a workspace's formatters
+ */
+export const getWorkspaceFormat = (workspace: Workspace): FormatSettings => ({
+  locale: workspace.locale ?? DEFAULT_FORMAT.locale,
+  currency: getDisplayCurrency(workspace),
+  percentDecimals: workspace.percentDecimals ?? DEFAULT_FORMAT.percentDecimals,
+});
+
+const isWorkspace = (value: any): value is Workspace => {
+  if (!value || typeof value.id !== 'string' || typeof value.name !== 'string') return false;
+  if (value.provider === 'ghl') return typeof value.ghl?.locationId === 'string';
+  return typeof value.sheetId === 'string' && value.gid !== undefined;
+};
+
+/**
+ * The valid workspaces in a parsed `workspaces.json`, either a bare array
+ * or `{ "workspaces": [...] }`
+ */
+export const parseWorkspaceList = (json: any): Workspace[] => {
+  const list = Array.isArray(json) ? json : json?.workspaces;
+  return Array.isArray(list)
+    ? list.filter(isWorkspace).map(w => (w.gid === undefined ? w : { ...w, gid: String(w.gid) }))
+    : [];
+};
+
+/**
+ * Loads the workspace list from `workspaces.json` (or the file named by
+ * `?config=`). Falls back to the built-in workspace when there is no config.
+ */
+export const loadWorkspaces = async (): Promise<Workspace[]> => {
+  const params = new URLSearchParams(window.location.search);
+  const url = params.get('config') || CONFIG_URL;
+  try {
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (!response.ok) return [DEFAULT_WORKSPACE];
+    const workspaces = parseWorkspaceList(await response.json());
+    if (!workspaces.length) {
+      console.warn(`No valid workspaces in ${url}, using the default workspace`);
+      return [DEFAULT_WORKSPACE];
+    }
+    return workspaces;
+  } catch (error) {
+    console.warn(`Could not load workspace config from ${url}`, error);
+    return [DEFAULT_WORKSPACE];
+  }
+};
+
+/**
+ * Picks the workspace named by `?workspace=`, else the first one. `?sheet=`
+ * and `?gid=` override its data source, which lets a single build be
+ * embedded for a sub-account without a config entry. The override gets an
+ * id of its own, so its cache, goals, snapshots and scenarios never mix
+ * with the configured workspace's.
+ */
+export const resolveWorkspace = (workspaces: Workspace[], search: string = window.location.search): Workspace => {
+  const params = new URLSearchParams(search);
+  const requested = params.get('workspace');
+  const base = workspaces.find(w => w.id === requested) ?? workspaces[0] ?? DEFAULT_WORKSPACE;
+
+  const sheetId = params.get('sheet');
+  const gid = params.get('gid');
+  if (!sheetId && !gid) return base;
+  return {
+    ...base,
+    id: [base.id, sheetId, gid && `gid=${gid}`].filter(Boolean).join(':'),
+    provider: 'sheets',
+    sheetId: sheetId || base.sheetId,
+    gid: gid || base.gid,
+  };
+};
+
+export const writeWorkspaceToUrl = (workspaceId: string): void => {
+  const url = new URL(window.location.href);
+  url.searchParams.set('workspace', workspaceId);
+  // An explicit workspace choice replaces any ad-hoc sheet override
+  url.searchParams.delete('sheet');
+  url.searchParams.delete('gid');
+  window.history.replaceState(window.history.state, '', url.toString());
+};
@@ -0,0 +1,99 @@
+import { DashboardData, DataIssue, ProviderResult, SpendRecord, Workspace } from './types';
+
+const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * The currency every amount on the dashboard is shown in
+ */
+export const getDisplayCurrency = (workspace: Workspace): string =>
+  (workspace.currency ?? DEFAULT_CURRENCY).toUpperCase();
+
+/**
+ * Converts amounts from `currency` (default: the workspace's data
+ * currency) into its display currency. Currencies without a rate are left
+ * as they are and collected in `issues()`.
+ */
+const createConverter = (workspace: Workspace) => {
+  const target = getDisplayCurrency(workspace);
+  const base = (workspace.dataCurrency ?? target).toUpperCase();
+  const rates = Object.fromEntries(
+    Object.entries(workspace.currencyRates ?? {}).map(([code, rate]) => [code.toUpperCase(), rate])
+  );
+  const missing = new Set<string>();
+
+  const convert = (amount: number, currency: string = base): number => {
+    const code = currency.toUpperCase();
+    if (code === target) return amount;
+    const rate = rates[code];
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      missing.add(code);
+      return amount;
+    }
+    return amount * rate;
+  };
+
+  const issues = (): DataIssue[] => [...missing].map(code => ({
+    severity: 'warning',
+    message: `no exchange rate from ${code} to ${target}; those amounts are shown unconverted`,
+  }));
+
+  return { convert, issues, needed: base !== target };
+};
+
+const convertSpendRows = (spend: SpendRecord[], convert: (amount: number, currency?: string) => number): SpendRecord[] =>
+  spend.map(({ currency, ...row }) => ({ ...row, spend: convert(row.spend, currency) }));
+
+/**
+ * Converts every amount into the workspace's display currency. Rows that
+ * name their own currency use it; everything else is taken to be in
+ * `dataCurrency` (or already in the display currency). When revenue rows
+ * carry their own currencies, the Total Revenue KPI becomes the sum of the
+ * converted monthly rows (or source rows if only those do). Amounts in a
+ * currency without a rate are left as they are and reported once as a
+ * warning.
+ */
+export const convertCurrencies = (data: DashboardData, workspace: Workspace): { data: DashboardData; issues: DataIssue[] } => {
+  const { convert, issues, needed } = createConverter(workspace);
+  const hasOwnCurrency = data.revenueTrend.some(r => r.currency)
+    || data.sourceConversions.some(s => s.currency)
+    || data.spend.some(s => s.currency);
+  if (!needed && !hasOwnCurrency) return { data, issues: [] };
+
+  const revenueTrend = data.revenueTrend.map(({ currency, ...row }) => ({ ...row, revenue: convert(row.revenue, currency) }));
+  const sourceConversions = data.sourceConversions.map(({ currency, ...row }) => ({ ...row, revenue: convert(row.revenue, currency) }));
+  // A sheet total over rows in several currencies is not in any one of them, so it is rebuilt from the converted rows
+  const revenueRows = data.revenueTrend.some(r => r.currency)
+    ? revenueTrend
+    : data.sourceConversions.some(s => s.currency) ? sourceConversions : null;
+  const totalRevenue = (total: number) =>
+    revenueRows ? revenueRows.reduce((sum, r) => sum + r.revenue, 0) : convert(total);
+
+  const converted: DashboardData = {
+    ...data,
+    kpis: data.kpis && { ...data.kpis, totalRevenue: totalRevenue(data.kpis.totalRevenue) },
+    revenueTrend,
+    sourceConversions,
+    ownerPerformance: data.ownerPerformance.map(o => ({ ...o, revenue: convert(o.revenue) })),
+    losses: data.losses.map(l => (l.value === undefined ? l : { ...l, value: convert(l.value) })),
+    spend: convertSpendRows(data.spend, convert),
+    opportunities: data.opportunities.map(o => ({ ...o, value: convert(o.value) })),
+  };
+  return { data: converted, issues: issues() };
+};
+
+/**
+ * Converts uploaded spend rows, which never pass through a provider
+ */
+export const convertSpend = (spend: SpendRecord[], workspace: Workspace): { spend: SpendRecord[]; issues: DataIssue[] } => {
+  const { convert, issues } = createConverter(workspace);
+  const converted = convertSpendRows(spend, convert);
+  return { spend: converted, issues: issues() };
+};
+
+/**
+ * Wraps a provider result so its amounts are in the display currency
+ */
+export const withCurrencyConversion = (result: ProviderResult, workspace: Workspace): ProviderResult => {
+  const { data, issues } = convertCurrencies(result.data, workspace);
+  return { data, issues: [...result.issues, ...issues] };
+};
@@ -0,0 +1,61 @@
+const DB_NAME = 'pipeline-dashboard';
+const DB_VERSION = 2;
+
+export const SNAPSHOT_STORE = 'snapshots';
+export const STAGE_HISTORY_STORE = 'stageHistory';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Each store is created on the first upgrade that knows about it
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('workspaceId', 'workspaceId');
+        }
+        if (!db.objectStoreNames.contains(STAGE_HISTORY_STORE)) {
+          db.createObjectStore(STAGE_HISTORY_STORE, { keyPath: 'key' }).createIndex('workspaceId', 'workspaceId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs `run` in a transaction on one store and resolves once the
+ * transaction has committed
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await run(tx.objectStore(storeName));
+  await done;
+  return result;
+};
@@ -0,0 +1,171 @@
+import {
+  DashboardData, DateRange, KPIData, LossRecord, Opportunity, OwnerPerformance, PipelineStage, RevenueTrend, SourceConversion,
+  WeeklyConversation
+} from './types';
+
+// Without a window, the weekly pulse shows this many recent weeks
+const WEEKS_SHOWN = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const UNASSIGNED_OWNER = 'Unassigned';
+export const UNKNOWN_LOSS_REASON = 'No reason given';
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const inWindow = (date: Date | undefined, window: DateRange | null): date is Date =>
+  !!date && (!window || (date >= window.start && date < window.end));
+
+const startOfWeek = (date: Date): Date => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Labels are written so that timeFilter's parsePeriodLabels reads them back
+export const formatMonthLabel = (date: Date): string => `${MONTH_LABELS[date.getMonth()]} ${date.getFullYear()}`;
+export const formatWeekLabel = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const isWon = (o: Opportunity) => o.status === 'won';
+
+const buildRevenueTrend = (won: Opportunity[], now: Date): RevenueTrend[] => {
+  if (!won.length) return [];
+  const totals = new Map<string, number>();
+  won.forEach(o => {
+    const label = formatMonthLabel(o.closedAt!);
+    totals.set(label, (totals.get(label) ?? 0) + o.value);
+  });
+
+  // Fill gaps so the chart shows quiet months as zero rather than skipping them
+  const first = new Date(Math.min(...won.map(o => o.closedAt!.getTime())));
+  const last = new Date(Math.max(...won.map(o => o.closedAt!.getTime()), now.getTime()));
+  const trend: RevenueTrend[] = [];
+  for (let d = new Date(first.getFullYear(), first.getMonth(), 1); d <= last; d.setMonth(d.getMonth() + 1)) {
+    const month = formatMonthLabel(d);
+    trend.push({ month, revenue: totals.get(month) ?? 0 });
+  }
+  return trend;
+};
+
+const buildWeekly = (qualified: Opportunity[], window: DateRange | null, now: Date): WeeklyConversation[] => {
+  const lastWeek = startOfWeek(window ? new Date(window.end.getTime() - 1) : now);
+  const firstWeek = window ? startOfWeek(window.start) : new Date(lastWeek.getFullYear(), lastWeek.getMonth(), lastWeek.getDate() - (WEEKS_SHOWN - 1) * 7);
+
+  const counts = new Map<string, number>();
+  qualified.forEach(o => {
+    const label = formatWeekLabel(startOfWeek(o.createdAt));
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  });
+
+  const weekly: WeeklyConversation[] = [];
+  for (let d = new Date(firstWeek); d <= lastWeek; d.setDate(d.getDate() + 7)) {
+    const week = formatWeekLabel(d);
+    weekly.push({ week, count: counts.get(week) ?? 0 });
+  }
+  return weekly;
+};
+
+const buildSources = (created: Opportunity[], won: Opportunity[]): SourceConversion[] => {
+  const bySource = new Map<string, SourceConversion>();
+  const entry = (source: string) => {
+    if (!bySource.has(source)) bySource.set(source, { source, qualified: 0, converted: 0, rate: 0, revenue: 0 });
+    return bySource.get(source)!;
+  };
+  created.filter(o => o.qualified).forEach(o => { entry(o.source).qualified++; });
+  won.forEach(o => {
+    const s = entry(o.source);
+    s.converted++;
+    s.revenue += o.value;
+  });
+  return [...bySource.values()]
+    .map(s => ({ ...s, rate: s.qualified ? s.converted / s.qualified : 0 }))
+    .sort((a, b) => b.qualified - a.qualified);
+};
+
+// Empty when the data carries no owners at all, so rep views stay hidden
+const buildOwners = (created: Opportunity[], won: Opportunity[]): OwnerPerformance[] => {
+  if (![...created, ...won].some(o => o.owner)) return [];
+  const byOwner = new Map<string, { qualified: number; won: Opportunity[] }>();
+  const entry = (o: Opportunity) => {
+    const owner = o.owner ?? UNASSIGNED_OWNER;
+    if (!byOwner.has(owner)) byOwner.set(owner, { qualified: 0, won: [] });
+    return byOwner.get(owner)!;
+  };
+  created.filter(o => o.qualified).forEach(o => { entry(o).qualified++; });
+  won.forEach(o => { entry(o).won.push(o); });
+
+  return [...byOwner.entries()]
+    .map(([owner, e]) => {
+      const cycles = e.won.map(o => (o.closedAt!.getTime() - o.createdAt.getTime()) / DAY_MS);
+      return {
+        owner,
+        qualified: e.qualified,
+        converted: e.won.length,
+        rate: e.qualified ? e.won.length / e.qualified : 0,
+        revenue: e.won.reduce((sum, o) => sum + o.value, 0),
+        avgCycleDays: cycles.length ? cycles.reduce((a, b) => a + b, 0) / cycles.length : null,
+      };
+    })
+    .sort((a, b) => b.revenue - a.revenue);
+};
+
+// Abandoned opportunities count as disqualified alongside outright losses
+const buildLosses = (lost: Opportunity[]): LossRecord[] => {
+  const byKey = new Map<string, LossRecord>();
+  lost.forEach(o => {
+    const reason = o.lossReason?.trim() || UNKNOWN_LOSS_REASON;
+    const month = formatMonthLabel(o.closedAt!);
+    const key = JSON.stringify([reason, o.source, month]);
+    if (!byKey.has(key)) byKey.set(key, { reason, source: o.source, month, lost: 0, value: 0 });
+    const record = byKey.get(key)!;
+    record.lost++;
+    record.value = (record.value ?? 0) + o.value;
+  });
+  return [...byKey.values()];
+};
+
+/**
+ * Builds the dashboard model from row-level opportunities.
+ *
+ * Volume metrics (opportunities, qualified conversations) count records
+ * created in the window; wins and revenue count records closed-won in the
+ * window. Active client load is a point-in-time figure and ignores it.
+ */
+export const deriveDashboard = (
+  opportunities: Opportunity[],
+  stages: PipelineStage[],
+  window: DateRange | null = null,
+  now: Date = new Date()
+): DashboardData => {
+  const created = opportunities.filter(o => inWindow(o.createdAt, window));
+  const won = opportunities.filter(o => isWon(o) && inWindow(o.closedAt, window));
+  const lost = opportunities.filter(o => (o.status === 'lost' || o.status === 'abandoned') && inWindow(o.closedAt, window));
+  const qualifiedCount = created.filter(o => o.qualified).length;
+  const activeClients = new Set(opportunities.filter(isWon).map(o => o.contactId ?? o.id));
+
+  const kpis: KPIData = {
+    totalOpportunities: created.length,
+    qualifiedConversations: qualifiedCount,
+    convertedClients: won.length,
+    conversionRate: qualifiedCount ? won.length / qualifiedCount : 0,
+    totalRevenue: won.reduce((sum, o) => sum + o.value, 0),
+    activeClientLoad: activeClients.size,
+  };
+
+  const touched = window
+    ? opportunities.filter(o => inWindow(o.createdAt, window) || inWindow(o.closedAt, window))
+    : opportunities;
+
+  return {
+    kpis,
+    revenueTrend: buildRevenueTrend(won, window?.end ?? now),
+    weeklyConversations: buildWeekly(created.filter(o => o.qualified), window, now),
+    sourceConversions: buildSources(created, won),
+    ownerPerformance: buildOwners(created, won),
+    losses: buildLosses(lost),
+    // Spend comes from its own tab, never from the CRM
+    spend: [],
+    opportunities: touched,
+    stages,
+  };
+};
@@ -0,0 +1,173 @@
+import { AlertRule, DashboardData, DataIssue, DateRange, KPIData, Workspace } from './types';
+import { filterDashboardData, getFilterWindow } from './timeFilter';
+import { computeKpiDeltas, KpiDelta } from './kpiTrends';
+import { DEFAULT_ALERT_RULES, evaluateAlerts } from './goals';
+import { buildSourceEfficiency, EFFICIENCY_METRICS, EfficiencyMetric, formatEfficiency, rankSources } from './spend';
+import { formatCurrency, formatKpiValue, formatNumber, KPI_LABELS } from './utils';
+
+// The digest covers the last seven days, like the dashboard's 7D window
+const DIGEST_FILTER = '7D';
+const DIGEST_KPIS: (keyof KPIData)[] = [
+  'totalOpportunities', 'qualifiedConversations', 'convertedClients', 'conversionRate', 'totalRevenue', 'activeClientLoad',
+];
+
+export interface DigestKpi {
+  key: keyof KPIData;
+  label: string;
+  value: number;
+  formatted: string;
+  // Against the previous seven days; null when the history does not reach back that far
+  delta: KpiDelta | null;
+}
+
+export interface DigestSource {
+  source: string;
+  rankedBy: EfficiencyMetric;
+  rankedByLabel: string;
+  value: number | null;
+  formatted: string;
+  qualified: number;
+  converted: number;
+  revenue: number;
+}
+
+export interface DigestChange {
+  sentiment: 'positive' | 'negative' | 'neutral';
+  message: string;
+}
+
+/**
+ * One workspace's weekly summary. Numbers are formatted with the
+ * workspace's locale and currency when the digest is built.
+ */
+export interface Digest {
+  workspaceId: string;
+  workspaceName: string;
+  generatedAt: Date;
+  period: DateRange;
+  // Set when sheet totals were pro-rated to the week
+  estimated: boolean;
+  kpis: DigestKpi[];
+  topSource: DigestSource | null;
+  changes: DigestChange[];
+  dataErrors: number;
+  dataWarnings: number;
+}
+
+/**
+ * What a digest remembers about the data it was built from, so the next
+ * one can report what changed in between
+ */
+export interface DigestBaseline {
+  builtAt: Date;
+  data: Pick<DashboardData, 'kpis' | 'sourceConversions'>;
+}
+
+/**
+ * Changes since the previous digest: alert rules that fired, sources that
+ * appeared, and where the new wins and revenue came from
+ */
+const describeChanges = (
+  rules: AlertRule[],
+  previous: DigestBaseline | null,
+  current: DashboardData,
+  now: Date
+): DigestChange[] => {
+  const changes: DigestChange[] = evaluateAlerts(rules, previous?.data ?? null, current, now).map(alert => ({
+    sentiment: alert.severity,
+    message: alert.message,
+  }));
+  if (!previous) return changes;
+
+  const before = new Map(previous.data.sourceConversions.map(s => [s.source, s]));
+  const gains = current.sourceConversions
+    .map(s => ({ source: s.source, won: s.converted - (before.get(s.source)?.converted ?? 0) }))
+    .filter(s => s.won > 0)
+    .sort((a, b) => b.won - a.won);
+  current.sourceConversions
+    .filter(s => !before.has(s.source))
+    .forEach(s => changes.push({ sentiment: 'neutral', message: `${s.source} is new as a source (${formatNumber(s.qualified)} qualified)` }));
+  if (gains.length) {
+    const [best] = gains;
+    const total = gains.reduce((sum, s) => sum + s.won, 0);
+    changes.push({
+      sentiment: 'positive',
+      message: `${formatNumber(total)} new ${total === 1 ? 'win' : 'wins'} since the last digest, ${formatNumber(best.won)} from ${best.source}`,
+    });
+  }
+
+  const revenueBefore = previous.data.kpis?.totalRevenue;
+  const revenueNow = current.kpis?.totalRevenue;
+  if (revenueBefore !== undefined && revenueNow !== undefined && revenueNow !== revenueBefore) {
+    const added = revenueNow - revenueBefore;
+    changes.push({
+      sentiment: added > 0 ? 'positive' : 'negative',
+      message: `Total revenue ${added > 0 ? 'grew' : 'fell'} by ${formatCurrency(Math.abs(added))} since the last digest`,
+    });
+  }
+  return changes;
+};
+
+/**
+ * Builds the weekly digest from synced data: KPIs for the last seven
+ * days with their change on the seven before, the top source ranked the
+ * way the Market Intelligence panel ranks it, and notable changes since
+ * `previous`. Formatting uses whatever settings are current, so call
+ * setFormatSettings for the workspace first.
+ */
+export const buildDigest = (
+  workspace: Workspace,
+  data: DashboardData,
+  issues: DataIssue[],
+  previous: DigestBaseline | null,
+  now: Date = new Date()
+): Digest => {
+  const period = getFilterWindow(DIGEST_FILTER, now)!;
+  const view = filterDashboardData(data, period, now);
+  const deltas = computeKpiDeltas(data, DIGEST_FILTER, now);
+
+  const kpis: DigestKpi[] = view.kpis
+    ? DIGEST_KPIS.map(key => ({
+        key,
+        label: KPI_LABELS[key],
+        value: view.kpis![key],
+        formatted: formatKpiValue(key, view.kpis![key]),
+        delta: deltas[key] ?? null,
+      }))
+    : [];
+
+  const efficiency = buildSourceEfficiency(view, period);
+  const rankedBy: EfficiencyMetric = efficiency.some(r => r.spend !== null) ? 'roas' : 'rate';
+  const top = rankSources(efficiency, rankedBy)[0];
+  const topSource: DigestSource | null = top
+    ? {
+        source: top.source,
+        rankedBy,
+        rankedByLabel: EFFICIENCY_METRICS[rankedBy].label,
+        value: top[rankedBy],
+        formatted: formatEfficiency(rankedBy, top[rankedBy]),
+        qualified: top.qualified,
+        converted: top.converted,
+        revenue: top.revenue,
+      }
+    : null;
+
+  const rules = workspace.alerts ?? DEFAULT_ALERT_RULES;
+  return {
+    workspaceId: workspace.id,
+    workspaceName: workspace.name,
+    generatedAt: now,
+    period,
+    estimated: view.estimated,
+    kpis,
+    topSource,
+    changes: describeChanges(rules, previous, data, now),
+    dataErrors: issues.filter(i => i.severity === 'error').length,
+    dataWarnings: issues.filter(i => i.severity === 'warning').length,
+  };
+};
+
+export const toDigestBaseline = (data: DashboardData, now: Date = new Date()): DigestBaseline => ({
+  builtAt: now,
+  data: { kpis: data.kpis, sourceConversions: data.sourceConversions },
+});
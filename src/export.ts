@@ -0,0 +1,142 @@
+import { DashboardView, KPIData, TimeFilter } from './types';
+import { buildSourceEfficiency } from './spend';
+import { getFilterWindow } from './timeFilter';
+import { KPI_LABELS } from './utils';
+
+type ExportValue = string | number | null;
+
+export interface ExportDataset {
+  id: 'revenue-trend' | 'weekly-conversations' | 'source-conversions' | 'rep-performance' | 'loss-reasons' | 'source-efficiency'
+    | 'kpis';
+  title: string;
+  headers: string[];
+  rows: ExportValue[][];
+}
+
+export interface ExportContext {
+  workspace: string;
+  timeFilter: TimeFilter;
+  lastUpdated: Date | null;
+  owner: string | null;
+}
+
+/**
+ * The datasets behind the dashboard, as currently filtered. Rep
+ * performance, loss reasons and source efficiency are only included when
+ * the data has them.
+ */
+export const buildExportDatasets = (view: DashboardView, context: ExportContext): ExportDataset[] => {
+  const kpiRows: ExportValue[][] = view.kpis
+    ? (Object.keys(KPI_LABELS) as (keyof KPIData)[]).map(key => [KPI_LABELS[key], view.kpis![key]])
+    : [];
+  kpiRows.push(
+    ['Time Filter', context.timeFilter],
+    ['Rep', context.owner ?? 'All reps'],
+    ['Last Updated', context.lastUpdated ? context.lastUpdated.toISOString() : null],
+    ['Estimated (pro-rated)', view.estimated ? 'yes' : 'no'],
+  );
+
+  const datasets: ExportDataset[] = [
+    {
+      id: 'revenue-trend',
+      title: 'Revenue Trend',
+      headers: ['Month', 'Revenue'],
+      rows: view.revenueTrend.map(r => [r.month, r.revenue]),
+    },
+    {
+      id: 'weekly-conversations',
+      title: 'Weekly Conversations',
+      headers: ['Week', 'Qualified Conversations'],
+      rows: view.weeklyConversations.map(w => [w.week, w.count]),
+    },
+    {
+      id: 'source-conversions',
+      title: 'Source Conversions',
+      headers: ['Source', 'Qualified', 'Converted', 'Win Rate', 'Revenue'],
+      rows: view.sourceConversions.map(s => [s.source, s.qualified, s.converted, s.rate, s.revenue]),
+    },
+  ];
+  if (view.ownerPerformance.length) {
+    datasets.push({
+      id: 'rep-performance',
+      title: 'Rep Performance',
+      headers: ['Rep', 'Qualified', 'Won', 'Win Rate', 'Revenue', 'Avg Cycle Days'],
+      rows: view.ownerPerformance.map(o => [
+        o.owner, o.qualified, o.converted, o.rate, o.revenue, o.avgCycleDays === null ? null : Math.round(o.avgCycleDays * 10) / 10,
+      ]),
+    });
+  }
+  if (view.losses.length) {
+    datasets.push({
+      id: 'loss-reasons',
+      title: 'Loss Reasons',
+      headers: ['Reason', 'Source', 'Month', 'Lost', 'Lost Value'],
+      rows: view.losses.map(l => [l.reason, l.source ?? null, l.month ?? null, l.lost, l.value ?? null]),
+    });
+  }
+  if (view.spend.length) {
+    datasets.push({
+      id: 'source-efficiency',
+      title: 'Source Efficiency',
+      headers: ['Source', 'Spend', 'Leads', 'Qualified', 'Won', 'Revenue', 'Cost per Lead', 'Cost per Qualified', 'CAC', 'ROAS', 'ROI'],
+      rows: buildSourceEfficiency(view, getFilterWindow(context.timeFilter)).map(s => [
+        s.source, s.spend, s.leads, s.qualified, s.converted, s.revenue, s.costPerLead, s.costPerQualified, s.cac, s.roas, s.roi,
+      ]),
+    });
+  }
+  datasets.push({ id: 'kpis', title: 'KPI Snapshot', headers: ['Metric', 'Value'], rows: kpiRows });
+  return datasets;
+};
+
+const escapeCsv = (value: ExportValue): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (dataset: ExportDataset): string =>
+  [dataset.headers, ...dataset.rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const exportFileName = (context: ExportContext, name: string, extension: string): string => {
+  const date = (context.lastUpdated ?? new Date()).toISOString().slice(0, 10);
+  const rep = context.owner ? `${slug(context.owner)}-` : '';
+  return `${slug(context.workspace)}-${rep}${slug(name)}-${slug(context.timeFilter)}-${date}.${extension}`;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (dataset: ExportDataset, context: ExportContext): void => {
+  // Leading BOM so Excel opens the file as UTF-8
+  const blob = new Blob(['﻿', toCsv(dataset)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, exportFileName(context, dataset.title, 'csv'));
+};
+
+/**
+ * Writes every dataset to its own sheet of one workbook. The writer is
+ * loaded on demand so it stays out of the main bundle.
+ */
+export const downloadWorkbook = async (datasets: ExportDataset[], context: ExportContext): Promise<void> => {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const blob = await writeXlsxFile(
+    datasets.map(d => ({
+      sheet: d.title,
+      data: [
+        d.headers.map(h => ({ value: h, fontWeight: 'bold' as const })),
+        ...d.rows.map(row => row.map(value => (value === null ? null : { value }))),
+      ],
+      stickyRowsCount: 1,
+    }))
+  ).toBlob();
+  downloadBlob(blob, exportFileName(context, 'dashboard', 'xlsx'));
+};
@@ -0,0 +1,150 @@
+import { DashboardData } from './types';
+import { parsePeriodLabels } from './timeFilter';
+import { formatMonthLabel } from './derive';
+
+export type ForecastMethod = 'linear' | 'movingAverage' | 'pipeline';
+
+export interface ForecastPoint {
+  month: string;
+  revenue: number;
+  lower: number;
+  upper: number;
+}
+
+export const FORECAST_HORIZON = 3;
+const MOVING_AVERAGE_WINDOW = 3;
+// Two-sided ~95% interval
+const Z = 1.96;
+
+export const FORECAST_METHODS: Record<ForecastMethod, { label: string; description: string }> = {
+  linear: {
+    label: 'Trend',
+    description: 'Least-squares line through monthly revenue, extended forward. The band is the 95% prediction interval, which widens the further out it goes.',
+  },
+  movingAverage: {
+    label: 'Moving Avg',
+    description: `Average of the last ${MOVING_AVERAGE_WINDOW} months carried forward. The band comes from how far past averages missed the following month.`,
+  },
+  pipeline: {
+    label: 'Pipeline',
+    description: 'Open opportunities × historical win rate × average deal size, spread evenly over the forecast months. The band reflects the chance that more or fewer deals close.',
+  },
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const linearForecast = (series: number[], horizon: number) => {
+  const n = series.length;
+  if (n < 3) return null;
+  const xs = series.map((_, i) => i);
+  const xMean = mean(xs);
+  const yMean = mean(series);
+  const sxx = xs.reduce((sum, x) => sum + (x - xMean) ** 2, 0);
+  const slope = xs.reduce((sum, x, i) => sum + (x - xMean) * (series[i] - yMean), 0) / sxx;
+  const intercept = yMean - slope * xMean;
+  const sse = series.reduce((sum, y, i) => sum + (y - (intercept + slope * i)) ** 2, 0);
+  const sigma = Math.sqrt(sse / (n - 2));
+
+  return Array.from({ length: horizon }, (_, h) => {
+    const x = n + h;
+    const value = intercept + slope * x;
+    const spread = Z * sigma * Math.sqrt(1 + 1 / n + (x - xMean) ** 2 / sxx);
+    return { value, spread };
+  });
+};
+
+const movingAverageForecast = (series: number[], horizon: number) => {
+  if (!series.length) return null;
+  const k = Math.min(MOVING_AVERAGE_WINDOW, series.length);
+  const value = mean(series.slice(-k));
+
+  // One-step-ahead errors of the same moving average over the history
+  const errors: number[] = [];
+  for (let i = k; i < series.length; i++) errors.push(series[i] - mean(series.slice(i - k, i)));
+  const sigma = errors.length > 1 ? Math.sqrt(mean(errors.map(e => e * e))) : 0;
+
+  return Array.from({ length: horizon }, (_, h) => ({ value, spread: Z * sigma * Math.sqrt(h + 1) }));
+};
+
+export interface PipelineOutlook {
+  open: number;
+  winRate: number;
+  avgDeal: number;
+}
+
+/**
+ * Open pipeline size with the win rate and average deal it is expected to
+ * close at, from row-level opportunities or else the sheet's KPI totals
+ */
+export const getPipelineOutlook = (data: DashboardData): PipelineOutlook | null => {
+  if (data.opportunities.length) {
+    const won = data.opportunities.filter(o => o.status === 'won');
+    const closed = data.opportunities.filter(o => o.status !== 'open');
+    return {
+      open: data.opportunities.filter(o => o.status === 'open').length,
+      winRate: closed.length ? won.length / closed.length : 0,
+      avgDeal: won.length ? won.reduce((sum, o) => sum + o.value, 0) / won.length : 0,
+    };
+  }
+  // The sheet has no open-pipeline count; qualified conversations not yet won stand in for it
+  const kpis = data.kpis;
+  if (!kpis) return null;
+  return {
+    open: Math.max(0, kpis.qualifiedConversations - kpis.convertedClients),
+    winRate: kpis.conversionRate,
+    avgDeal: kpis.convertedClients ? kpis.totalRevenue / kpis.convertedClients : 0,
+  };
+};
+
+const pipelineForecast = (data: DashboardData, horizon: number) => {
+  const outlook = getPipelineOutlook(data);
+  if (!outlook) return null;
+  const { open, winRate, avgDeal } = outlook;
+  if (!open || !avgDeal) return null;
+
+  const expectedWins = open * winRate;
+  const winsSd = Math.sqrt(open * winRate * (1 - winRate));
+  return Array.from({ length: horizon }, () => ({
+    value: (expectedWins * avgDeal) / horizon,
+    spread: (Z * winsSd * avgDeal) / horizon,
+  }));
+};
+
+const futureMonthLabels = (data: DashboardData, horizon: number, now: Date): string[] => {
+  const labels = data.revenueTrend.map(r => r.month);
+  const last = parsePeriodLabels(labels, 'month', now).filter(Boolean).pop();
+  if (!last) return Array.from({ length: horizon }, (_, h) => `+${h + 1}M`);
+  return Array.from({ length: horizon }, (_, h) =>
+    formatMonthLabel(new Date(last.start.getFullYear(), last.start.getMonth() + h + 1, 1))
+  );
+};
+
+/**
+ * Projects monthly revenue `horizon` months past the last month in
+ * `revenueTrend`. Returns an empty list when the method lacks the data it
+ * needs (e.g. fewer than three months for the trend line).
+ */
+export const forecastRevenue = (
+  data: DashboardData,
+  method: ForecastMethod,
+  horizon: number = FORECAST_HORIZON,
+  now: Date = new Date()
+): ForecastPoint[] => {
+  const series = data.revenueTrend.map(r => r.revenue);
+  const points =
+    method === 'linear' ? linearForecast(series, horizon) :
+    method === 'movingAverage' ? movingAverageForecast(series, horizon) :
+    pipelineForecast(data, horizon);
+  if (!points) return [];
+
+  const months = futureMonthLabels(data, horizon, now);
+  return points.map(({ value, spread }, h) => {
+    const revenue = Math.max(0, Math.round(value));
+    return {
+      month: months[h],
+      revenue,
+      lower: Math.max(0, Math.round(value - spread)),
+      upper: Math.round(value + spread),
+    };
+  });
+};
@@ -0,0 +1,65 @@
+import { DashboardData, FunnelStage, Opportunity, PipelineStage } from './types';
+
+const withRates = (steps: { name: string; count: number; bySource: Record<string, number> }[]): FunnelStage[] =>
+  steps.map((step, i) => {
+    const previous = steps[i - 1];
+    return {
+      ...step,
+      conversion: previous ? (previous.count ? step.count / previous.count : 0) : null,
+      dropOff: previous ? Math.max(0, previous.count - step.count) : 0,
+    };
+  });
+
+/**
+ * Counts how many opportunities reached each stage. An opportunity sitting
+ * in stage N has passed stages 0..N; a won one has passed them all, which
+ * is also counted as a final "Won" step.
+ */
+const fromOpportunities = (opportunities: Opportunity[], stages: PipelineStage[]): FunnelStage[] => {
+  const ordered = [...stages].sort((a, b) => a.position - b.position);
+  const index = new Map(ordered.map((s, i) => [s.id, i]));
+  const reached = (o: Opportunity) => (o.status === 'won' ? ordered.length : index.get(o.stageId) ?? 0);
+
+  const steps = ordered.map((stage, i) => {
+    const bySource: Record<string, number> = {};
+    let count = 0;
+    opportunities.forEach(o => {
+      if (reached(o) < i) return;
+      count++;
+      bySource[o.source] = (bySource[o.source] ?? 0) + 1;
+    });
+    return { name: stage.name, count, bySource };
+  });
+
+  const wonBySource: Record<string, number> = {};
+  const won = opportunities.filter(o => o.status === 'won');
+  won.forEach(o => { wonBySource[o.source] = (wonBySource[o.source] ?? 0) + 1; });
+  steps.push({ name: 'Won', count: won.length, bySource: wonBySource });
+
+  return withRates(steps);
+};
+
+/**
+ * Funnel steps for the current data. Row-level opportunities give a true
+ * stage-by-stage funnel; a sheet with a Stage/Stage Count block gives the
+ * reported totals; otherwise it falls back to the three headline KPIs.
+ */
+export const buildFunnel = (data: DashboardData): FunnelStage[] => {
+  if (data.opportunities.length && data.stages.length) return fromOpportunities(data.opportunities, data.stages);
+
+  if (data.stages.length && data.stages.every(s => s.count !== undefined)) {
+    return withRates(
+      [...data.stages]
+        .sort((a, b) => a.position - b.position)
+        .map(s => ({ name: s.name, count: s.count!, bySource: {} }))
+    );
+  }
+
+  const bySource = (key: 'qualified' | 'converted') =>
+    Object.fromEntries(data.sourceConversions.map(s => [s.source, s[key]]));
+  return withRates([
+    { name: 'Top of Funnel', count: data.kpis?.totalOpportunities ?? 0, bySource: {} },
+    { name: 'Qualified Pipeline', count: data.kpis?.qualifiedConversations ?? 0, bySource: bySource('qualified') },
+    { name: 'Revenue Wins', count: data.kpis?.convertedClients ?? 0, bySource: bySource('converted') },
+  ]);
+};
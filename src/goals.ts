@@ -0,0 +1,154 @@
+import { Alert, AlertRule, DashboardData, DashboardView, DateRange, GoalPeriod, KPIData, KpiGoal, Workspace } from './types';
+import { filterDashboardData } from './timeFilter';
+import { formatKpiValue, formatPercent, KPI_LABELS } from './utils';
+
+const STORAGE_PREFIX = 'pipeline-dashboard:goals:';
+
+export const GOAL_PERIOD_LABELS: Record<GoalPeriod, string> = {
+  month: 'this month',
+  week: 'this week',
+  window: 'selected window',
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'win-rate-drop', type: 'winRateDrop', points: 0.1, minQualified: 5 },
+];
+
+export interface GoalSettings {
+  goals: KpiGoal[];
+  alerts: AlertRule[];
+}
+
+export interface GoalProgress {
+  value: number;
+  target: number;
+  // value / target, not capped at 1
+  ratio: number;
+  // Share of the period already elapsed, to judge pace; null for the window
+  elapsed: number | null;
+  label: string;
+}
+
+/**
+ * Goals and alert rules for a workspace: the ones saved in this browser,
+ * else the workspace config, else no goals and the default alert rules
+ */
+export const loadGoalSettings = (workspace: Workspace): GoalSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + workspace.id);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed?.goals) && Array.isArray(parsed?.alerts)) return parsed;
+    }
+  } catch (error) {
+    console.warn('Could not read saved goals', error);
+  }
+  return { goals: workspace.goals ?? [], alerts: workspace.alerts ?? DEFAULT_ALERT_RULES };
+};
+
+export const saveGoalSettings = (workspaceId: string, settings: GoalSettings): void => {
+  localStorage.setItem(STORAGE_PREFIX + workspaceId, JSON.stringify(settings));
+};
+
+/**
+ * The current calendar month or Monday-based week, or null for the window
+ */
+export const getGoalPeriodRange = (period: GoalPeriod, now: Date = new Date()): DateRange | null => {
+  if (period === 'month') {
+    return { start: new Date(now.getFullYear(), now.getMonth(), 1), end: new Date(now.getFullYear(), now.getMonth() + 1, 1) };
+  }
+  if (period === 'week') {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - ((now.getDay() + 6) % 7));
+    return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7) };
+  }
+  return null;
+};
+
+/**
+ * Progress toward each goal. Month and week goals are measured over the
+ * whole current period (so the sheet's month-to-date row counts in full);
+ * window goals use the figures the dashboard is showing.
+ */
+export const computeGoalProgress = (
+  goals: KpiGoal[],
+  data: DashboardData,
+  view: DashboardView,
+  now: Date = new Date()
+): Partial<Record<keyof KPIData, GoalProgress>> => {
+  const progress: Partial<Record<keyof KPIData, GoalProgress>> = {};
+  goals.forEach(goal => {
+    if (!(goal.target > 0)) return;
+    const range = getGoalPeriodRange(goal.period, now);
+    const kpis = range ? filterDashboardData(data, range, now).kpis : view.kpis;
+    if (!kpis) return;
+    const value = kpis[goal.metric];
+    const elapsed = range
+      ? Math.min(1, (now.getTime() - range.start.getTime()) / (range.end.getTime() - range.start.getTime()))
+      : null;
+    progress[goal.metric] = {
+      value,
+      target: goal.target,
+      ratio: value / goal.target,
+      elapsed,
+      label: `${formatKpiValue(goal.metric, goal.target)} goal ${GOAL_PERIOD_LABELS[goal.period]}`,
+    };
+  });
+  return progress;
+};
+
+const crossed = (rule: Extract<AlertRule, { type: 'threshold' }>, before: number, after: number) =>
+  rule.direction === 'above' ? before <= rule.value && after > rule.value : before >= rule.value && after < rule.value;
+
+/**
+ * Alerts raised by going from the `previous` sync to the `current` one.
+ * Without a previous sync nothing can have crossed, so nothing fires.
+ */
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  previous: Pick<DashboardData, 'kpis' | 'sourceConversions'> | null,
+  current: Pick<DashboardData, 'kpis' | 'sourceConversions'>,
+  now: Date = new Date()
+): Alert[] => {
+  if (!previous) return [];
+  const alerts: Alert[] = [];
+
+  rules.forEach(rule => {
+    if (rule.type === 'threshold') {
+      const before = previous.kpis?.[rule.metric];
+      const after = current.kpis?.[rule.metric];
+      if (before === undefined || after === undefined || !crossed(rule, before, after)) return;
+      alerts.push({
+        id: `${rule.id}:${now.getTime()}`,
+        ruleId: rule.id,
+        severity: rule.direction === 'above' ? 'positive' : 'negative',
+        message: `${KPI_LABELS[rule.metric]} went ${rule.direction} ${formatKpiValue(rule.metric, rule.value)} (now ${formatKpiValue(rule.metric, after)})`,
+        raisedAt: now,
+      });
+      return;
+    }
+
+    const beforeBySource = new Map(previous.sourceConversions.map(s => [s.source, s]));
+    current.sourceConversions.forEach(source => {
+      const before = beforeBySource.get(source.source);
+      if (!before || source.qualified < (rule.minQualified ?? 0)) return;
+      const drop = before.rate - source.rate;
+      if (drop < rule.points) return;
+      alerts.push({
+        id: `${rule.id}:${source.source}:${now.getTime()}`,
+        ruleId: rule.id,
+        severity: 'negative',
+        message: `${source.source} win rate fell from ${formatPercent(before.rate)} to ${formatPercent(source.rate)}`,
+        raisedAt: now,
+      });
+    });
+  });
+  return alerts;
+};
+
+/**
+ * Mirrors alerts as browser notifications when the user has allowed them
+ */
+export const showBrowserNotifications = (alerts: Alert[], workspaceName: string): void => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  alerts.forEach(alert => new Notification(`${workspaceName} pipeline alert`, { body: alert.message, tag: alert.id }));
+};
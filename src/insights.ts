@@ -0,0 +1,288 @@
+import { DashboardData, DateRange, KPIData, Snapshot, SourceConversion, TimeFilter } from './types';
+import { filterDashboardData, getFilterWindow, parsePeriodLabels } from './timeFilter';
+import { compareKpiPeriods, getComparisonWindows, KPI_TRENDS } from './kpiTrends';
+import { EFFICIENCY_METRICS, EfficiencyMetric, formatEfficiency, rankSources, SourceEfficiency } from './spend';
+import { formatCurrency, formatKpiValue, formatNumber, formatPercent, KPI_LABELS } from './utils';
+
+// A KPI or source has moved when it changed by this much (relative, or in points for rates)
+const MOVER_THRESHOLD = 0.15;
+const RATE_THRESHOLD = 0.05;
+// Sources with fewer qualified conversations than this are too small to judge
+const MIN_QUALIFIED = 5;
+// One source earning this share of revenue is a concentration risk
+const CONCENTRATION_THRESHOLD = 0.5;
+// A week is unusually quiet below this share of the median week
+const LOW_ACTIVITY_RATIO = 0.5;
+const BASELINE_WEEKS = 12;
+const MIN_BASELINE_WEEKS = 4;
+// Risks outrank good news of the same size
+const NEGATIVE_WEIGHT = 1.5;
+
+export type InsightKind = 'topSource' | 'kpiMover' | 'sourceMover' | 'winRateDrop' | 'concentration' | 'lowActivity';
+
+export interface InsightFigure {
+  label: string;
+  value: string;
+}
+
+/**
+ * One observation about the data, with the numbers behind it. `score` is
+ * how far past its rule's threshold it is, so unrelated observations can
+ * be ranked together.
+ */
+export interface Insight {
+  id: string;
+  kind: InsightKind;
+  sentiment: 'positive' | 'negative' | 'neutral';
+  score: number;
+  title: string;
+  detail: string;
+  figures: InsightFigure[];
+  // The source it is about, for drilling down
+  source?: string;
+}
+
+export interface InsightInput {
+  // The synced data (after any rep filter), not yet windowed
+  data: DashboardData;
+  filter: TimeFilter;
+  efficiency: SourceEfficiency[];
+  rankedBy: EfficiencyMetric;
+  // An earlier sync, for sheets that only hold all-time source totals
+  baseline: Snapshot | null;
+}
+
+const signed = (value: string, change: number) => `${change >= 0 ? '+' : '−'}${value}`;
+const points = (change: number) => `${signed(String(Math.abs(Math.round(change * 100))), change)} pts`;
+const weight = (sentiment: Insight['sentiment'], magnitude: number) => (sentiment === 'negative' ? magnitude * NEGATIVE_WEIGHT : magnitude);
+
+const topSourceInsight = (efficiency: SourceEfficiency[], rankedBy: EfficiencyMetric): Insight | null => {
+  const ranked = rankSources(efficiency, rankedBy).filter(r => r[rankedBy] !== null && r.qualified > 0);
+  const [top, runnerUp] = ranked;
+  if (!top) return null;
+  const label = EFFICIENCY_METRICS[rankedBy].label;
+  return {
+    id: `top-source:${top.source}`,
+    kind: 'topSource',
+    sentiment: 'positive',
+    // Always shown, below anything that crossed a threshold
+    score: 1,
+    title: `${top.source} leads on ${label}`,
+    detail: runnerUp
+      ? `${top.source} has the best ${label} of ${ranked.length} sources, ahead of ${runnerUp.source} at ${formatEfficiency(rankedBy, runnerUp[rankedBy])}.`
+      : `${top.source} is the only source with a ${label} in this window.`,
+    figures: [
+      { label, value: formatEfficiency(rankedBy, top[rankedBy]) },
+      { label: 'Qualified', value: formatNumber(top.qualified) },
+      { label: 'Won', value: formatNumber(top.converted) },
+      { label: 'Revenue', value: formatCurrency(top.revenue) },
+    ],
+    source: top.source,
+  };
+};
+
+/**
+ * KPIs that moved by at least MOVER_THRESHOLD (or RATE_THRESHOLD points)
+ * against the previous equivalent period
+ */
+const kpiMovers = (data: DashboardData, filter: TimeFilter, now: Date): Insight[] => {
+  const comparisons = compareKpiPeriods(data, filter, now);
+  return (Object.keys(comparisons) as (keyof KPIData)[]).flatMap(key => {
+    const { current, previous, delta } = comparisons[key]!;
+    const byPoints = KPI_TRENDS[key]?.unit === 'points';
+    const change = byPoints ? current - previous : (current - previous) / Math.abs(previous);
+    const threshold = byPoints ? RATE_THRESHOLD : MOVER_THRESHOLD;
+    if (Math.abs(change) < threshold) return [];
+    const sentiment = delta.sentiment;
+    return [{
+      id: `kpi:${key}`,
+      kind: 'kpiMover' as const,
+      sentiment,
+      score: weight(sentiment, Math.abs(change) / threshold),
+      title: `${KPI_LABELS[key]} ${change > 0 ? 'up' : 'down'} ${delta.label.replace(/^[+−]/, '')}`,
+      detail: `${KPI_LABELS[key]} went from ${formatKpiValue(key, previous)} to ${formatKpiValue(key, current)} ${delta.basis}.`,
+      figures: [
+        { label: 'Now', value: formatKpiValue(key, current) },
+        { label: 'Before', value: formatKpiValue(key, previous) },
+        { label: 'Change', value: delta.label },
+      ],
+    }];
+  });
+};
+
+const bySource = (rows: SourceConversion[]) => new Map(rows.map(s => [s.source, s]));
+
+const winRateDrop = (source: string, before: SourceConversion, after: SourceConversion, basis: string): Insight | null => {
+  if (before.qualified < MIN_QUALIFIED || after.qualified < MIN_QUALIFIED) return null;
+  const drop = before.rate - after.rate;
+  if (drop < RATE_THRESHOLD) return null;
+  return {
+    id: `win-rate:${source}`,
+    kind: 'winRateDrop',
+    sentiment: 'negative',
+    score: weight('negative', drop / RATE_THRESHOLD),
+    title: `${source} win rate falling`,
+    detail: `${source} converted ${formatPercent(after.rate)} of qualified conversations, down from ${formatPercent(before.rate)} ${basis}.`,
+    figures: [
+      { label: 'Win rate', value: formatPercent(after.rate) },
+      { label: 'Before', value: formatPercent(before.rate) },
+      { label: 'Change', value: points(-drop) },
+      { label: 'Qualified', value: formatNumber(after.qualified) },
+    ],
+    source,
+  };
+};
+
+/**
+ * Per-source changes. Row-level data compares the window with the one
+ * before it; sheets only hold all-time source totals, so they compare
+ * against an earlier sync instead and only win rates are judged.
+ */
+const sourceChanges = (data: DashboardData, filter: TimeFilter, baseline: Snapshot | null, now: Date): Insight[] => {
+  if (!data.opportunities.length) {
+    if (!baseline) return [];
+    const before = bySource(baseline.data.sourceConversions);
+    const basis = `since ${baseline.takenAt.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}`;
+    return data.sourceConversions.flatMap(s => {
+      const prior = before.get(s.source);
+      const insight = prior && winRateDrop(s.source, prior, s, basis);
+      return insight ? [insight] : [];
+    });
+  }
+
+  const windows = getComparisonWindows(filter, data, now);
+  if (!windows) return [];
+  const current = filterDashboardData(data, windows.current, now).sourceConversions;
+  const before = bySource(filterDashboardData(data, windows.previous, now).sourceConversions);
+  const insights: Insight[] = [];
+
+  current.forEach(s => {
+    const prior = before.get(s.source);
+    if (!prior) return;
+    const drop = winRateDrop(s.source, prior, s, windows.basis);
+    if (drop) insights.push(drop);
+  });
+
+  const movers = current
+    .map(s => ({ source: s.source, now: s.qualified, before: before.get(s.source)?.qualified ?? 0 }))
+    .filter(m => Math.max(m.now, m.before) >= MIN_QUALIFIED && m.before > 0)
+    .map(m => ({ ...m, change: (m.now - m.before) / m.before }))
+    .filter(m => Math.abs(m.change) >= MOVER_THRESHOLD)
+    .sort((a, b) => Math.abs(b.now - b.before) - Math.abs(a.now - a.before));
+  // The biggest gain and the biggest fall, rather than every source that moved
+  [movers.find(m => m.change > 0), movers.find(m => m.change < 0)].forEach(m => {
+    if (!m) return;
+    const sentiment = m.change > 0 ? 'positive' : 'negative';
+    insights.push({
+      id: `source-mover:${m.source}`,
+      kind: 'sourceMover',
+      sentiment,
+      score: weight(sentiment, Math.abs(m.change) / MOVER_THRESHOLD),
+      title: `${m.source} ${m.change > 0 ? 'gaining' : 'losing'} volume`,
+      detail: `${m.source} brought ${formatNumber(m.now)} qualified conversations, against ${formatNumber(m.before)} ${windows.basis}.`,
+      figures: [
+        { label: 'Qualified', value: formatNumber(m.now) },
+        { label: 'Before', value: formatNumber(m.before) },
+        { label: 'Change', value: signed(formatPercent(Math.abs(m.change), 0), m.change) },
+      ],
+      source: m.source,
+    });
+  });
+  return insights;
+};
+
+/**
+ * Flags one source earning at least CONCENTRATION_THRESHOLD of the
+ * window's revenue (or of its wins, when revenue is not attributed)
+ */
+const concentration = (sources: SourceConversion[]): Insight | null => {
+  const byRevenue = sources.some(s => s.revenue > 0);
+  const value = (s: SourceConversion) => (byRevenue ? s.revenue : s.converted);
+  const total = sources.reduce((sum, s) => sum + value(s), 0);
+  const earning = sources.filter(s => value(s) > 0).sort((a, b) => value(b) - value(a));
+  if (!total || earning.length < 2) return null;
+  const [top, next] = earning;
+  const share = value(top) / total;
+  if (share < CONCENTRATION_THRESHOLD) return null;
+  const format = byRevenue ? formatCurrency : formatNumber;
+  const what = byRevenue ? 'revenue' : 'wins';
+  return {
+    id: `concentration:${top.source}`,
+    kind: 'concentration',
+    sentiment: 'negative',
+    score: weight('negative', share / CONCENTRATION_THRESHOLD),
+    title: `${formatPercent(share, 0)} of ${what} from ${top.source}`,
+    detail: `${top.source} accounts for ${formatPercent(share)} of ${what} in this window; losing it would leave ${format(total - value(top))} across ${earning.length - 1} other ${earning.length === 2 ? 'source' : 'sources'}.`,
+    figures: [
+      { label: 'Share', value: formatPercent(share) },
+      { label: top.source, value: format(value(top)) },
+      { label: `Next: ${next.source}`, value: format(value(next)) },
+      { label: 'Total', value: format(total) },
+    ],
+    source: top.source,
+  };
+};
+
+/**
+ * Completed weeks in the window with under LOW_ACTIVITY_RATIO of the
+ * median of the preceding weeks' conversations. The median is taken over
+ * up to BASELINE_WEEKS weeks before the most recent quiet week.
+ */
+const lowActivity = (data: DashboardData, window: DateRange | null, now: Date): Insight | null => {
+  const ranges = parsePeriodLabels(data.weeklyConversations.map(w => w.week), 'week', now);
+  // The current week is still filling up
+  const weeks = data.weeklyConversations
+    .map((w, i) => ({ ...w, range: ranges[i] }))
+    .filter((w): w is typeof w & { range: DateRange } => w.range !== null && w.range.end <= now)
+    .sort((a, b) => a.range.start.getTime() - b.range.start.getTime());
+  if (weeks.length <= MIN_BASELINE_WEEKS) return null;
+
+  const median = (counts: number[]) => {
+    const sorted = [...counts].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  };
+  const quiet = weeks.flatMap((w, i) => {
+    if (window && w.range.end <= window.start) return [];
+    const prior = weeks.slice(Math.max(0, i - BASELINE_WEEKS), i).map(p => p.count);
+    if (prior.length < MIN_BASELINE_WEEKS) return [];
+    const typical = median(prior);
+    return typical > 0 && w.count < typical * LOW_ACTIVITY_RATIO ? [{ ...w, typical }] : [];
+  });
+  const latest = quiet[quiet.length - 1];
+  if (!latest) return null;
+  const shortfall = 1 - latest.count / latest.typical;
+  return {
+    id: `low-activity:${latest.week}`,
+    kind: 'lowActivity',
+    sentiment: 'negative',
+    score: weight('negative', shortfall / LOW_ACTIVITY_RATIO),
+    title: quiet.length > 1 ? `${quiet.length} unusually quiet weeks` : `Quiet week of ${latest.week}`,
+    detail: `The week of ${latest.week} had ${formatNumber(latest.count)} conversations, ${formatPercent(shortfall, 0)} below the typical ${formatNumber(Math.round(latest.typical))}${quiet.length > 1 ? `; ${quiet.length - 1} more ${quiet.length === 2 ? 'week was' : 'weeks were'} as quiet in this window` : ''}.`,
+    figures: [
+      { label: 'Conversations', value: formatNumber(latest.count) },
+      { label: 'Typical week', value: formatNumber(Math.round(latest.typical)) },
+      { label: 'Quiet weeks', value: formatNumber(quiet.length) },
+    ],
+  };
+};
+
+/**
+ * Rule-based observations about the data in the selected window, most
+ * important first: the leading source, KPIs and sources that moved
+ * sharply, falling win rates, revenue leaning on one source and unusually
+ * quiet weeks. Text is formatted with the current format settings.
+ */
+export const buildInsights = (input: InsightInput, now: Date = new Date()): Insight[] => {
+  const { data, filter, efficiency, rankedBy, baseline } = input;
+  const window = getFilterWindow(filter, now);
+  const view = filterDashboardData(data, window, now);
+  const insights = [
+    topSourceInsight(efficiency, rankedBy),
+    ...kpiMovers(data, filter, now),
+    ...sourceChanges(data, filter, baseline, now),
+    concentration(view.sourceConversions),
+    lowActivity(data, window, now),
+  ].filter((i): i is Insight => i !== null);
+  return insights.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,177 @@
+import { DashboardData, DateRange, KPIData, TimeFilter } from './types';
+import { filterDashboardData, getFilterWindow, getSeriesStart, parsePeriodLabels, PeriodKind } from './timeFilter';
+import { formatPercent } from './utils';
+
+export type KpiPolarity = 'higher' | 'lower';
+
+export interface KpiTrendConfig {
+  polarity: KpiPolarity;
+  // 'points' reports the absolute change of a ratio (e.g. +2 pts) instead of a relative %
+  unit: 'percent' | 'points';
+  // Sheet series the windowed value is derived from; all must cover the previous period
+  series: PeriodKind[];
+}
+
+export interface KpiDelta {
+  label: string;
+  direction: 'up' | 'down' | 'neutral';
+  sentiment: 'positive' | 'negative' | 'neutral';
+  basis: string;
+}
+
+/**
+ * How each KPI is compared. Metrics the sheet only reports as a current
+ * value, with no history to compare against, are left out.
+ */
+export const KPI_TRENDS: Partial<Record<keyof KPIData, KpiTrendConfig>> = {
+  totalOpportunities: { polarity: 'higher', unit: 'percent', series: ['week'] },
+  qualifiedConversations: { polarity: 'higher', unit: 'percent', series: ['week'] },
+  convertedClients: { polarity: 'higher', unit: 'percent', series: ['month'] },
+  conversionRate: { polarity: 'higher', unit: 'points', series: ['month', 'week'] },
+  totalRevenue: { polarity: 'higher', unit: 'percent', series: ['month'] },
+};
+
+// Changes smaller than this (0.5% or 0.5 pts) render as flat
+const FLAT_THRESHOLD = 0.005;
+
+interface ComparisonWindows {
+  current: DateRange;
+  previous: DateRange;
+  basis: string;
+}
+
+/**
+ * Works out the current period and the previous equivalent one. A rolling
+ * window is compared with the window immediately before it; "All time" has
+ * no equivalent prior period, so it compares the latest month (or week)
+ * with the one before; a month still running is compared with the same
+ * number of days from the start of the previous month. Returns null when
+ * there is nothing to compare.
+ */
+export const getComparisonWindows = (
+  filter: TimeFilter,
+  data: DashboardData,
+  now: Date = new Date()
+): ComparisonWindows | null => {
+  const window = getFilterWindow(filter, now);
+  if (window) {
+    const length = window.end.getTime() - window.start.getTime();
+    const previous = { start: new Date(window.start.getTime() - length), end: window.start };
+    return { current: window, previous, basis: `vs previous ${filter}` };
+  }
+
+  const series: [string[], 'month' | 'week', string][] = [
+    [data.revenueTrend.map(r => r.month), 'month', 'vs prior month'],
+    [data.weeklyConversations.map(w => w.week), 'week', 'vs prior week'],
+  ];
+  for (const [labels, kind, basis] of series) {
+    const ranges = parsePeriodLabels(labels, kind, now).filter((r): r is DateRange => r !== null);
+    if (ranges.length >= 2) {
+      const [previous, current] = ranges.slice(-2);
+      if (current.end <= now) return { current, previous, basis };
+      // The running period is only compared with as much of the one before as has elapsed
+      const elapsed = Math.max(0, now.getTime() - current.start.getTime());
+      return {
+        current: { start: current.start, end: now },
+        previous: { start: previous.start, end: new Date(Math.min(previous.start.getTime() + elapsed, previous.end.getTime())) },
+        basis: `${basis} to date`,
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Labels the change from `previous` to `current` and whether it is an
+ * improvement. Returns null for a relative change from zero.
+ */
+export const describeDelta = (current: number, previous: number, config: KpiTrendConfig, basis: string): KpiDelta | null => {
+  let change: number;
+  let label: string;
+  if (config.unit === 'points') {
+    change = current - previous;
+    label = `${change >= 0 ? '+' : '−'}${Math.abs(Math.round(change * 100))} pts`;
+  } else {
+    if (previous === 0) return null;
+    change = (current - previous) / Math.abs(previous);
+    label = `${change >= 0 ? '+' : '−'}${formatPercent(Math.abs(change), 0)}`;
+  }
+
+  if (Math.abs(change) < FLAT_THRESHOLD) {
+    return { label: config.unit === 'points' ? '0 pts' : '0%', direction: 'neutral', sentiment: 'neutral', basis };
+  }
+  const direction = change > 0 ? 'up' : 'down';
+  const improved = config.polarity === 'higher' ? change > 0 : change < 0;
+  return { label, direction, sentiment: improved ? 'positive' : 'negative', basis };
+};
+
+// Windowed views keep the sheet's conversion rate as-is, so compare the
+// rate implied by each period's own wins and qualified conversations
+const trendValue = (kpis: KPIData, key: keyof KPIData): number =>
+  key === 'conversionRate' && kpis.qualifiedConversations > 0
+    ? kpis.convertedClients / kpis.qualifiedConversations
+    : kpis[key];
+
+export interface KpiComparison {
+  current: number;
+  previous: number;
+  delta: KpiDelta;
+}
+
+/**
+ * Period-over-period values and deltas for every KPI that has history. A
+ * KPI is missing from the result when there is no prior period to compare
+ * with.
+ */
+export const compareKpiPeriods = (
+  data: DashboardData,
+  filter: TimeFilter,
+  now: Date = new Date()
+): Partial<Record<keyof KPIData, KpiComparison>> => {
+  const windows = getComparisonWindows(filter, data, now);
+  if (!windows) return {};
+
+  const current = filterDashboardData(data, windows.current, now).kpis;
+  const previous = filterDashboardData(data, windows.previous, now).kpis;
+  if (!current || !previous) return {};
+
+  // A series without dated labels is stood in for by the other one, as in
+  // filterDashboardData. Row-level data vouches for everything since the first record.
+  const firstCreated = data.opportunities.length
+    ? new Date(Math.min(...data.opportunities.map(o => o.createdAt.getTime())))
+    : null;
+  const monthStart = firstCreated ?? getSeriesStart(data, 'month', now);
+  const weekStart = firstCreated ?? getSeriesStart(data, 'week', now);
+  const starts: Record<PeriodKind, Date | null> = {
+    month: monthStart ?? weekStart,
+    week: weekStart ?? monthStart,
+  };
+
+  const comparisons: Partial<Record<keyof KPIData, KpiComparison>> = {};
+  (Object.keys(KPI_TRENDS) as (keyof KPIData)[]).forEach(key => {
+    const config = KPI_TRENDS[key];
+    if (!config) return;
+    // Hide the badge unless the sheet history reaches back over the whole previous period
+    const covered = config.series.every(kind => {
+      const start = starts[kind];
+      return start !== null && start <= windows.previous.start;
+    });
+    if (!covered) return;
+    const values = { current: trendValue(current, key), previous: trendValue(previous, key) };
+    const delta = describeDelta(values.current, values.previous, config, windows.basis);
+    if (delta) comparisons[key] = { ...values, delta };
+  });
+  return comparisons;
+};
+
+/**
+ * Period-over-period deltas for every KPI that has history
+ */
+export const computeKpiDeltas = (
+  data: DashboardData,
+  filter: TimeFilter,
+  now: Date = new Date()
+): Partial<Record<keyof KPIData, KpiDelta>> => {
+  const comparisons = compareKpiPeriods(data, filter, now);
+  return Object.fromEntries(Object.entries(comparisons).map(([key, c]) => [key, c.delta]));
+};
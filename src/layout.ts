@@ -0,0 +1,207 @@
+import { LayoutItem, SavedView, WidgetSize, Workspace } from './types';
+
+const STORAGE_PREFIX = 'pipeline-dashboard:views:';
+const VIEW_PARAM = 'view';
+const LAYOUT_PARAM = 'layout';
+const EMBED_PARAM = 'embed';
+
+export type WidgetId =
+  | 'kpi-opportunities' | 'kpi-qualified' | 'kpi-closed' | 'kpi-conversion' | 'kpi-revenue' | 'kpi-clients'
+  | 'revenue-trend' | 'weekly-pulse' | 'revenue-distribution' | 'lead-efficiency' | 'loss-reasons'
+  | 'marketing-efficiency' | 'rep-leaderboard' | 'velocity' | 'cohorts' | 'capacity' | 'scenarios' | 'snapshots'
+  | 'market-intelligence' | 'data-quality';
+
+export interface WidgetDefinition {
+  id: WidgetId;
+  title: string;
+  // Widths it can be resized to, narrowest first
+  sizes: WidgetSize[];
+  defaultSize: WidgetSize;
+}
+
+const KPI_SIZES: WidgetSize[] = ['sm', 'md', 'lg'];
+const CHART_SIZES: WidgetSize[] = ['md', 'lg', 'xl'];
+const PANEL_SIZES: WidgetSize[] = ['lg', 'xl'];
+
+/**
+ * Every widget the dashboard can show, in default order
+ */
+export const WIDGETS: WidgetDefinition[] = [
+  { id: 'kpi-opportunities', title: 'Opportunities', sizes: KPI_SIZES, defaultSize: 'sm' },
+  { id: 'kpi-qualified', title: 'Qualified Opps', sizes: KPI_SIZES, defaultSize: 'sm' },
+  { id: 'kpi-closed', title: 'Closed Deals', sizes: KPI_SIZES, defaultSize: 'sm' },
+  { id: 'kpi-conversion', title: 'Conv. Rate', sizes: KPI_SIZES, defaultSize: 'sm' },
+  { id: 'kpi-revenue', title: 'Total Revenue', sizes: KPI_SIZES, defaultSize: 'sm' },
+  { id: 'kpi-clients', title: 'Active Clients', sizes: KPI_SIZES, defaultSize: 'sm' },
+  { id: 'revenue-trend', title: 'Monthly Revenue Momentum', sizes: CHART_SIZES, defaultSize: 'lg' },
+  { id: 'weekly-pulse', title: 'Weekly Activity Pulse', sizes: CHART_SIZES, defaultSize: 'lg' },
+  { id: 'revenue-distribution', title: 'Revenue Distribution', sizes: CHART_SIZES, defaultSize: 'lg' },
+  { id: 'lead-efficiency', title: 'Lead Efficiency Matrix', sizes: CHART_SIZES, defaultSize: 'lg' },
+  { id: 'loss-reasons', title: 'Lost Deal Analysis', sizes: CHART_SIZES, defaultSize: 'lg' },
+  { id: 'marketing-efficiency', title: 'Marketing Efficiency', sizes: PANEL_SIZES, defaultSize: 'xl' },
+  { id: 'rep-leaderboard', title: 'Rep Leaderboard', sizes: PANEL_SIZES, defaultSize: 'xl' },
+  { id: 'velocity', title: 'Sales Velocity', sizes: PANEL_SIZES, defaultSize: 'xl' },
+  { id: 'cohorts', title: 'Lead Cohorts', sizes: PANEL_SIZES, defaultSize: 'xl' },
+  { id: 'capacity', title: 'Client Capacity', sizes: PANEL_SIZES, defaultSize: 'xl' },
+  { id: 'scenarios', title: 'Scenario Planner', sizes: PANEL_SIZES, defaultSize: 'xl' },
+  { id: 'snapshots', title: 'Snapshot Comparison', sizes: PANEL_SIZES, defaultSize: 'xl' },
+  { id: 'market-intelligence', title: 'Market Intelligence', sizes: PANEL_SIZES, defaultSize: 'xl' },
+  { id: 'data-quality', title: 'Data Quality', sizes: PANEL_SIZES, defaultSize: 'xl' },
+];
+
+export const WIDGET_SIZE_LABELS: Record<WidgetSize, string> = {
+  sm: '1/6',
+  md: '1/3',
+  lg: '1/2',
+  xl: 'Full',
+};
+
+const definitions = new Map(WIDGETS.map(w => [w.id as string, w]));
+
+export const getWidget = (id: string): WidgetDefinition | undefined => definitions.get(id);
+
+export const DEFAULT_LAYOUT: LayoutItem[] = WIDGETS.map(w => ({ id: w.id, size: w.defaultSize }));
+
+/**
+ * Drops unknown and repeated widgets, fixes sizes a widget does not
+ * support, and appends widgets added since the layout was saved
+ */
+export const normalizeLayout = (layout: LayoutItem[]): LayoutItem[] => {
+  const seen = new Set<string>();
+  const items: LayoutItem[] = [];
+  layout.forEach(item => {
+    const widget = getWidget(item?.id);
+    if (!widget || seen.has(widget.id)) return;
+    seen.add(widget.id);
+    items.push({
+      id: widget.id,
+      size: widget.sizes.includes(item.size) ? item.size : widget.defaultSize,
+      ...(item.hidden ? { hidden: true } : {}),
+    });
+  });
+  return [...items, ...DEFAULT_LAYOUT.filter(item => !seen.has(item.id))];
+};
+
+/**
+ * Moves widget `id` to just before `beforeId`, or to the end when
+ * `beforeId` is null
+ */
+export const moveWidget = (layout: LayoutItem[], id: string, beforeId: string | null): LayoutItem[] => {
+  const item = layout.find(i => i.id === id);
+  if (!item || id === beforeId) return layout;
+  const rest = layout.filter(i => i.id !== id);
+  const index = beforeId === null ? -1 : rest.findIndex(i => i.id === beforeId);
+  const at = index === -1 ? rest.length : index;
+  return [...rest.slice(0, at), item, ...rest.slice(at)];
+};
+
+/**
+ * The next width the widget supports, wrapping from widest to narrowest
+ */
+export const nextWidgetSize = (item: LayoutItem): WidgetSize => {
+  const sizes = getWidget(item.id)?.sizes ?? [item.size];
+  return sizes[(sizes.indexOf(item.size) + 1) % sizes.length];
+};
+
+export const updateWidget = (layout: LayoutItem[], id: string, change: Partial<Omit<LayoutItem, 'id'>>): LayoutItem[] =>
+  layout.map(item => (item.id === id ? { ...item, ...change } : item));
+
+export const isDefaultLayout = (layout: LayoutItem[]): boolean =>
+  encodeLayout(layout) === encodeLayout(DEFAULT_LAYOUT);
+
+/**
+ * Compact URL form: `kpi-revenue:lg,!weekly-pulse:md,…` with `!` marking
+ * hidden widgets
+ */
+export const encodeLayout = (layout: LayoutItem[]): string =>
+  layout.map(item => `${item.hidden ? '!' : ''}${item.id}:${item.size}`).join(',');
+
+export const decodeLayout = (value: string): LayoutItem[] | null => {
+  const items = value.split(',').flatMap(token => {
+    const match = /^(!?)([a-z-]+):(sm|md|lg|xl)$/.exec(token.trim());
+    return match ? [{ id: match[2], size: match[3] as WidgetSize, hidden: match[1] === '!' }] : [];
+  });
+  return items.length ? normalizeLayout(items) : null;
+};
+
+export interface ViewSettings {
+  // Named views saved in this browser
+  views: SavedView[];
+  // Name of the view the current layout came from, if any
+  active: string | null;
+  layout: LayoutItem[];
+}
+
+/**
+ * Saved views and the last used layout for a workspace. Views from the
+ * workspace config are offered alongside them but are not stored.
+ */
+export const loadViewSettings = (workspace: Workspace): ViewSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + workspace.id);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed?.views) && Array.isArray(parsed?.layout)) {
+        return {
+          views: parsed.views.map((v: SavedView) => ({ name: String(v.name), layout: normalizeLayout(v.layout ?? []) })),
+          active: typeof parsed.active === 'string' ? parsed.active : null,
+          layout: normalizeLayout(parsed.layout),
+        };
+      }
+    }
+  } catch (error) {
+    console.warn('Could not read saved views', error);
+  }
+  const preset = workspace.views?.[0];
+  return { views: [], active: preset?.name ?? null, layout: normalizeLayout(preset?.layout ?? DEFAULT_LAYOUT) };
+};
+
+export const saveViewSettings = (workspaceId: string, settings: ViewSettings): void => {
+  localStorage.setItem(STORAGE_PREFIX + workspaceId, JSON.stringify(settings));
+};
+
+/**
+ * Workspace presets followed by views saved in this browser; a saved view
+ * with a preset's name replaces it
+ */
+export const listViews = (workspace: Workspace | null, settings: ViewSettings): SavedView[] => {
+  const saved = new Set(settings.views.map(v => v.name));
+  const presets = (workspace?.views ?? [])
+    .filter(v => !saved.has(v.name))
+    .map(v => ({ name: v.name, layout: normalizeLayout(v.layout ?? []) }));
+  return [...presets, ...settings.views];
+};
+
+/**
+ * Reads `?view=` and `?layout=` so a shared link opens on the same layout
+ */
+export const readViewFromUrl = (): { name: string | null; layout: LayoutItem[] | null } => {
+  if (typeof window === 'undefined') return { name: null, layout: null };
+  const params = new URLSearchParams(window.location.search);
+  const layout = params.get(LAYOUT_PARAM);
+  return { name: params.get(VIEW_PARAM), layout: layout ? decodeLayout(layout) : null };
+};
+
+export const writeViewToUrl = (name: string | null, layout: LayoutItem[]): void => {
+  const url = new URL(window.location.href);
+  if (name) url.searchParams.set(VIEW_PARAM, name);
+  else url.searchParams.delete(VIEW_PARAM);
+  if (isDefaultLayout(layout)) url.searchParams.delete(LAYOUT_PARAM);
+  else url.searchParams.set(LAYOUT_PARAM, encodeLayout(layout));
+  window.history.replaceState(window.history.state, '', url.toString());
+};
+
+/**
+ * `?embed=1` drops the header and footer, for GHL custom menu iframes
+ */
+export const isEmbedMode = (): boolean =>
+  typeof window !== 'undefined' && ['1', 'true'].includes(new URLSearchParams(window.location.search).get(EMBED_PARAM) ?? '');
+
+/**
+ * The current URL (workspace, filters and layout) with embed mode on
+ */
+export const embedUrl = (): string => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(EMBED_PARAM, '1');
+  return url.toString();
+};
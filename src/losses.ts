@@ -0,0 +1,97 @@
+import { DashboardView, DateRange } from './types';
+import { parsePeriodLabels } from './timeFilter';
+
+// Reasons beyond this many are folded into "Other" in the trend chart
+const TREND_REASONS = 4;
+export const OTHER_REASONS = 'Other reasons';
+
+export interface ReasonTotal {
+  reason: string;
+  lost: number;
+  // Share of all losses in the view
+  share: number;
+  value: number | null;
+}
+
+export interface SourceLossRate {
+  source: string;
+  won: number;
+  lost: number;
+  // Share of closed deals (won + lost) that were lost
+  lossRate: number;
+}
+
+export interface LossTrendPoint {
+  month: string;
+  // Losses per reason in `LossAnalysis.trendReasons`
+  [reason: string]: string | number;
+}
+
+export interface LossAnalysis {
+  totalLost: number;
+  reasons: ReasonTotal[];
+  // Empty when the loss rows carry no source
+  bySource: SourceLossRate[];
+  // Empty when the loss rows carry no month
+  trend: LossTrendPoint[];
+  trendReasons: string[];
+}
+
+/**
+ * Summarises lost and disqualified deals: totals per reason, the loss
+ * rate of each source against its wins, and the most common reasons month
+ * by month. Returns null when the data has no losses.
+ */
+export const buildLossAnalysis = (view: DashboardView, now: Date = new Date()): LossAnalysis | null => {
+  const losses = view.losses;
+  const totalLost = losses.reduce((sum, l) => sum + l.lost, 0);
+  if (!totalLost) return null;
+
+  const byReason = new Map<string, { lost: number; value: number | null }>();
+  losses.forEach(l => {
+    const entry = byReason.get(l.reason) ?? { lost: 0, value: 0 };
+    entry.lost += l.lost;
+    entry.value = entry.value === null || l.value === undefined ? null : entry.value + l.value;
+    byReason.set(l.reason, entry);
+  });
+  const reasons = [...byReason.entries()]
+    .map(([reason, e]) => ({ reason, lost: e.lost, share: e.lost / totalLost, value: e.value }))
+    .sort((a, b) => b.lost - a.lost);
+
+  const lostBySource = new Map<string, number>();
+  losses.forEach(l => {
+    if (l.source) lostBySource.set(l.source, (lostBySource.get(l.source) ?? 0) + l.lost);
+  });
+  const wonBySource = new Map(view.sourceConversions.map(s => [s.source, s.converted]));
+  const bySource = lostBySource.size
+    ? [...new Set([...wonBySource.keys(), ...lostBySource.keys()])]
+      .map(source => {
+        const won = wonBySource.get(source) ?? 0;
+        const lost = lostBySource.get(source) ?? 0;
+        return { source, won, lost, lossRate: won + lost ? lost / (won + lost) : 0 };
+      })
+      .filter(s => s.won + s.lost > 0)
+      .sort((a, b) => b.lossRate - a.lossRate)
+    : [];
+
+  const topReasons = reasons.slice(0, TREND_REASONS).map(r => r.reason);
+  const trendReasons = reasons.length > TREND_REASONS ? [...topReasons, OTHER_REASONS] : topReasons;
+  const dated = losses.filter(l => l.month);
+  const months = [...new Set(dated.map(l => l.month!))];
+  const ranges = parsePeriodLabels(months, 'month', now);
+  const trend = months
+    .map((month, i) => ({ month, range: ranges[i] }))
+    .filter((m): m is { month: string; range: DateRange } => m.range !== null)
+    .sort((a, b) => a.range.start.getTime() - b.range.start.getTime())
+    .map(({ month }) => {
+      const point: LossTrendPoint = { month };
+      trendReasons.forEach(r => { point[r] = 0; });
+      dated.filter(l => l.month === month).forEach(l => {
+        const key = topReasons.includes(l.reason) ? l.reason : OTHER_REASONS;
+        point[key] = (point[key] as number) + l.lost;
+      });
+      return point;
+    });
+
+  return { totalLost, reasons, bySource, trend, trendReasons };
+};
@@ -0,0 +1,54 @@
+import { DashboardData, OwnerPerformance } from './types';
+import { deriveDashboard, UNASSIGNED_OWNER } from './derive';
+
+const URL_PARAM = 'rep';
+
+export type OwnerSortKey = keyof OwnerPerformance;
+
+/**
+ * Distinct owners in row-level data. Empty for aggregate-only sources,
+ * which cannot be filtered by rep.
+ */
+export const listOwners = (data: DashboardData): string[] => {
+  if (!data.opportunities.some(o => o.owner)) return [];
+  return [...new Set(data.opportunities.map(o => o.owner ?? UNASSIGNED_OWNER))].sort((a, b) =>
+    a === UNASSIGNED_OWNER ? 1 : b === UNASSIGNED_OWNER ? -1 : a.localeCompare(b)
+  );
+};
+
+/**
+ * Narrows the data to one owner's opportunities, recounting every KPI and
+ * series from them. Spend is recorded for the whole team, so it is left
+ * out rather than set against one rep's revenue. Aggregate-only data is
+ * returned unchanged.
+ */
+export const filterByOwner = (data: DashboardData, owner: string | null): DashboardData => {
+  if (!owner || !data.opportunities.length) return data;
+  const mine = data.opportunities.filter(o => (o.owner ?? UNASSIGNED_OWNER) === owner);
+  return { ...deriveDashboard(mine, data.stages), spend: [] };
+};
+
+/**
+ * Sorts the leaderboard; reps without a cycle time always sort last
+ */
+export const sortOwners = (owners: OwnerPerformance[], key: OwnerSortKey, descending: boolean): OwnerPerformance[] =>
+  [...owners].sort((a, b) => {
+    const x = a[key];
+    const y = b[key];
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    const order = typeof x === 'string' ? x.localeCompare(y as string) : x - (y as number);
+    return descending ? -order : order;
+  });
+
+/**
+ * Reads `?rep=` so a shared link opens on one rep's numbers
+ */
+export const readOwnerFromUrl = (): string | null =>
+  typeof window === 'undefined' ? null : new URLSearchParams(window.location.search).get(URL_PARAM);
+
+export const writeOwnerToUrl = (owner: string | null): void => {
+  const url = new URL(window.location.href);
+  if (owner) url.searchParams.set(URL_PARAM, owner);
+  else url.searchParams.delete(URL_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+};
@@ -0,0 +1,176 @@
+import { DataIssue, DataProvider, Opportunity, OpportunityStatus, Workspace } from '../types';
+import { deriveDashboard } from '../derive';
+import { FetchError, fetchWithTimeout } from '../sync';
+
+const DEFAULT_PROXY_URL = '/api/ghl';
+const PAGE_LIMIT = 100;
+// Hard stop so a misbehaving API cannot page forever (10k opportunities)
+const MAX_PAGES = 100;
+
+export interface GhlStage {
+  id: string;
+  name: string;
+  position?: number;
+}
+
+export interface GhlPipeline {
+  id: string;
+  name: string;
+  stages: GhlStage[];
+}
+
+export interface GhlOpportunity {
+  id: string;
+  name?: string;
+  monetaryValue?: number | null;
+  pipelineId: string;
+  pipelineStageId: string;
+  status: string;
+  source?: string | null;
+  contactId?: string;
+  contact?: { id?: string };
+  assignedTo?: string | null;
+  lostReasonId?: string | null;
+  createdAt: string;
+  updatedAt?: string;
+  lastStatusChangeAt?: string;
+  lastStageChangeAt?: string;
+}
+
+export interface GhlUser {
+  id: string;
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+interface SearchResponse {
+  opportunities: GhlOpportunity[];
+  meta?: { total?: number; nextPage?: number | null };
+}
+
+const STATUSES: OpportunityStatus[] = ['open', 'won', 'lost', 'abandoned'];
+
+const getJson = async <T>(url: string): Promise<T> => {
+  try {
+    const response = await fetchWithTimeout(url, { headers: { Accept: 'application/json' } });
+    return await response.json();
+  } catch (error) {
+    if (!(error instanceof FetchError)) throw error;
+    throw new FetchError(`GHL ${error.message.charAt(0).toLowerCase()}${error.message.slice(1)}: ${new URL(url, 'http://x').pathname}`, error.status);
+  }
+};
+
+const parseDate = (value: string | undefined): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Converts raw GHL opportunities into the dashboard's row-level model.
+ * An opportunity is qualified once it has reached `qualifiedStage` (by
+ * default the pipeline's second stage) or has been won. Owners are shown
+ * by name when `users` has them, else by user id.
+ */
+export const mapGhlOpportunities = (
+  raw: GhlOpportunity[],
+  pipeline: GhlPipeline,
+  qualifiedStage?: string,
+  users: GhlUser[] = [],
+  lostReasons: Record<string, string> = {}
+): { opportunities: Opportunity[]; issues: DataIssue[]; qualifyingStageIds: string[] } => {
+  const userNames = new Map(users.map(u => [u.id, u.name || [u.firstName, u.lastName].filter(Boolean).join(' ') || u.id]));
+  const issues: DataIssue[] = [];
+  const stages = [...pipeline.stages].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+  const stageIndex = new Map(stages.map((s, i) => [s.id, i]));
+
+  let threshold = Math.min(1, stages.length - 1);
+  if (qualifiedStage) {
+    const idx = stages.findIndex(s => s.name.toLowerCase() === qualifiedStage.toLowerCase());
+    if (idx === -1) {
+      issues.push({ severity: 'warning', message: `stage '${qualifiedStage}' not found in pipeline '${pipeline.name}'` });
+    } else {
+      threshold = idx;
+    }
+  }
+
+  const opportunities: Opportunity[] = [];
+  raw.forEach(o => {
+    const createdAt = parseDate(o.createdAt);
+    if (!createdAt) {
+      issues.push({ severity: 'warning', column: 'createdAt', message: `opportunity ${o.id}: invalid createdAt ${JSON.stringify(o.createdAt)}` });
+      return;
+    }
+    const status = STATUSES.includes(o.status as OpportunityStatus) ? o.status as OpportunityStatus : 'open';
+    const closed = status !== 'open';
+    const stagePosition = stageIndex.get(o.pipelineStageId) ?? -1;
+    const stageEnteredAt = parseDate(o.lastStageChangeAt) ?? createdAt;
+    opportunities.push({
+      id: o.id,
+      name: o.name ?? '',
+      source: o.source?.trim() || 'Other',
+      status,
+      value: typeof o.monetaryValue === 'number' ? o.monetaryValue : 0,
+      pipelineId: o.pipelineId,
+      stageId: o.pipelineStageId,
+      qualified: status === 'won' || stagePosition >= threshold,
+      contactId: o.contactId ?? o.contact?.id,
+      owner: o.assignedTo ? userNames.get(o.assignedTo) ?? o.assignedTo : undefined,
+      lossReason: closed && o.lostReasonId ? lostReasons[o.lostReasonId] ?? o.lostReasonId : undefined,
+      createdAt,
+      closedAt: closed ? parseDate(o.lastStatusChangeAt) ?? parseDate(o.updatedAt) : undefined,
+      // Only exact when it is sitting on the threshold stage itself; stage history fills in the rest
+      qualifiedAt: stagePosition === threshold ? stageEnteredAt : undefined,
+      stageHistory: [{ stageId: o.pipelineStageId, enteredAt: stageEnteredAt }],
+    });
+  });
+  return { opportunities, issues, qualifyingStageIds: stages.slice(Math.max(0, threshold)).map(s => s.id) };
+};
+
+/**
+ * Reads opportunities straight from the GoHighLevel API. Requests go
+ * through a proxy (see server/ghl-proxy.js) that holds the API token, so
+ * the token never reaches the browser.
+ */
+export const createGhlProvider = (workspace: Workspace): DataProvider => ({
+  fetchDashboard: async () => {
+    const config = workspace.ghl;
+    if (!config?.locationId) throw new Error(`Workspace '${workspace.name}' has no GHL location configured`);
+    const base = (config.proxyUrl ?? DEFAULT_PROXY_URL).replace(/\/$/, '');
+    const location = encodeURIComponent(config.locationId);
+
+    const { pipelines } = await getJson<{ pipelines: GhlPipeline[] }>(`${base}/opportunities/pipelines?locationId=${location}`);
+    const pipeline = config.pipelineId ? pipelines?.find(p => p.id === config.pipelineId) : pipelines?.[0];
+    if (!pipeline) {
+      throw new Error(config.pipelineId ? `GHL pipeline '${config.pipelineId}' not found` : 'No GHL pipelines found');
+    }
+
+    const raw: GhlOpportunity[] = [];
+    const issues: DataIssue[] = [];
+    for (let page = 1; ; page++) {
+      if (page > MAX_PAGES) {
+        issues.push({ severity: 'warning', message: `stopped after ${MAX_PAGES * PAGE_LIMIT} opportunities; older records are not included` });
+        break;
+      }
+      const result = await getJson<SearchResponse>(
+        `${base}/opportunities/search?location_id=${location}&pipeline_id=${encodeURIComponent(pipeline.id)}&limit=${PAGE_LIMIT}&page=${page}`
+      );
+      raw.push(...(result.opportunities ?? []));
+      if ((result.opportunities?.length ?? 0) < PAGE_LIMIT || result.meta?.nextPage === null) break;
+    }
+
+    // Names are a nicety; without the users scope, owners show as ids
+    let users: GhlUser[] = [];
+    try {
+      users = (await getJson<{ users: GhlUser[] }>(`${base}/users/?locationId=${location}`)).users ?? [];
+    } catch (error) {
+      issues.push({ severity: 'warning', message: `could not load GHL users, owners are shown by id (${error instanceof Error ? error.message : error})` });
+    }
+
+    const mapped = mapGhlOpportunities(raw, pipeline, config.qualifiedStage, users, config.lostReasons);
+    const qualifying = new Set(mapped.qualifyingStageIds);
+    const stages = pipeline.stages.map((s, i) => ({ id: s.id, name: s.name, position: s.position ?? i, qualifying: qualifying.has(s.id) }));
+    return { data: deriveDashboard(mapped.opportunities, stages), issues: [...issues, ...mapped.issues] };
+  },
+});
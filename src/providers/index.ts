@@ -0,0 +1,46 @@
+import { DataIssue, DataProvider, ProviderResult, SpendRecord, Workspace } from '../types';
+import { createSheetsProvider, fetchSpendTab } from './sheets';
+import { createGhlProvider } from './ghl';
+import { withCurrencyConversion } from '../currency';
+import { validateDashboard } from '../validation';
+import { withSourceAliases } from '../sources';
+
+const createBaseProvider = (workspace: Workspace): DataProvider => {
+  switch (workspace.provider ?? 'sheets') {
+    case 'ghl':
+      return createGhlProvider(workspace);
+    case 'sheets':
+    default:
+      return createSheetsProvider(workspace);
+  }
+};
+
+// A broken spend tab costs the efficiency metrics, not the whole sync
+const loadSpend = async (workspace: Workspace): Promise<{ spend: SpendRecord[]; issues: DataIssue[] }> => {
+  try {
+    return await fetchSpendTab(workspace);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { spend: [], issues: [{ severity: 'warning', message: `spend tab could not be read: ${message}` }] };
+  }
+};
+
+/**
+ * Returns the provider a workspace is configured for (Sheets by default),
+ * with the spend tab attached, the data validated, amounts converted into
+ * the workspace's display currency and source spellings merged
+ */
+export const createProvider = (workspace: Workspace): DataProvider => {
+  const provider = createBaseProvider(workspace);
+  return {
+    fetchDashboard: async () => {
+      const [result, spend] = await Promise.all([provider.fetchDashboard(), loadSpend(workspace)]);
+      const data = { ...result.data, spend: spend.spend };
+      const combined: ProviderResult = {
+        data,
+        issues: [...result.issues, ...spend.issues, ...validateDashboard(data, result.rows)],
+      };
+      return withSourceAliases(withCurrencyConversion(combined, workspace), workspace);
+    },
+  };
+};
@@ -0,0 +1,38 @@
+import { DataIssue, DataProvider, SpendRecord, Workspace } from '../types';
+import { parseGoogleSheetsJSON } from '../utils';
+import { buildSheetUrl } from '../config';
+import { mapDashboardTable, mapSpendTable } from '../schema';
+import { fetchWithTimeout } from '../sync';
+
+/**
+ * Reads the Dashboard_Calculations tab through the Google Visualization API
+ */
+export const createSheetsProvider = (workspace: Workspace): DataProvider => ({
+  fetchDashboard: async () => {
+    const { sheetId, gid } = workspace;
+    if (!sheetId || !gid) throw new Error(`Workspace '${workspace.name}' has no sheet configured`);
+
+    const response = await fetchWithTimeout(buildSheetUrl({ sheetId, gid }));
+    const text = await response.text();
+    const rawData = parseGoogleSheetsJSON(text);
+    const rows = rawData.table?.rows;
+    if (!rows || rows.length === 0) throw new Error('No dataset records found');
+
+    return mapDashboardTable(rawData.table);
+  },
+});
+
+/**
+ * Reads the workspace's spend tab, if it has one. Its issues are labelled
+ * so they are not mistaken for rows of the main tab.
+ */
+export const fetchSpendTab = async (workspace: Workspace): Promise<{ spend: SpendRecord[]; issues: DataIssue[] }> => {
+  if (!workspace.spend) return { spend: [], issues: [] };
+  const sheetId = workspace.spend.sheetId ?? workspace.sheetId;
+  if (!sheetId) throw new Error(`Workspace '${workspace.name}' has no sheet for its spend tab`);
+
+  const response = await fetchWithTimeout(buildSheetUrl({ sheetId, gid: workspace.spend.gid }));
+  const rawData = parseGoogleSheetsJSON(await response.text());
+  const { spend, issues } = mapSpendTable(rawData.table ?? { cols: [], rows: [] });
+  return { spend, issues: issues.map(i => ({ ...i, message: `spend tab: ${i.message}` })) };
+};
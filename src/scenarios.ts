@@ -0,0 +1,155 @@
+import { DashboardView } from './types';
+
+const STORAGE_PREFIX = 'pipeline-dashboard:scenarios:';
+
+/**
+ * A change to one source, or to every source. `volume` and `dealSize`
+ * are relative (0.2 = 20% more); `winRate` is in points (0.05 = +5 pts).
+ */
+export interface ScenarioAdjustment {
+  volume: number;
+  winRate: number;
+  dealSize: number;
+}
+
+export interface Scenario {
+  name: string;
+  // Applies to every source, on top of its own adjustment
+  all: ScenarioAdjustment;
+  // Keyed by source name; sources left out are unchanged
+  sources: Record<string, ScenarioAdjustment>;
+  savedAt?: string;
+}
+
+export const NO_ADJUSTMENT: ScenarioAdjustment = { volume: 0, winRate: 0, dealSize: 0 };
+
+export const EMPTY_SCENARIO: Scenario = { name: '', all: NO_ADJUSTMENT, sources: {} };
+
+export interface SourceFigures {
+  qualified: number;
+  converted: number;
+  rate: number;
+  avgDeal: number;
+  revenue: number;
+}
+
+export interface SourceProjection {
+  source: string;
+  actual: SourceFigures;
+  projected: SourceFigures;
+}
+
+export interface ScenarioTotals {
+  qualified: number;
+  converted: number;
+  revenue: number;
+  clientLoad: number;
+}
+
+export interface ScenarioProjection {
+  sources: SourceProjection[];
+  actual: ScenarioTotals;
+  projected: ScenarioTotals;
+  // Deal sizes come from the average deal when the data has no revenue per source
+  estimatedDealSize: boolean;
+}
+
+export const isNoAdjustment = (a: ScenarioAdjustment): boolean => !a.volume && !a.winRate && !a.dealSize;
+
+const clampRate = (rate: number) => Math.min(1, Math.max(0, rate));
+// A cut of more than 100% leaves nothing rather than going negative
+const growth = (change: number) => Math.max(0, 1 + change);
+
+/**
+ * Projects the window's results under a scenario, starting from its
+ * source conversions. Each source's qualified volume, win rate and average
+ * deal are adjusted and multiplied back out. The projected KPI totals move
+ * by the sources' combined change, so they stay comparable with the KPI
+ * row even where per-source figures do not add up to it. Every extra win
+ * is counted as an extra active client.
+ */
+export const projectScenario = (view: DashboardView, scenario: Scenario): ScenarioProjection => {
+  const kpis = view.kpis;
+  const fallbackDeal = kpis?.convertedClients ? kpis.totalRevenue / kpis.convertedClients : 0;
+  const estimatedDealSize = !view.sourceConversions.some(s => s.revenue > 0);
+
+  const sources = view.sourceConversions.map(s => {
+    const avgDeal = !estimatedDealSize && s.converted ? s.revenue / s.converted : fallbackDeal;
+    // The rate implied by the counts, so an empty scenario reproduces them exactly
+    const baseRate = s.qualified ? s.converted / s.qualified : s.rate;
+    const actual: SourceFigures = {
+      qualified: s.qualified,
+      converted: s.converted,
+      rate: baseRate,
+      avgDeal,
+      revenue: estimatedDealSize ? s.converted * fallbackDeal : s.revenue,
+    };
+    const own = scenario.sources[s.source] ?? NO_ADJUSTMENT;
+    const qualified = s.qualified * growth(scenario.all.volume) * growth(own.volume);
+    const rate = clampRate(baseRate + scenario.all.winRate + own.winRate);
+    const deal = avgDeal * growth(scenario.all.dealSize) * growth(own.dealSize);
+    const converted = qualified * rate;
+    return {
+      source: s.source,
+      actual,
+      // Revenue moves by the change in wins × deal size, which also keeps revenue booked without wins
+      projected: { qualified, converted, rate, avgDeal: deal, revenue: actual.revenue + converted * deal - s.converted * avgDeal },
+    };
+  });
+
+  const sum = (pick: (p: SourceProjection) => number) => sources.reduce((total, p) => total + pick(p), 0);
+  const actual: ScenarioTotals = {
+    qualified: kpis?.qualifiedConversations ?? sum(p => p.actual.qualified),
+    converted: kpis?.convertedClients ?? sum(p => p.actual.converted),
+    revenue: kpis?.totalRevenue ?? sum(p => p.actual.revenue),
+    clientLoad: kpis?.activeClientLoad ?? 0,
+  };
+  const extraWins = sum(p => p.projected.converted - p.actual.converted);
+  const projected: ScenarioTotals = {
+    qualified: actual.qualified + sum(p => p.projected.qualified - p.actual.qualified),
+    converted: actual.converted + extraWins,
+    revenue: actual.revenue + sum(p => p.projected.revenue - p.actual.revenue),
+    clientLoad: actual.clientLoad + extraWins,
+  };
+  return { sources, actual, projected, estimatedDealSize };
+};
+
+const isAdjustment = (value: any): value is ScenarioAdjustment =>
+  !!value && ['volume', 'winRate', 'dealSize'].every(key => typeof value[key] === 'number' && Number.isFinite(value[key]));
+
+/**
+ * Scenarios saved in this browser for a workspace
+ */
+export const loadScenarios = (workspaceId: string): Scenario[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + workspaceId);
+    const parsed = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(s => typeof s?.name === 'string' && isAdjustment(s.all))
+      .map(s => ({
+        name: s.name,
+        all: s.all,
+        sources: Object.fromEntries(Object.entries(s.sources ?? {}).filter(([, a]) => isAdjustment(a))) as Record<string, ScenarioAdjustment>,
+        ...(typeof s.savedAt === 'string' && { savedAt: s.savedAt }),
+      }));
+  } catch (error) {
+    console.warn('Could not read saved scenarios', error);
+    return [];
+  }
+};
+
+export const saveScenarios = (workspaceId: string, scenarios: Scenario[]): void => {
+  localStorage.setItem(STORAGE_PREFIX + workspaceId, JSON.stringify(scenarios));
+};
+
+/**
+ * Adds `scenario` under its name, replacing a saved one with the same name
+ */
+export const upsertScenario = (scenarios: Scenario[], scenario: Scenario, now: Date = new Date()): Scenario[] => {
+  // Unchanged sources are not worth storing
+  const sources = Object.fromEntries(Object.entries(scenario.sources).filter(([, a]) => !isNoAdjustment(a)));
+  const saved = { ...scenario, sources, savedAt: now.toISOString() };
+  const index = scenarios.findIndex(s => s.name === scenario.name);
+  return index === -1 ? [...scenarios, saved] : scenarios.map((s, i) => (i === index ? saved : s));
+};
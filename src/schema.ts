@@ -0,0 +1,365 @@
+import {
+  DashboardData, DataIssue, KPIData, LossRecord, OwnerPerformance, PipelineStage, RevenueTrend, SheetRows, SourceConversion,
+  SpendRecord, WeeklyConversation
+} from './types';
+
+export interface GvizCell {
+  v: unknown;
+  f?: string;
+}
+
+export interface GvizColumn {
+  id: string;
+  label: string;
+  type: string;
+}
+
+export interface GvizTable {
+  cols: GvizColumn[];
+  rows: { c: (GvizCell | null)[] | null }[];
+}
+
+type FieldType = 'number' | 'string';
+
+export interface ColumnSpec {
+  label: string;
+  aliases?: string[];
+  type: FieldType;
+  optional?: boolean;
+  // Leave out of the issue list when missing (columns most sheets never have)
+  quiet?: boolean;
+}
+
+export type ColumnMap<T> = { [K in keyof T]-?: ColumnSpec };
+
+/**
+ * Thrown when the sheet is missing columns the dashboard cannot do without
+ */
+export class SheetMappingError extends Error {
+  issues: DataIssue[];
+
+  constructor(issues: DataIssue[]) {
+    super(issues.map(i => i.message).join('; '));
+    this.name = 'SheetMappingError';
+    this.issues = issues;
+  }
+}
+
+// Headers of the Dashboard_Calculations tab. Each block is matched by label,
+// so columns can be added or reordered without touching the code.
+export const KPI_COLUMNS: ColumnMap<KPIData> = {
+  totalOpportunities: { label: 'Total Opportunities', aliases: ['Opportunities'], type: 'number' },
+  qualifiedConversations: { label: 'Qualified Conversations', aliases: ['Qualified Opps'], type: 'number' },
+  convertedClients: { label: 'Converted Clients', aliases: ['Closed Deals', 'Converted'], type: 'number' },
+  conversionRate: { label: 'Conversion Rate', aliases: ['Conv. Rate', 'Conv Rate'], type: 'number' },
+  totalRevenue: { label: 'Total Revenue', type: 'number' },
+  activeClientLoad: { label: 'Active Client Load', aliases: ['Active Clients'], type: 'number', optional: true },
+};
+
+export const REVENUE_TREND_COLUMNS: ColumnMap<RevenueTrend> = {
+  month: { label: 'Month', type: 'string' },
+  revenue: { label: 'Monthly Revenue', aliases: ['Revenue'], type: 'number' },
+  currency: { label: 'Revenue Currency', aliases: ['Currency'], type: 'string', optional: true, quiet: true },
+};
+
+export const WEEKLY_COLUMNS: ColumnMap<WeeklyConversation> = {
+  week: { label: 'Week', type: 'string' },
+  count: { label: 'Weekly Conversations', aliases: ['Conversations', 'Qualified Conversations', 'Count'], type: 'number' },
+};
+
+export const SOURCE_COLUMNS: ColumnMap<SourceConversion> = {
+  source: { label: 'Source', aliases: ['Lead Source'], type: 'string' },
+  qualified: { label: 'Source Qualified', aliases: ['Qualified'], type: 'number' },
+  converted: { label: 'Source Converted', aliases: ['Converted', 'Won'], type: 'number' },
+  rate: { label: 'Source Rate', aliases: ['Win Rate', 'Rate', 'Conversion Rate'], type: 'number' },
+  revenue: { label: 'Source Revenue', aliases: ['Revenue'], type: 'number' },
+  currency: { label: 'Source Currency', type: 'string', optional: true, quiet: true },
+};
+
+// Optional block listing pipeline stages in order with their totals
+const STAGE_COLUMNS: ColumnMap<{ name: string; count: number }> = {
+  name: { label: 'Stage', aliases: ['Pipeline Stage'], type: 'string' },
+  count: { label: 'Stage Count', aliases: ['Stage Total'], type: 'number' },
+};
+
+// Optional block with one row per opportunity owner (sales rep)
+export const OWNER_COLUMNS: ColumnMap<Omit<OwnerPerformance, 'rate'>> = {
+  owner: { label: 'Owner', aliases: ['Rep', 'Sales Rep', 'Opportunity Owner'], type: 'string' },
+  qualified: { label: 'Owner Qualified', aliases: ['Rep Qualified'], type: 'number' },
+  converted: { label: 'Owner Won', aliases: ['Owner Converted', 'Rep Won'], type: 'number' },
+  revenue: { label: 'Owner Revenue', aliases: ['Rep Revenue'], type: 'number' },
+  avgCycleDays: { label: 'Owner Cycle Days', aliases: ['Rep Cycle Days', 'Avg Cycle Days'], type: 'number', optional: true },
+};
+
+// Optional block with one row per loss reason, optionally split by source and month
+export const LOSS_COLUMNS: ColumnMap<LossRecord> = {
+  reason: { label: 'Loss Reason', aliases: ['Lost Reason', 'Disqualification Reason'], type: 'string' },
+  lost: { label: 'Loss Count', aliases: ['Lost Count', 'Lost'], type: 'number' },
+  source: { label: 'Loss Source', aliases: ['Lost Source'], type: 'string', optional: true },
+  month: { label: 'Loss Month', aliases: ['Lost Month'], type: 'string', optional: true },
+  value: { label: 'Lost Value', aliases: ['Loss Value'], type: 'number', optional: true },
+};
+
+// Headers of the spend tab (or uploaded CSV), one row per source and month
+const SPEND_COLUMNS: ColumnMap<SpendRecord> = {
+  source: { label: 'Source', aliases: ['Lead Source', 'Channel'], type: 'string' },
+  month: { label: 'Month', aliases: ['Period'], type: 'string' },
+  spend: { label: 'Spend', aliases: ['Ad Spend', 'Cost', 'Amount'], type: 'number' },
+  leads: { label: 'Leads', aliases: ['Lead Count'], type: 'number', optional: true },
+  currency: { label: 'Currency', type: 'string', optional: true, quiet: true },
+};
+
+const normalise = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// gviz reports rows zero-based beneath a single header row
+const sheetRow = (rowIndex: number) => rowIndex + 2;
+
+/**
+ * Resolves a block of fields to column indices. A field takes the first
+ * unclaimed column matching its label (then its aliases), searching from
+ * the block's first column onwards so that a generic alias like "Revenue"
+ * binds to the column next to "Month" rather than an earlier block. An
+ * optional block whose first column is absent is skipped without issues.
+ */
+const resolveColumns = <T>(
+  cols: GvizColumn[],
+  spec: ColumnMap<T>,
+  claimed: Set<number>,
+  issues: DataIssue[],
+  optionalBlock = false
+): Partial<Record<keyof T, number>> => {
+  const labels = cols.map(c => normalise(c.label || ''));
+  const resolved: Partial<Record<keyof T, number>> = {};
+  let anchor = 0;
+  let skipped = false;
+
+  (Object.keys(spec) as (keyof T)[]).forEach((key, position) => {
+    if (skipped) return;
+    const field = spec[key];
+    const searchOrder = [...labels.keys()].sort((a, b) => (a < anchor ? 1 : 0) - (b < anchor ? 1 : 0) || a - b);
+    let index = -1;
+    for (const candidate of [field.label, ...(field.aliases ?? [])].map(normalise)) {
+      index = searchOrder.find(i => !claimed.has(i) && labels[i] === candidate) ?? -1;
+      if (index !== -1) break;
+    }
+
+    if (index === -1 && optionalBlock && position === 0) {
+      skipped = true;
+      return;
+    }
+    if (index === -1 && field.quiet) return;
+    if (index === -1) {
+      issues.push({
+        severity: field.optional ? 'warning' : 'error',
+        category: 'mapping',
+        column: field.label,
+        message: `column '${field.label}' not found`,
+      });
+      return;
+    }
+
+    const colType = cols[index].type;
+    if (field.type === 'number' && colType && colType !== 'number') {
+      issues.push({
+        severity: 'warning',
+        category: 'mapping',
+        column: field.label,
+        message: `column '${field.label}' is typed '${colType}' in the sheet, expected a number`,
+      });
+    }
+
+    claimed.add(index);
+    resolved[key] = index;
+    if (position === 0) anchor = index;
+  });
+  return resolved;
+};
+
+const readCell = (
+  cells: (GvizCell | null)[],
+  index: number | undefined,
+  field: ColumnSpec,
+  rowIndex: number,
+  issues: DataIssue[]
+): number | string | null => {
+  if (index === undefined) return null;
+  const value = cells[index]?.v;
+  if (value === null || value === undefined || value === '') return null;
+
+  if (field.type === 'string') return String(value);
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  issues.push({
+    severity: 'warning',
+    category: 'value',
+    column: field.label,
+    row: sheetRow(rowIndex),
+    message: `row ${sheetRow(rowIndex)}, column '${field.label}': expected a number, got ${JSON.stringify(value)}`,
+  });
+  return null;
+};
+
+/**
+ * Reads every row of a block that has its key (first) field set
+ */
+const readBlock = <T>(
+  table: GvizTable,
+  spec: ColumnMap<T>,
+  columns: Partial<Record<keyof T, number>>,
+  issues: DataIssue[]
+): { row: Partial<T>; rowIndex: number }[] => {
+  const keys = Object.keys(spec) as (keyof T)[];
+  const results: { row: Partial<T>; rowIndex: number }[] = [];
+  table.rows.forEach((r, rowIndex) => {
+    const cells = r?.c;
+    if (!cells) return;
+    if (readCell(cells, columns[keys[0]], spec[keys[0]], rowIndex, issues) === null) return;
+
+    const row: Partial<T> = {};
+    keys.forEach(key => {
+      const value = readCell(cells, columns[key], spec[key], rowIndex, issues);
+      if (value !== null) row[key] = value as T[keyof T];
+    });
+    results.push({ row, rowIndex });
+  });
+  return results;
+};
+
+const missingValue = (field: ColumnSpec, rowIndex: number): DataIssue => ({
+  severity: 'warning',
+  category: 'value',
+  column: field.label,
+  row: sheetRow(rowIndex),
+  message: `row ${sheetRow(rowIndex)}: no value in column '${field.label}'`,
+});
+
+/**
+ * Maps a Dashboard_Calculations gviz table onto the dashboard model using
+ * the header labels in `table.cols`. Missing required columns throw a
+ * SheetMappingError naming every one of them; cell-level problems are
+ * returned as issues alongside the data, with the sheet row of each entry
+ * so later checks can point at it.
+ */
+export const mapDashboardTable = (table: GvizTable): { data: DashboardData; issues: DataIssue[]; rows: SheetRows } => {
+  const issues: DataIssue[] = [];
+  const claimed = new Set<number>();
+  const cols = table.cols ?? [];
+
+  const kpiCols = resolveColumns(cols, KPI_COLUMNS, claimed, issues);
+  const trendCols = resolveColumns(cols, REVENUE_TREND_COLUMNS, claimed, issues);
+  const weeklyCols = resolveColumns(cols, WEEKLY_COLUMNS, claimed, issues);
+  const sourceCols = resolveColumns(cols, SOURCE_COLUMNS, claimed, issues);
+  const stageCols = resolveColumns(cols, STAGE_COLUMNS, claimed, issues, true);
+  const ownerCols = resolveColumns(cols, OWNER_COLUMNS, claimed, issues, true);
+  const lossCols = resolveColumns(cols, LOSS_COLUMNS, claimed, issues, true);
+
+  const fatal = issues.filter(i => i.severity === 'error');
+  if (fatal.length) throw new SheetMappingError(fatal);
+
+  // The KPI block is a single summary row at the top of the tab
+  const firstRowCells = table.rows[0]?.c || [];
+  const kpiValue = (key: keyof KPIData): number => {
+    const value = readCell(firstRowCells, kpiCols[key], KPI_COLUMNS[key], 0, issues);
+    if (value === null && kpiCols[key] !== undefined) issues.push(missingValue(KPI_COLUMNS[key], 0));
+    return (value as number | null) ?? 0;
+  };
+  const kpis: KPIData = {
+    totalOpportunities: kpiValue('totalOpportunities'),
+    qualifiedConversations: kpiValue('qualifiedConversations'),
+    convertedClients: kpiValue('convertedClients'),
+    conversionRate: kpiValue('conversionRate'),
+    totalRevenue: kpiValue('totalRevenue'),
+    activeClientLoad: kpiValue('activeClientLoad'),
+  };
+
+  const trendBlock = readBlock(table, REVENUE_TREND_COLUMNS, trendCols, issues).filter(({ row }) => row.revenue !== undefined);
+  const revenueTrend: RevenueTrend[] = trendBlock.map(({ row }) => ({
+    month: row.month!,
+    revenue: row.revenue!,
+    ...(row.currency !== undefined && { currency: row.currency.trim().toUpperCase() }),
+  }));
+
+  const weeklyBlock = readBlock(table, WEEKLY_COLUMNS, weeklyCols, issues).filter(({ row }) => row.count !== undefined);
+  const weeklyConversations: WeeklyConversation[] = weeklyBlock.map(({ row }) => ({ week: row.week!, count: row.count! }));
+
+  const sourceBlock = readBlock(table, SOURCE_COLUMNS, sourceCols, issues).filter(({ row }) => row.rate !== undefined);
+  const sourceConversions: SourceConversion[] = sourceBlock.map(({ row, rowIndex }) => {
+    (['qualified', 'converted', 'revenue'] as const).forEach(key => {
+      if (row[key] === undefined) issues.push(missingValue(SOURCE_COLUMNS[key], rowIndex));
+    });
+    return {
+      source: row.source!,
+      qualified: row.qualified ?? 0,
+      converted: row.converted ?? 0,
+      rate: row.rate!,
+      revenue: row.revenue ?? 0,
+      ...(row.currency !== undefined && { currency: row.currency.trim().toUpperCase() }),
+    };
+  });
+
+  const stages: PipelineStage[] = readBlock(table, STAGE_COLUMNS, stageCols, issues)
+    .filter(({ row }) => row.count !== undefined)
+    .map(({ row }, position) => ({ id: row.name!, name: row.name!, position, count: row.count! }));
+
+  const ownerBlock = readBlock(table, OWNER_COLUMNS, ownerCols, issues);
+  const ownerPerformance: OwnerPerformance[] = ownerBlock.map(({ row }) => ({
+    owner: row.owner!,
+    qualified: row.qualified ?? 0,
+    converted: row.converted ?? 0,
+    rate: row.qualified ? (row.converted ?? 0) / row.qualified : 0,
+    revenue: row.revenue ?? 0,
+    avgCycleDays: row.avgCycleDays ?? null,
+  }));
+
+  const lossBlock = readBlock(table, LOSS_COLUMNS, lossCols, issues).filter(({ row, rowIndex }) => {
+    if (row.lost === undefined) issues.push(missingValue(LOSS_COLUMNS.lost, rowIndex));
+    return row.lost !== undefined;
+  });
+  const losses: LossRecord[] = lossBlock.map(({ row }) => ({
+    reason: row.reason!,
+    lost: row.lost!,
+    ...(row.source !== undefined && { source: row.source }),
+    ...(row.month !== undefined && { month: row.month }),
+    ...(row.value !== undefined && { value: row.value }),
+  }));
+
+  const rowsOf = (block: { rowIndex: number }[]) => block.map(({ rowIndex }) => sheetRow(rowIndex));
+  return {
+    data: { kpis, revenueTrend, weeklyConversations, sourceConversions, ownerPerformance, losses, spend: [], opportunities: [], stages },
+    issues,
+    rows: {
+      kpis: sheetRow(0),
+      revenueTrend: rowsOf(trendBlock),
+      weeklyConversations: rowsOf(weeklyBlock),
+      sourceConversions: rowsOf(sourceBlock),
+      ownerPerformance: rowsOf(ownerBlock),
+      losses: rowsOf(lossBlock),
+    },
+  };
+};
+
+/**
+ * Maps a spend table (the spend tab or a parsed CSV) onto spend records.
+ * Like the main tab, missing required columns throw a SheetMappingError.
+ */
+export const mapSpendTable = (table: GvizTable): { spend: SpendRecord[]; issues: DataIssue[] } => {
+  const issues: DataIssue[] = [];
+  const columns = resolveColumns(table.cols ?? [], SPEND_COLUMNS, new Set<number>(), issues);
+  const fatal = issues.filter(i => i.severity === 'error');
+  if (fatal.length) throw new SheetMappingError(fatal);
+
+  const spend: SpendRecord[] = readBlock(table, SPEND_COLUMNS, columns, issues)
+    .filter(({ row, rowIndex }) => {
+      (['month', 'spend'] as const).forEach(key => {
+        if (row[key] === undefined) issues.push(missingValue(SPEND_COLUMNS[key], rowIndex));
+      });
+      return row.month !== undefined && row.spend !== undefined;
+    })
+    .map(({ row }) => ({
+      source: row.source!,
+      month: row.month!,
+      spend: row.spend!,
+      ...(row.leads !== undefined && { leads: row.leads }),
+      ...(row.currency !== undefined && { currency: row.currency.trim().toUpperCase() }),
+    }));
+  return { spend, issues };
+};
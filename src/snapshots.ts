@@ -0,0 +1,160 @@
+import { DashboardData, KPIData, Snapshot, SourceConversion } from './types';
+import { describeDelta, KPI_TRENDS, KpiDelta, KpiTrendConfig } from './kpiTrends';
+import { requestToPromise, SNAPSHOT_STORE, withStore } from './db';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * How long snapshots are kept. Every sync is kept for `keepAllHours`, then
+ * the last one of each day up to `dailyDays`, then the last one of each
+ * week up to `weeklyWeeks`. Anything older is deleted.
+ */
+export const SNAPSHOT_RETENTION = {
+  keepAllHours: 48,
+  dailyDays: 30,
+  weeklyWeeks: 52,
+};
+
+/**
+ * Stores the aggregates of a successful sync for a workspace
+ */
+export const saveSnapshot = (workspaceId: string, data: DashboardData, takenAt: Date = new Date()): Promise<Snapshot> =>
+  withStore(SNAPSHOT_STORE, 'readwrite', async store => {
+    const record: Omit<Snapshot, 'id'> = {
+      workspaceId,
+      takenAt,
+      data: {
+        kpis: data.kpis,
+        revenueTrend: data.revenueTrend,
+        weeklyConversations: data.weeklyConversations,
+        sourceConversions: data.sourceConversions,
+        ownerPerformance: data.ownerPerformance,
+        losses: data.losses,
+        spend: data.spend,
+        stages: data.stages,
+      },
+    };
+    const id = await requestToPromise(store.add(record));
+    return { ...record, id: id as number };
+  });
+
+/**
+ * All snapshots of a workspace, newest first
+ */
+export const listSnapshots = (workspaceId: string): Promise<Snapshot[]> =>
+  withStore(SNAPSHOT_STORE, 'readonly', async store => {
+    const records = await requestToPromise<Snapshot[]>(store.index('workspaceId').getAll(workspaceId));
+    return records.sort((a, b) => b.takenAt.getTime() - a.takenAt.getTime());
+  });
+
+// Monday-based week number since the epoch (1970-01-01 was a Thursday)
+const weekKey = (date: Date) => Math.floor((date.getTime() / DAY + 3) / 7);
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+/**
+ * Deletes the snapshots `SNAPSHOT_RETENTION` no longer keeps. Returns how
+ * many were removed.
+ */
+export const pruneSnapshots = async (workspaceId: string, now: Date = new Date()): Promise<number> => {
+  const snapshots = await listSnapshots(workspaceId);
+  const seenDays = new Set<string>();
+  const seenWeeks = new Set<number>();
+
+  // Newest first, so the first snapshot seen in a day or week is the one kept
+  const expired = snapshots.filter(s => {
+    const age = now.getTime() - s.takenAt.getTime();
+    if (age < SNAPSHOT_RETENTION.keepAllHours * HOUR) return false;
+    if (age < SNAPSHOT_RETENTION.dailyDays * DAY) {
+      const key = dayKey(s.takenAt);
+      if (seenDays.has(key)) return true;
+      seenDays.add(key);
+      return false;
+    }
+    if (age < SNAPSHOT_RETENTION.weeklyWeeks * 7 * DAY) {
+      const key = weekKey(s.takenAt);
+      if (seenWeeks.has(key)) return true;
+      seenWeeks.add(key);
+      return false;
+    }
+    return true;
+  });
+  if (!expired.length) return 0;
+
+  await withStore(SNAPSHOT_STORE, 'readwrite', async store => {
+    await Promise.all(expired.map(s => requestToPromise(store.delete(s.id))));
+  });
+  return expired.length;
+};
+
+export interface KpiChange {
+  key: keyof KPIData;
+  before: number | null;
+  after: number | null;
+  delta: KpiDelta | null;
+}
+
+export interface SourceChange {
+  source: string;
+  before: SourceConversion | null;
+  after: SourceConversion | null;
+}
+
+export interface SnapshotComparison {
+  kpis: KpiChange[];
+  sources: SourceChange[];
+}
+
+// Active client load has no sheet history, so it is left out of KPI_TRENDS
+const COMPARISON_CONFIG: Record<keyof KPIData, KpiTrendConfig> = {
+  totalOpportunities: { polarity: 'higher', unit: 'percent', series: [] },
+  qualifiedConversations: { polarity: 'higher', unit: 'percent', series: [] },
+  convertedClients: { polarity: 'higher', unit: 'percent', series: [] },
+  conversionRate: { polarity: 'higher', unit: 'points', series: [] },
+  totalRevenue: { polarity: 'higher', unit: 'percent', series: [] },
+  activeClientLoad: { polarity: 'higher', unit: 'percent', series: [] },
+  ...KPI_TRENDS,
+};
+
+/**
+ * KPI and per-source changes from snapshot `before` to snapshot `after`.
+ * Sources that appear in only one of them are listed with the other side
+ * null.
+ */
+export const compareSnapshots = (before: Snapshot, after: Snapshot): SnapshotComparison => {
+  const basis = `vs ${before.takenAt.toLocaleString()}`;
+  const kpis = (Object.keys(COMPARISON_CONFIG) as (keyof KPIData)[]).map(key => {
+    const a = before.data.kpis?.[key] ?? null;
+    const b = after.data.kpis?.[key] ?? null;
+    return {
+      key,
+      before: a,
+      after: b,
+      delta: a !== null && b !== null ? describeDelta(b, a, COMPARISON_CONFIG[key], basis) : null,
+    };
+  });
+
+  const beforeBySource = new Map(before.data.sourceConversions.map(s => [s.source, s]));
+  const afterBySource = new Map(after.data.sourceConversions.map(s => [s.source, s]));
+  const names = [...new Set([...afterBySource.keys(), ...beforeBySource.keys()])];
+  const sources = names.map(source => ({
+    source,
+    before: beforeBySource.get(source) ?? null,
+    after: afterBySource.get(source) ?? null,
+  }));
+
+  return { kpis, sources };
+};
+
+/**
+ * The snapshot to compare against by default: the first one taken since
+ * Monday of the current week, or the oldest one when none was.
+ */
+export const defaultBaseline = (snapshots: Snapshot[], now: Date = new Date()): Snapshot | null => {
+  if (snapshots.length < 2) return null;
+  const monday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - ((now.getDay() + 6) % 7));
+  const sinceMonday = snapshots.filter(s => s.takenAt >= monday);
+  // Newest first, so the last entry is the earliest
+  const candidate = sinceMonday.length > 1 ? sinceMonday[sinceMonday.length - 1] : snapshots[snapshots.length - 1];
+  return candidate === snapshots[0] ? snapshots[1] : candidate;
+};
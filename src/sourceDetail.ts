@@ -0,0 +1,119 @@
+import { DashboardView, DateRange, Opportunity, Snapshot } from './types';
+import { formatMonthLabel } from './derive';
+
+export interface SourcePoint {
+  label: string;
+  qualified: number;
+  won: number;
+  revenue: number;
+}
+
+export interface SourceShare {
+  source: string;
+  pipelineShare: number;
+  revenueShare: number;
+}
+
+export interface SourceDetail {
+  source: string;
+  qualified: number;
+  converted: number;
+  rate: number;
+  revenue: number;
+  avgDeal: number | null;
+  shares: SourceShare[];
+  // Per-month counts; null when the data has no row-level records
+  monthly: SourcePoint[] | null;
+  opportunities: Opportunity[];
+}
+
+const inRange = (date: Date | undefined, window: DateRange | null): date is Date =>
+  !!date && (!window || (date >= window.start && date < window.end));
+
+const buildMonthly = (opportunities: Opportunity[], window: DateRange | null, now: Date): SourcePoint[] => {
+  const points = new Map<string, SourcePoint>();
+  const point = (date: Date) => {
+    const label = formatMonthLabel(date);
+    if (!points.has(label)) points.set(label, { label, qualified: 0, won: 0, revenue: 0 });
+    return points.get(label)!;
+  };
+
+  // Same counting rules as deriveDashboard: volume by creation, wins by close date
+  opportunities.forEach(o => {
+    if (o.qualified && inRange(o.createdAt, window)) point(o.createdAt).qualified++;
+    if (o.status === 'won' && inRange(o.closedAt, window)) {
+      const p = point(o.closedAt);
+      p.won++;
+      p.revenue += o.value;
+    }
+  });
+
+  const dates = opportunities.flatMap(o => [o.createdAt, o.closedAt]).filter((d): d is Date => inRange(d, window));
+  if (!dates.length) return [];
+  const first = window?.start ?? new Date(Math.min(...dates.map(d => d.getTime())));
+  const last = window ? new Date(window.end.getTime() - 1) : now;
+  const monthly: SourcePoint[] = [];
+  for (let d = new Date(first.getFullYear(), first.getMonth(), 1); d <= last; d.setMonth(d.getMonth() + 1)) {
+    const label = formatMonthLabel(d);
+    monthly.push(points.get(label) ?? { label, qualified: 0, won: 0, revenue: 0 });
+  }
+  return monthly;
+};
+
+/**
+ * Everything the source drill-down shows for one source of the current
+ * view. Returns null when the source is not in the view.
+ */
+export const buildSourceDetail = (
+  view: DashboardView,
+  source: string,
+  window: DateRange | null,
+  now: Date = new Date()
+): SourceDetail | null => {
+  const row = view.sourceConversions.find(s => s.source === source);
+  if (!row) return null;
+
+  const totalQualified = view.sourceConversions.reduce((sum, s) => sum + s.qualified, 0);
+  const totalRevenue = view.sourceConversions.reduce((sum, s) => sum + s.revenue, 0);
+  const shares = view.sourceConversions
+    .map(s => ({
+      source: s.source,
+      pipelineShare: totalQualified ? s.qualified / totalQualified : 0,
+      revenueShare: totalRevenue ? s.revenue / totalRevenue : 0,
+    }))
+    .sort((a, b) => b.pipelineShare - a.pipelineShare);
+
+  const opportunities = view.opportunities
+    .filter(o => o.source === source)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  return {
+    source,
+    qualified: row.qualified,
+    converted: row.converted,
+    rate: row.rate,
+    revenue: row.revenue,
+    avgDeal: row.converted && row.revenue ? row.revenue / row.converted : null,
+    shares,
+    monthly: view.opportunities.length ? buildMonthly(opportunities, window, now) : null,
+    opportunities,
+  };
+};
+
+/**
+ * A source's all-time totals as recorded by each stored sync, one point per
+ * day. Stands in for a monthly breakdown when the sheet only has aggregates.
+ */
+export const sourceSnapshotHistory = (snapshots: Snapshot[], source: string): SourcePoint[] => {
+  const byDay = new Map<string, SourcePoint>();
+  [...snapshots]
+    .sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime())
+    .forEach(s => {
+      const row = s.data.sourceConversions.find(c => c.source === source);
+      if (!row) return;
+      const label = s.takenAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+      // Later syncs on the same day overwrite earlier ones
+      byDay.set(label, { label, qualified: row.qualified, won: row.converted, revenue: row.revenue });
+    });
+  return [...byDay.values()];
+};
@@ -0,0 +1,212 @@
+import { DashboardData, ProviderResult, SourceConversion, Workspace } from './types';
+import { DEFAULT_SOURCE_COLORS } from './config';
+
+const STORAGE_PREFIX = 'pipeline-dashboard:source-colors:';
+
+export const OTHER_SOURCE = 'Other';
+
+// Spellings folded into the built-in sources in every workspace
+export const DEFAULT_SOURCE_ALIASES: Record<string, string[]> = {
+  LinkedIn: ['LinkedIn Ads', 'Linked In'],
+  Instantly: ['Instantly.ai'],
+};
+
+// Sources with less than this share of qualified conversations are grouped into "Other" on the charts
+export const DEFAULT_OTHER_SOURCE_SHARE = 0.03;
+
+// Colours handed to sources nobody has picked one for, chosen to stand apart from the defaults
+const AUTO_COLORS = [
+  '#EC4899', '#14B8A6', '#A855F7', '#84CC16', '#06B6D4',
+  '#F43F5E', '#E879F9', '#FACC15', '#B45309', '#94A3B8',
+];
+
+/**
+ * Case- and spacing-insensitive form of a source name, used to match
+ * spellings against each other
+ */
+export const sourceKey = (source: string): string => source.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Maps any spelling of a source to its canonical name. Configured aliases
+ * (the workspace's on top of the defaults) map to the name they are listed
+ * under; other names match known sources case-insensitively, and anything
+ * else keeps the first spelling seen.
+ */
+export const createSourceResolver = (workspace: Workspace): ((source: string) => string) => {
+  const names = new Map<string, string>();
+  const add = (alias: string, canonical: string) => names.set(sourceKey(alias), canonical);
+  const addAliases = (aliases: Record<string, string[]>) =>
+    Object.entries(aliases).forEach(([canonical, spellings]) => {
+      add(canonical, canonical);
+      spellings.forEach(spelling => add(spelling, canonical));
+    });
+  // Workspace settings go last so they win over the defaults
+  Object.keys(DEFAULT_SOURCE_COLORS).forEach(name => add(name, name));
+  addAliases(DEFAULT_SOURCE_ALIASES);
+  Object.keys(workspace.sourceColors ?? {}).forEach(name => add(name, name));
+  addAliases(workspace.sourceAliases ?? {});
+
+  return source => {
+    const key = sourceKey(source);
+    if (!key) return source;
+    if (!names.has(key)) names.set(key, source.trim());
+    return names.get(key)!;
+  };
+};
+
+const mergeConversions = (rows: SourceConversion[], resolve: (source: string) => string): SourceConversion[] => {
+  const bySource = new Map<string, SourceConversion[]>();
+  rows.forEach(row => {
+    const source = resolve(row.source);
+    bySource.set(source, [...(bySource.get(source) ?? []), { ...row, source }]);
+  });
+  return [...bySource.values()].map(group => {
+    if (group.length === 1) return group[0];
+    const qualified = group.reduce((sum, r) => sum + r.qualified, 0);
+    const converted = group.reduce((sum, r) => sum + r.converted, 0);
+    return {
+      source: group[0].source,
+      qualified,
+      converted,
+      rate: qualified ? converted / qualified : group[0].rate,
+      revenue: group.reduce((sum, r) => sum + r.revenue, 0),
+    };
+  });
+};
+
+/**
+ * Renames every source in the data to its canonical name, merging source
+ * rows that turn out to be the same source
+ */
+export const applySourceAliases = (data: DashboardData, workspace: Workspace): DashboardData => {
+  const resolve = createSourceResolver(workspace);
+  return {
+    ...data,
+    sourceConversions: mergeConversions(data.sourceConversions, resolve),
+    losses: data.losses.map(l => (l.source === undefined ? l : { ...l, source: resolve(l.source) })),
+    spend: data.spend.map(s => ({ ...s, source: resolve(s.source) })),
+    opportunities: data.opportunities.map(o => ({ ...o, source: resolve(o.source) })),
+  };
+};
+
+/**
+ * Wraps a provider result so its sources use their canonical names. Runs
+ * after validation, which reports problems against the sheet's own rows.
+ */
+export const withSourceAliases = (result: ProviderResult, workspace: Workspace): ProviderResult => ({
+  ...result,
+  data: applySourceAliases(result.data, workspace),
+});
+
+/**
+ * Every source named anywhere in the data, in first-seen order
+ */
+export const listSources = (data: DashboardData): string[] => [
+  ...new Set([
+    ...data.sourceConversions.map(s => s.source),
+    ...data.opportunities.map(o => o.source),
+    ...data.spend.map(s => s.source),
+    ...data.losses.flatMap(l => (l.source === undefined ? [] : [l.source])),
+  ]),
+];
+
+const hashName = (name: string) => {
+  let hash = 0;
+  for (const char of sourceKey(name)) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return hash;
+};
+
+const loadAssignedColors = (workspaceId: string): Record<string, string> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + workspaceId);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.warn('Could not read source colours', error);
+    return {};
+  }
+};
+
+const saveAssignedColors = (workspaceId: string, assigned: Record<string, string>): void => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + workspaceId, JSON.stringify(assigned));
+  } catch (error) {
+    console.warn('Could not save source colours', error);
+  }
+};
+
+/**
+ * A colour for every source in `sources`: the workspace's own colours over
+ * the defaults, then an automatic colour for the rest. A new source starts
+ * at the slot its name hashes to and moves on to the next colour no other
+ * source on screen has, until all are taken. The colour is remembered per
+ * workspace in this browser, so a source keeps it whatever sources later
+ * syncs add or drop.
+ */
+export const getSourceColors = (workspace: Workspace, sources: string[] = []): Record<string, string> => {
+  const colors: Record<string, string> = { ...DEFAULT_SOURCE_COLORS, ...workspace.sourceColors };
+  const automatic = [...new Set(sources)].filter(source => !(source in colors));
+  const assigned = loadAssignedColors(workspace.id);
+  const used = new Set([
+    ...sources.filter(source => source in colors).map(source => colors[source]),
+    ...automatic.filter(source => assigned[source]).map(source => assigned[source]),
+  ]);
+
+  let changed = false;
+  // Sorted, so sources first seen in the same sync are handed colours in the same order everywhere
+  [...automatic].sort().forEach(source => {
+    if (assigned[source]) return;
+    const start = hashName(source) % AUTO_COLORS.length;
+    const free = AUTO_COLORS.findIndex((_, i) => !used.has(AUTO_COLORS[(start + i) % AUTO_COLORS.length]));
+    assigned[source] = AUTO_COLORS[(start + Math.max(0, free)) % AUTO_COLORS.length];
+    used.add(assigned[source]);
+    changed = true;
+  });
+  if (changed) saveAssignedColors(workspace.id, assigned);
+
+  automatic.forEach(source => {
+    colors[source] = assigned[source];
+  });
+  return colors;
+};
+
+/**
+ * A source row on the charts; grouped rows list the sources they stand for
+ */
+export type ChartSource = SourceConversion & { members?: string[] };
+
+/**
+ * Folds sources with less than `minShare` of the qualified conversations
+ * (or of the wins, when nothing is qualified) into one "Other" row, so the
+ * charts stay readable with a long tail of small channels. A lone small
+ * source is left as it is; a source already called "Other" absorbs the
+ * tail.
+ */
+export const groupLongTail = (sources: SourceConversion[], minShare: number): ChartSource[] => {
+  const measure = sources.some(s => s.qualified > 0) ? (s: SourceConversion) => s.qualified : (s: SourceConversion) => s.converted;
+  const total = sources.reduce((sum, s) => sum + measure(s), 0);
+  if (!total || minShare <= 0) return sources;
+
+  const isOther = (s: SourceConversion) => s.source === OTHER_SOURCE;
+  const tail = sources.filter(s => !isOther(s) && measure(s) / total < minShare);
+  const other = sources.find(isOther);
+  if (tail.length < (other ? 1 : 2)) return sources;
+
+  const grouped = [...tail, ...(other ? [other] : [])];
+  const qualified = grouped.reduce((sum, s) => sum + s.qualified, 0);
+  const converted = grouped.reduce((sum, s) => sum + s.converted, 0);
+  const otherRow: ChartSource = {
+    source: OTHER_SOURCE,
+    qualified,
+    converted,
+    rate: qualified ? converted / qualified : 0,
+    revenue: grouped.reduce((sum, s) => sum + s.revenue, 0),
+    members: grouped.map(s => s.source),
+  };
+  return [...sources.filter(s => !isOther(s) && !tail.includes(s)), otherRow];
+};
+
+/**
+ * The long-tail threshold for a workspace; 0 turns grouping off
+ */
+export const getOtherSourceShare = (workspace: Workspace): number => workspace.otherSourceShare ?? DEFAULT_OTHER_SOURCE_SHARE;
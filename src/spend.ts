@@ -0,0 +1,303 @@
+import { DashboardView, DataIssue, DateRange, SpendRecord } from './types';
+import { GvizTable, mapSpendTable } from './schema';
+import { formatCurrency, formatNumber, formatPercent } from './utils';
+import { sourceKey } from './sources';
+
+const STORAGE_PREFIX = 'pipeline-dashboard:spend:';
+
+export type EfficiencyMetric = 'rate' | 'roas' | 'roi' | 'cac' | 'costPerQualified' | 'costPerLead';
+
+export interface EfficiencyMetricDefinition {
+  label: string;
+  // Costs rank cheapest first, returns and win rate highest first
+  better: 'higher' | 'lower';
+  format: 'percent' | 'currency' | 'multiple';
+}
+
+export const EFFICIENCY_METRICS: Record<EfficiencyMetric, EfficiencyMetricDefinition> = {
+  roas: { label: 'ROAS', better: 'higher', format: 'multiple' },
+  roi: { label: 'ROI', better: 'higher', format: 'percent' },
+  cac: { label: 'CAC', better: 'lower', format: 'currency' },
+  costPerQualified: { label: 'Cost / Qualified', better: 'lower', format: 'currency' },
+  costPerLead: { label: 'Cost / Lead', better: 'lower', format: 'currency' },
+  rate: { label: 'Win Rate', better: 'higher', format: 'percent' },
+};
+
+export const formatEfficiency = (metric: EfficiencyMetric, value: number | null): string => {
+  if (value === null) return '—';
+  switch (EFFICIENCY_METRICS[metric].format) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percent':
+      return formatPercent(value);
+    case 'multiple':
+      return `${formatNumber(Math.round(value * 10) / 10)}×`;
+  }
+};
+
+/**
+ * Spend and returns of one source in the window. Cost metrics are null
+ * when the source has no spend or nothing to divide it by.
+ */
+export interface SourceEfficiency {
+  source: string;
+  spend: number | null;
+  // From the spend data's leads column, else counted from opportunities
+  leads: number | null;
+  qualified: number;
+  converted: number;
+  revenue: number;
+  rate: number;
+  costPerLead: number | null;
+  costPerQualified: number | null;
+  cac: number | null;
+  roas: number | null;
+  roi: number | null;
+}
+
+const withMetrics = (base: Pick<SourceEfficiency, 'source' | 'spend' | 'leads' | 'qualified' | 'converted' | 'revenue' | 'rate'>): SourceEfficiency => {
+  const per = (divisor: number | null) => (base.spend !== null && divisor ? base.spend / divisor : null);
+  return {
+    ...base,
+    costPerLead: per(base.leads),
+    costPerQualified: per(base.qualified),
+    cac: per(base.converted),
+    roas: base.spend ? base.revenue / base.spend : null,
+    roi: base.spend ? (base.revenue - base.spend) / base.spend : null,
+  };
+};
+
+/**
+ * Joins the view's spend rows to its source conversions (source names are
+ * matched case-insensitively) and works out each source's cost per lead,
+ * cost per qualified conversation, CAC, ROAS and ROI. Sources with spend
+ * but no conversions are included with zero returns.
+ */
+export const buildSourceEfficiency = (view: DashboardView, window: DateRange | null): SourceEfficiency[] => {
+  const spendBySource = new Map<string, { source: string; spend: number; leads: number | null }>();
+  view.spend.forEach(row => {
+    const key = sourceKey(row.source);
+    const entry = spendBySource.get(key) ?? { source: row.source, spend: 0, leads: null };
+    entry.spend += row.spend;
+    if (row.leads !== undefined) entry.leads = (entry.leads ?? 0) + row.leads;
+    spendBySource.set(key, entry);
+  });
+
+  // Row-level data can count leads itself: opportunities created in the window
+  const createdBySource = new Map<string, number>();
+  view.opportunities
+    .filter(o => !window || (o.createdAt >= window.start && o.createdAt < window.end))
+    .forEach(o => createdBySource.set(sourceKey(o.source), (createdBySource.get(sourceKey(o.source)) ?? 0) + 1));
+  const countLeads = (key: string) => (view.opportunities.length ? createdBySource.get(key) ?? 0 : null);
+
+  const rows = view.sourceConversions.map(s => {
+    const key = sourceKey(s.source);
+    const spent = spendBySource.get(key);
+    spendBySource.delete(key);
+    return withMetrics({
+      source: s.source,
+      spend: spent?.spend ?? null,
+      leads: spent?.leads ?? countLeads(key),
+      qualified: s.qualified,
+      converted: s.converted,
+      revenue: s.revenue,
+      rate: s.rate,
+    });
+  });
+  spendBySource.forEach((spent, key) => {
+    rows.push(withMetrics({
+      source: spent.source,
+      spend: spent.spend,
+      leads: spent.leads ?? countLeads(key),
+      qualified: 0,
+      converted: 0,
+      revenue: 0,
+      rate: 0,
+    }));
+  });
+  return rows;
+};
+
+/**
+ * Blended figures across every source that has spend
+ */
+export const totalEfficiency = (rows: SourceEfficiency[]): SourceEfficiency | null => {
+  const paid = rows.filter(r => r.spend !== null);
+  if (!paid.length) return null;
+  const sum = (pick: (r: SourceEfficiency) => number) => paid.reduce((total, r) => total + pick(r), 0);
+  const qualified = sum(r => r.qualified);
+  const converted = sum(r => r.converted);
+  return withMetrics({
+    source: 'All paid sources',
+    spend: sum(r => r.spend ?? 0),
+    leads: paid.every(r => r.leads !== null) ? sum(r => r.leads ?? 0) : null,
+    qualified,
+    converted,
+    revenue: sum(r => r.revenue),
+    rate: qualified ? converted / qualified : 0,
+  });
+};
+
+/**
+ * Sources ordered best first by `metric`; sources without a value for it
+ * (e.g. no spend) follow in their original order
+ */
+export const rankSources = (rows: SourceEfficiency[], metric: EfficiencyMetric): SourceEfficiency[] => {
+  const direction = EFFICIENCY_METRICS[metric].better === 'higher' ? -1 : 1;
+  const ranked = rows.filter(r => r[metric] !== null).sort((a, b) => direction * (a[metric]! - b[metric]!));
+  return [...ranked, ...rows.filter(r => r[metric] === null)];
+};
+
+// Spreadsheets in comma-decimal locales export with semicolons or tabs
+const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map(d => ({ d, n: header.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+/**
+ * Reads a CSV cell as a number: "$1,250.00", "1.250,50" and "1250" are
+ * numbers, "Jan 2026" and "2026-01" are not. The last separator is the
+ * decimal mark when the other one also appears or when it is not followed
+ * by exactly three digits. A lone separator before three digits is a
+ * thousands separator in comma-delimited files; semicolon and tab files
+ * come from comma-decimal locales as well as others, so there "1.250" and
+ * "1,250" could mean either and come back as NaN.
+ */
+const parseCsvNumber = (value: string, decimalComma: boolean): number | null => {
+  const cleaned = value.replace(/[\s$€£¥]/g, '');
+  if (!/^-?\d(?:[\d.,]*\d)?$/.test(cleaned)) return null;
+  const separators = cleaned.replace(/[^.,]/g, '');
+  if (!separators) return Number(cleaned);
+
+  const last = separators[separators.length - 1];
+  const other = last === '.' ? ',' : '.';
+  // The same separator repeated ("1.250.000") can only be grouping
+  const mark = separators.length > 1 && !separators.includes(other) ? null : last;
+  const group = mark === null ? last : other;
+  const split = mark === null ? cleaned.length : cleaned.lastIndexOf(mark);
+  const whole = cleaned.slice(0, split);
+  const fraction = cleaned.slice(split + 1);
+  if (!new RegExp(`^-?(\\d+|\\d{1,3}(\\${group}\\d{3})+)$`).test(whole)) return null;
+
+  if (separators.length === 1 && fraction.length === 3) {
+    if (decimalComma) return NaN;
+    if (mark === ',') return Number(whole + fraction);
+  }
+  return Number(`${whole.split(group).join('')}.${fraction}`);
+};
+
+/**
+ * Reads CSV text into the same table shape the gviz API returns, so an
+ * uploaded file goes through the spend tab's column mapping. The first row
+ * is the header; a column is numeric when every filled cell is a number.
+ * Numbers that could be read either way are left empty and reported in
+ * `issues`.
+ */
+export const parseCsvTable = (text: string, issues: DataIssue[] = []): GvizTable => {
+  const cleaned = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(cleaned);
+  const decimalComma = delimiter !== ',';
+  const [header = [], ...body] = parseCsvRows(cleaned, delimiter);
+  const numeric = header.map((_, col) =>
+    body.every(r => !r[col]?.trim() || parseCsvNumber(r[col], decimalComma) !== null)
+  );
+  return {
+    cols: header.map((label, col) => ({ id: String(col), label: label.trim(), type: numeric[col] ? 'number' : 'string' })),
+    rows: body.map((r, rowIndex) => ({
+      c: header.map((label, col) => {
+        const value = r[col]?.trim() ?? '';
+        if (!value) return null;
+        if (!numeric[col]) return { v: value };
+        const parsed = parseCsvNumber(value, decimalComma);
+        if (Number.isNaN(parsed)) {
+          // Row numbers count the header, as in the sheet checks
+          issues.push({
+            severity: 'warning',
+            category: 'value',
+            column: label.trim(),
+            row: rowIndex + 2,
+            message: `row ${rowIndex + 2}, column '${label.trim()}': ${JSON.stringify(value)} is ambiguous, its separator could be a decimal mark or a thousands separator`,
+          });
+          return null;
+        }
+        return { v: parsed };
+      }),
+    })),
+  };
+};
+
+export interface UploadedSpend {
+  fileName: string;
+  uploadedAt: Date;
+  spend: SpendRecord[];
+}
+
+/**
+ * Parses an uploaded spend CSV. Throws a SheetMappingError when required
+ * columns are missing.
+ */
+export const parseSpendCsv = (text: string): { spend: SpendRecord[]; issues: DataIssue[] } => {
+  const issues: DataIssue[] = [];
+  const mapped = mapSpendTable(parseCsvTable(text, issues));
+  return { spend: mapped.spend, issues: [...issues, ...mapped.issues] };
+};
+
+/**
+ * Spend uploaded in this browser for a workspace; it replaces the spend tab
+ */
+export const loadUploadedSpend = (workspaceId: string): UploadedSpend | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + workspaceId);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed?.spend)) return null;
+    return { fileName: String(parsed.fileName ?? 'spend.csv'), uploadedAt: new Date(parsed.uploadedAt), spend: parsed.spend };
+  } catch (error) {
+    console.warn('Could not read uploaded spend', error);
+    return null;
+  }
+};
+
+export const saveUploadedSpend = (workspaceId: string, upload: UploadedSpend): void => {
+  localStorage.setItem(STORAGE_PREFIX + workspaceId, JSON.stringify(upload));
+};
+
+export const clearUploadedSpend = (workspaceId: string): void => {
+  localStorage.removeItem(STORAGE_PREFIX + workspaceId);
+};
@@ -0,0 +1,57 @@
+import { Opportunity, PipelineStage, StageVisit } from './types';
+import { requestToPromise, STAGE_HISTORY_STORE, withStore } from './db';
+
+interface StageHistoryRecord {
+  key: string;
+  workspaceId: string;
+  opportunityId: string;
+  visits: StageVisit[];
+  qualifiedAt?: Date;
+}
+
+const recordKey = (workspaceId: string, opportunityId: string) => `${workspaceId}:${opportunityId}`;
+
+const mergeVisits = (stored: StageVisit[], current: StageVisit[], now: Date): StageVisit[] => {
+  const visits = [...stored];
+  current.forEach(visit => {
+    const last = visits[visits.length - 1];
+    if (last?.stageId === visit.stageId) return;
+    // A move we only noticed now: use the provider's time if it is plausible, otherwise the sync time
+    const enteredAt = last && visit.enteredAt <= last.enteredAt ? now : visit.enteredAt;
+    visits.push({ stageId: visit.stageId, enteredAt });
+  });
+  return visits;
+};
+
+/**
+ * Providers only report the stage an opportunity is in right now. Each
+ * sync appends stage changes to a per-opportunity log in IndexedDB, so the
+ * returned opportunities carry every stage seen since tracking began.
+ * Opportunities that jumped past the qualified stage between syncs get
+ * their `qualifiedAt` from the first qualifying stage they were seen in.
+ * Logs of opportunities missing from the sync (deleted, archived or moved
+ * out of the pipeline) are removed.
+ */
+export const recordStageHistory = (
+  workspaceId: string,
+  opportunities: Opportunity[],
+  stages: PipelineStage[],
+  now: Date = new Date()
+): Promise<Opportunity[]> =>
+  withStore(STAGE_HISTORY_STORE, 'readwrite', async store => {
+    const records = await requestToPromise<StageHistoryRecord[]>(store.index('workspaceId').getAll(workspaceId));
+    const byId = new Map(records.map(r => [r.opportunityId, r]));
+    const current = new Set(opportunities.map(o => o.id));
+    records.filter(r => !current.has(r.opportunityId)).forEach(r => store.delete(r.key));
+    const qualifying = new Set(stages.filter(s => s.qualifying).map(s => s.id));
+
+    return opportunities.map(o => {
+      const stored = byId.get(o.id);
+      const seen = o.stageHistory ?? [{ stageId: o.stageId, enteredAt: o.createdAt }];
+      const visits = mergeVisits(stored?.visits ?? [], seen, now);
+      const qualifiedAt = stored?.qualifiedAt ?? o.qualifiedAt ?? visits.find(v => qualifying.has(v.stageId))?.enteredAt;
+      const changed = !stored || visits.length !== stored.visits.length || qualifiedAt !== stored.qualifiedAt;
+      if (changed) store.put({ key: recordKey(workspaceId, o.id), workspaceId, opportunityId: o.id, visits, qualifiedAt });
+      return { ...o, stageHistory: visits, qualifiedAt };
+    });
+  });
@@ -0,0 +1,243 @@
+import { DashboardData, Opportunity } from './types';
+
+export const REFRESH_INTERVAL = 5 * 60 * 1000;
+export const REQUEST_TIMEOUT = 15 * 1000;
+// Data older than this is flagged as stale, i.e. at least one refresh was missed
+export const STALE_AFTER = 2 * REFRESH_INTERVAL;
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 1000;
+const BACKOFF_BASE_DELAY = 30 * 1000;
+const CACHE_PREFIX = 'pipeline-dashboard:cache:';
+
+/**
+ * A failed request. `retryable` is false for answers that will not change
+ * on a second try, such as 404 or 401.
+ */
+export class FetchError extends Error {
+  status?: number;
+  retryable: boolean;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'FetchError';
+    this.status = status;
+    this.retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+  }
+}
+
+/**
+ * `fetch` that gives up after `timeout` ms and throws FetchError for
+ * network failures, timeouts and non-2xx responses
+ */
+export const fetchWithTimeout = async (
+  url: string,
+  init: RequestInit = {},
+  timeout: number = REQUEST_TIMEOUT
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) throw new FetchError(`Request timed out after ${timeout / 1000}s`);
+    throw new FetchError(error instanceof Error ? error.message : 'Network request failed');
+  } finally {
+    clearTimeout(timer);
+  }
+  if (!response.ok) throw new FetchError(`Request failed (${response.status})`, response.status);
+  return response;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs `task`, retrying retryable FetchErrors with exponential backoff
+ * (1s, 2s, … plus jitter). Any other error is thrown straight away.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, attempts: number = RETRY_ATTEMPTS): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= attempts || !(error instanceof FetchError) || !error.retryable) throw error;
+      await sleep(RETRY_BASE_DELAY * 2 ** (attempt - 1) * (1 + Math.random() * 0.3));
+    }
+  }
+};
+
+/**
+ * Delay before the next scheduled sync after `failures` failed ones in a
+ * row: 30s, 60s, 120s, … capped at the normal refresh interval
+ */
+export const backoffDelay = (failures: number): number =>
+  failures <= 0 ? REFRESH_INTERVAL : Math.min(REFRESH_INTERVAL, BACKOFF_BASE_DELAY * 2 ** (failures - 1));
+
+export interface SchedulerState {
+  nextSyncAt: Date | null;
+  paused: boolean;
+}
+
+export interface SyncScheduler {
+  start: () => void;
+  stop: () => void;
+  syncNow: () => void;
+}
+
+/**
+ * Calls `run` every REFRESH_INTERVAL, backing off after failures. Timers
+ * stop while the tab is hidden; on return a sync runs at once if one came
+ * due in the meantime. `run` resolves to whether the sync succeeded.
+ */
+export const createSyncScheduler = (
+  run: () => Promise<boolean>,
+  onChange: (state: SchedulerState) => void
+): SyncScheduler => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let dueAt = 0;
+  let failures = 0;
+  let running = false;
+  let stopped = true;
+
+  const clear = () => {
+    if (timer !== undefined) clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const arm = () => {
+    clear();
+    if (stopped || running || document.hidden) return;
+    timer = setTimeout(tick, Math.max(0, dueAt - Date.now()));
+  };
+
+  const tick = async () => {
+    clear();
+    if (running || stopped) return;
+    running = true;
+    onChange({ nextSyncAt: null, paused: false });
+    const ok = await run().catch(() => false);
+    running = false;
+    if (stopped) return;
+    failures = ok ? 0 : failures + 1;
+    dueAt = Date.now() + backoffDelay(failures);
+    onChange({ nextSyncAt: new Date(dueAt), paused: document.hidden });
+    arm();
+  };
+
+  const onVisibility = () => {
+    onChange({ nextSyncAt: running ? null : new Date(dueAt), paused: document.hidden });
+    arm();
+  };
+
+  return {
+    start: () => {
+      stopped = false;
+      dueAt = Date.now();
+      document.addEventListener('visibilitychange', onVisibility);
+      arm();
+    },
+    stop: () => {
+      stopped = true;
+      clear();
+      document.removeEventListener('visibilitychange', onVisibility);
+    },
+    syncNow: () => {
+      dueAt = Date.now();
+      arm();
+    },
+  };
+};
+
+interface CachedDashboard {
+  syncedAt: string;
+  data: DashboardData;
+}
+
+const reviveOpportunity = (o: any): Opportunity => ({
+  ...o,
+  createdAt: new Date(o.createdAt),
+  closedAt: o.closedAt ? new Date(o.closedAt) : undefined,
+  qualifiedAt: o.qualifiedAt ? new Date(o.qualifiedAt) : undefined,
+  stageHistory: o.stageHistory?.map((v: any) => ({ stageId: v.stageId, enteredAt: new Date(v.enteredAt) })),
+});
+
+/**
+ * The last successfully synced data for a workspace, for an instant first
+ * paint before the network answers
+ */
+export const readCachedDashboard = (workspaceId: string): { data: DashboardData; syncedAt: Date } | null => {
+  try {
+    const stored = localStorage.getItem(CACHE_PREFIX + workspaceId);
+    if (!stored) return null;
+    const cached: CachedDashboard = JSON.parse(stored);
+    if (!cached?.data || !cached.syncedAt) return null;
+    return {
+      data: {
+        ...cached.data,
+        // Caches written before owners, losses and spend were tracked lack the fields
+        ownerPerformance: cached.data.ownerPerformance ?? [],
+        losses: cached.data.losses ?? [],
+        spend: cached.data.spend ?? [],
+        opportunities: (cached.data.opportunities ?? []).map(reviveOpportunity),
+      },
+      syncedAt: new Date(cached.syncedAt),
+    };
+  } catch (error) {
+    console.warn('Ignoring unreadable dashboard cache', error);
+    return null;
+  }
+};
+
+export const writeCachedDashboard = (workspaceId: string, data: DashboardData, syncedAt: Date): void => {
+  const write = (payload: DashboardData) =>
+    localStorage.setItem(CACHE_PREFIX + workspaceId, JSON.stringify({ syncedAt: syncedAt.toISOString(), data: payload }));
+  try {
+    write(data);
+  } catch {
+    // Large row-level datasets can exceed the storage quota; the aggregates alone still paint the dashboard
+    try {
+      write({ ...data, opportunities: [] });
+    } catch (error) {
+      console.warn('Could not cache dashboard data', error);
+    }
+  }
+};
+
+export type SyncStatus = 'syncing' | 'live' | 'cached' | 'stale' | 'error' | 'paused';
+
+/**
+ * One status for the header badge, most urgent first
+ */
+export const getSyncStatus = (
+  state: { loading: boolean; error: string | null; lastUpdated: Date | null; fromCache: boolean },
+  paused: boolean,
+  now: Date = new Date()
+): SyncStatus => {
+  if (state.loading) return 'syncing';
+  if (state.error) return 'error';
+  if (state.fromCache) return 'cached';
+  if (state.lastUpdated && now.getTime() - state.lastUpdated.getTime() > STALE_AFTER) return 'stale';
+  if (paused) return 'paused';
+  return 'live';
+};
+
+/**
+ * Rough length of a span: "<1m", "4m", "2h", "3d"
+ */
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+};
+
+/**
+ * "just now", "4m ago", "2h ago", "3d ago"
+ */
+export const formatAge = (date: Date, now: Date = new Date()): string => {
+  const span = formatDuration(now.getTime() - date.getTime());
+  return span === '<1m' ? 'just now' : `${span} ago`;
+};
@@ -0,0 +1,345 @@
+import { DashboardData, DashboardView, DateRange, KPIData, LossRecord, SpendRecord, TimeFilter } from './types';
+import { deriveDashboard } from './derive';
+
+export const TIME_FILTERS: TimeFilter[] = ['7D', '30D', '90D', 'All time'];
+
+const FILTER_DAYS: Record<TimeFilter, number | null> = {
+  '7D': 7,
+  '30D': 30,
+  '90D': 90,
+  'All time': null,
+};
+
+const URL_PARAM = 'range';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+export type PeriodKind = 'month' | 'week';
+
+interface PeriodParts {
+  year?: number;
+  month?: number;
+  day?: number;
+  isoWeek?: number;
+}
+
+/**
+ * Returns the window covered by a filter, or null for "All time"
+ */
+export const getFilterWindow = (filter: TimeFilter, now: Date = new Date()): DateRange | null => {
+  const days = FILTER_DAYS[filter];
+  if (days === null) return null;
+  return { start: new Date(now.getTime() - days * DAY_MS), end: now };
+};
+
+// Accepts "jan", "sept" and "january" but not words like "marketing"
+const monthFromToken = (token: string): number | undefined => {
+  if (token.length < 3) return undefined;
+  const idx = MONTH_NAMES.findIndex(name => name.startsWith(token));
+  return idx === -1 ? undefined : idx;
+};
+
+/**
+ * Splits a sheet label such as "Jan 2026", "2026-01-05", "Week 3" or
+ * "Date(2026,0,5)" into calendar parts. The year may be missing.
+ */
+const parseLabelParts = (label: string, kind: PeriodKind): PeriodParts | null => {
+  const raw = label.trim();
+  if (!raw) return null;
+
+  // gviz serialises date cells as "Date(2026,0,5)" with a zero-based month
+  const gviz = raw.match(/^Date\((\d{4}),\s*(\d{1,2})(?:,\s*(\d{1,2}))?/);
+  if (gviz) {
+    if (kind === 'month') return { year: +gviz[1], month: +gviz[2] };
+    return { year: +gviz[1], month: +gviz[2], day: gviz[3] ? +gviz[3] : 1 };
+  }
+
+  // Ranges like "Jan 5 - Jan 11": the period starts at the first half
+  const text = raw.split(/\s+(?:[-–—]|to)\s+/i)[0].toLowerCase();
+
+  const isoWeek = text.match(/^(\d{4})-?w(\d{1,2})$/);
+  if (isoWeek) return { year: +isoWeek[1], isoWeek: +isoWeek[2] };
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?/);
+  if (iso) return { year: +iso[1], month: +iso[2] - 1, day: iso[3] ? +iso[3] : undefined };
+
+  const slash = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?$/);
+  if (slash) {
+    const year = slash[3] ? (slash[3].length === 2 ? 2000 + +slash[3] : +slash[3]) : undefined;
+    return { year, month: +slash[1] - 1, day: +slash[2] };
+  }
+
+  const weekNo = text.match(/^(?:week|wk|w)\s*#?\s*(\d{1,2})(?:[\s,/-]+(\d{4}))?$/);
+  if (weekNo) return { isoWeek: +weekNo[1], year: weekNo[2] ? +weekNo[2] : undefined };
+
+  const tokens = text
+    .replace(/^(?:week\s+of|w\/c|wc|wk\s+of)\s+/, '')
+    .replace(/(\d)(?:st|nd|rd|th)\b/g, '$1')
+    .split(/[\s,.\-/]+/)
+    .filter(Boolean);
+
+  let month: number | undefined;
+  let day: number | undefined;
+  let year: number | undefined;
+  for (const token of tokens) {
+    const clean = token.replace(/^['’]/, '');
+    if (/^[a-z]+$/.test(clean)) {
+      if (month === undefined) month = monthFromToken(clean);
+      continue;
+    }
+    if (!/^\d+$/.test(clean)) return null;
+    const n = +clean;
+    if (clean.length === 4) year = n;
+    else if (clean !== token || (kind === 'month' && clean.length === 2 && day === undefined && month !== undefined)) year = 2000 + n;
+    else if (day === undefined && n >= 1 && n <= 31) day = n;
+    else if (year === undefined && clean.length === 2) year = 2000 + n;
+  }
+  if (month === undefined) return null;
+  return { year, month, day: kind === 'month' ? undefined : day };
+};
+
+const isoWeekStart = (year: number, week: number): Date => {
+  // ISO week 1 is the week containing January 4th
+  const jan4 = new Date(year, 0, 4);
+  const mondayOffset = (jan4.getDay() + 6) % 7;
+  return new Date(year, 0, 4 - mondayOffset + (week - 1) * 7);
+};
+
+const partsToRange = (parts: PeriodParts, year: number): DateRange => {
+  if (parts.isoWeek !== undefined) {
+    const start = isoWeekStart(year, parts.isoWeek);
+    return { start, end: new Date(start.getTime() + 7 * DAY_MS) };
+  }
+  const month = parts.month ?? 0;
+  if (parts.day !== undefined) {
+    const start = new Date(year, month, parts.day);
+    return { start, end: new Date(year, month, parts.day + 7) };
+  }
+  return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+};
+
+/**
+ * Resolves an ordered series of month or week labels into date ranges.
+ * Labels without a year are assumed to run chronologically and end at or
+ * before `now`, so "Nov, Dec, Jan" spans the turn of the year.
+ */
+export const parsePeriodLabels = (labels: string[], kind: PeriodKind, now: Date = new Date()): (DateRange | null)[] => {
+  const parts = labels.map(label => parseLabelParts(label, kind));
+  const ranges: (DateRange | null)[] = new Array(labels.length).fill(null);
+
+  let nextStart: Date | null = null;
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const p = parts[i];
+    if (!p) continue;
+    let range: DateRange;
+    if (p.year !== undefined) {
+      range = partsToRange(p, p.year);
+    } else {
+      const ceiling = nextStart ?? now;
+      let year = nextStart ? nextStart.getFullYear() : now.getFullYear();
+      range = partsToRange(p, year);
+      if (range.start > ceiling) range = partsToRange(p, --year);
+    }
+    ranges[i] = range;
+    nextStart = range.start;
+  }
+  return ranges;
+};
+
+const overlapFraction = (range: DateRange, window: DateRange): number => {
+  const span = range.end.getTime() - range.start.getTime();
+  if (span <= 0) return 0;
+  const overlap = Math.min(range.end.getTime(), window.end.getTime()) - Math.max(range.start.getTime(), window.start.getTime());
+  return Math.max(0, overlap) / span;
+};
+
+// The running period has only happened up to now, so it is whole inside a window ending now
+const elapsed = (range: DateRange, now: Date): DateRange =>
+  range.end > now ? { start: range.start, end: now } : range;
+
+interface WindowedSeries<T> {
+  rows: T[];
+  windowTotal: number;
+  total: number;
+  datable: boolean;
+  // Whether a period straddling the window edge was counted for only part of its value
+  prorated: boolean;
+}
+
+const windowSeries = <T>(
+  rows: T[],
+  label: (row: T) => string,
+  value: (row: T) => number,
+  kind: PeriodKind,
+  window: DateRange,
+  now: Date
+): WindowedSeries<T> => {
+  const ranges = parsePeriodLabels(rows.map(label), kind, now);
+  const datable = ranges.some(Boolean);
+  if (!datable) {
+    const total = rows.reduce((sum, row) => sum + value(row), 0);
+    return { rows, windowTotal: total, total, datable, prorated: false };
+  }
+
+  const kept: T[] = [];
+  let windowTotal = 0;
+  let total = 0;
+  let prorated = false;
+  rows.forEach((row, i) => {
+    const range = ranges[i];
+    if (!range) return;
+    total += value(row);
+    const fraction = overlapFraction(elapsed(range, now), window);
+    if (fraction <= 0) return;
+    kept.push(row);
+    // Periods that straddle the window edge only count for the overlapping share
+    windowTotal += value(row) * fraction;
+    if (fraction < 1 && value(row) !== 0) prorated = true;
+  });
+  return { rows: kept, windowTotal, total, datable, prorated };
+};
+
+/**
+ * Keeps the spend rows that overlap the window, scaled to the share of
+ * their month inside it; the running month counts only up to now, as the
+ * revenue series does. Each month is dated on its own because spend rows
+ * repeat months once per source. Rows with an unreadable month only count
+ * towards "All time".
+ */
+export const windowSpend = (rows: SpendRecord[], window: DateRange, now: Date = new Date()): SpendRecord[] => {
+  const ranges = new Map(
+    [...new Set(rows.map(r => r.month))].map(month => [month, parsePeriodLabels([month], 'month', now)[0]])
+  );
+  return rows.flatMap(row => {
+    const range = ranges.get(row.month);
+    const fraction = range ? overlapFraction(elapsed(range, now), window) : 0;
+    if (fraction <= 0) return [];
+    return [{
+      ...row,
+      spend: row.spend * fraction,
+      ...(row.leads !== undefined && { leads: Math.round(row.leads * fraction) }),
+    }];
+  });
+};
+
+/**
+ * Returns the earliest date a month or week series can vouch for, if any
+ */
+export const getSeriesStart = (data: DashboardData, kind: PeriodKind, now: Date = new Date()): Date | null => {
+  const labels = kind === 'month' ? data.revenueTrend.map(r => r.month) : data.weeklyConversations.map(w => w.week);
+  const starts = parsePeriodLabels(labels, kind, now)
+    .filter((r): r is DateRange => r !== null)
+    .map(r => r.start.getTime());
+  return starts.length ? new Date(Math.min(...starts)) : null;
+};
+
+/**
+ * Narrows the dashboard to a date window.
+ *
+ * With row-level opportunities everything is recounted exactly. Otherwise
+ * revenue and qualified conversations are summed from the dated month and
+ * week series. The sheet only carries all-time totals for opportunities,
+ * wins and the per-source, per-owner and undated loss rows, so those are
+ * pro-rated by the window's share of activity (weekly conversations) or
+ * revenue; rates are left untouched. The view is only marked estimated
+ * when something was actually pro-rated, so a window that takes in every
+ * dated period whole is exact.
+ */
+export const filterDashboardData = (data: DashboardData, window: DateRange | null, now: Date = new Date()): DashboardView => {
+  if (!window) return { ...data, estimated: false };
+  if (data.opportunities.length) {
+    return {
+      ...deriveDashboard(data.opportunities, data.stages, window, now),
+      spend: windowSpend(data.spend, window, now),
+      estimated: false,
+    };
+  }
+
+  const revenue = windowSeries(data.revenueTrend, r => r.month, r => r.revenue, 'month', window, now);
+  const weekly = windowSeries(data.weeklyConversations, w => w.week, w => w.count, 'week', window, now);
+
+  const ratio = (series: WindowedSeries<unknown>) => (series.total ? series.windowTotal / series.total : 0);
+  const revenueRatio = revenue.datable ? ratio(revenue) : weekly.datable ? ratio(weekly) : 1;
+  const activityRatio = weekly.datable ? ratio(weekly) : revenueRatio;
+
+  let kpis: KPIData | null = null;
+  if (data.kpis) {
+    kpis = {
+      ...data.kpis,
+      totalOpportunities: Math.round(data.kpis.totalOpportunities * activityRatio),
+      qualifiedConversations: weekly.datable
+        ? Math.round(weekly.windowTotal)
+        : Math.round(data.kpis.qualifiedConversations * activityRatio),
+      convertedClients: Math.round(data.kpis.convertedClients * revenueRatio),
+      totalRevenue: revenue.datable ? Math.round(revenue.windowTotal) : Math.round(data.kpis.totalRevenue * revenueRatio),
+    };
+  }
+
+  const sourceConversions = data.sourceConversions.map(s => ({
+    ...s,
+    qualified: Math.round(s.qualified * activityRatio),
+    converted: Math.round(s.converted * revenueRatio),
+    revenue: Math.round(s.revenue * revenueRatio),
+  }));
+
+  const ownerPerformance = data.ownerPerformance.map(o => ({
+    ...o,
+    qualified: Math.round(o.qualified * activityRatio),
+    converted: Math.round(o.converted * revenueRatio),
+    revenue: Math.round(o.revenue * revenueRatio),
+  }));
+
+  // Loss rows with a month are kept or dropped like the revenue series; undated ones are pro-rated
+  const lossSeries = windowSeries(data.losses.filter(l => l.month), l => l.month!, l => l.lost, 'month', window, now);
+  const prorateLoss = (l: LossRecord): LossRecord => ({
+    ...l,
+    lost: Math.round(l.lost * activityRatio),
+    ...(l.value !== undefined && { value: Math.round(l.value * activityRatio) }),
+  });
+  const losses = (lossSeries.datable
+    ? [...lossSeries.rows, ...data.losses.filter(l => !l.month).map(prorateLoss)]
+    : data.losses.map(prorateLoss)
+  ).filter(l => l.lost > 0);
+
+  const scaled = (activityRatio !== 1 || revenueRatio !== 1) && (
+    data.kpis !== null
+    || data.sourceConversions.length > 0
+    || data.ownerPerformance.length > 0
+    || data.losses.some(l => !l.month || !lossSeries.datable)
+    || data.stages.some(s => s.count !== undefined)
+  );
+
+  return {
+    kpis,
+    revenueTrend: revenue.rows,
+    weeklyConversations: weekly.rows,
+    sourceConversions,
+    ownerPerformance,
+    losses,
+    spend: windowSpend(data.spend, window, now),
+    opportunities: [],
+    stages: data.stages.map(s => (s.count === undefined ? s : { ...s, count: Math.round(s.count * activityRatio) })),
+    estimated: scaled || revenue.prorated || weekly.prorated || lossSeries.prorated,
+  };
+};
+
+const filterToParam = (filter: TimeFilter): string => (filter === 'All time' ? 'all' : filter.toLowerCase());
+
+/**
+ * Reads the `?range=` query param so embeds can open on a fixed window
+ */
+export const readTimeFilterFromUrl = (fallback: TimeFilter = 'All time'): TimeFilter => {
+  if (typeof window === 'undefined') return fallback;
+  const param = new URLSearchParams(window.location.search).get(URL_PARAM)?.toLowerCase();
+  return TIME_FILTERS.find(f => filterToParam(f) === param) ?? fallback;
+};
+
+export const writeTimeFilterToUrl = (filter: TimeFilter): void => {
+  const url = new URL(window.location.href);
+  if (filter === 'All time') url.searchParams.delete(URL_PARAM);
+  else url.searchParams.set(URL_PARAM, filterToParam(filter));
+  window.history.replaceState(window.history.state, '', url.toString());
+};
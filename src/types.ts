@@ -1,4 +1,3 @@
-
 export interface KPIData {
   totalOpportunities: number;
   qualifiedConversations: number;
@@ -11,6 +10,8 @@ export interface KPIData {
 export interface RevenueTrend {
   month: string;
   revenue: number;
+  // ISO 4217 code, when the row is not in the workspace's data currency
+  currency?: string;
 }
 
 export interface WeeklyConversation {
@@ -24,14 +25,300 @@ export interface SourceConversion {
   converted: number;
   rate: number;
   revenue: number; // Added for direct attribution from Dashboard_Calculations
+  currency?: string;
+}
+
+/**
+ * Results for one opportunity owner (sales rep)
+ */
+export interface OwnerPerformance {
+  owner: string;
+  qualified: number;
+  converted: number;
+  rate: number;
+  revenue: number;
+  // Mean days from creation to closed-won; null when the data has no dates
+  avgCycleDays: number | null;
+}
+
+/**
+ * Lost or disqualified opportunities that share a reason and, when the
+ * data has them, a source and close month ("Mar 2026")
+ */
+export interface LossRecord {
+  reason: string;
+  lost: number;
+  source?: string;
+  month?: string;
+  // Combined value of the lost opportunities, when known
+  value?: number;
+}
+
+/**
+ * Marketing spend on one source in one month ("Mar 2026"), from the spend
+ * tab or an uploaded CSV
+ */
+export interface SpendRecord {
+  source: string;
+  month: string;
+  spend: number;
+  // Leads the spend bought, when the platform reports them
+  leads?: number;
+  currency?: string;
+}
+
+export type OpportunityStatus = 'open' | 'won' | 'lost' | 'abandoned';
+
+// When an opportunity was first seen in a stage
+export interface StageVisit {
+  stageId: string;
+  enteredAt: Date;
 }
 
-export interface DashboardState {
+/**
+ * A single CRM opportunity. Only providers with row-level access (the GHL
+ * connector) fill these in; the sheet only carries aggregates.
+ */
+export interface Opportunity {
+  id: string;
+  name: string;
+  source: string;
+  status: OpportunityStatus;
+  value: number;
+  pipelineId: string;
+  stageId: string;
+  qualified: boolean;
+  contactId?: string;
+  // Display name of the assigned user, if any
+  owner?: string;
+  // Why a lost or abandoned opportunity was lost, if recorded
+  lossReason?: string;
+  createdAt: Date;
+  // When the opportunity was won, lost or abandoned
+  closedAt?: Date;
+  // When it reached the qualified stage, if known
+  qualifiedAt?: Date;
+  // Stages visited, oldest first. The provider only knows the current one;
+  // stageHistory.ts fills in earlier ones from previous syncs.
+  stageHistory?: StageVisit[];
+}
+
+/**
+ * A pipeline stage in display order. `count` is only set when the source
+ * reports stage totals directly instead of row-level opportunities.
+ */
+export interface PipelineStage {
+  id: string;
+  name: string;
+  position: number;
+  count?: number;
+  // Reaching this stage makes an opportunity a qualified conversation; set by row-level providers
+  qualifying?: boolean;
+}
+
+export interface FunnelStage {
+  name: string;
+  count: number;
+  // Share of the previous step that reached this one; null for the first step
+  conversion: number | null;
+  dropOff: number;
+  bySource: Record<string, number>;
+}
+
+export type TimeFilter = '7D' | '30D' | '90D' | 'All time';
+
+/**
+ * Half-open date interval [start, end)
+ */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface DashboardData {
   kpis: KPIData | null;
   revenueTrend: RevenueTrend[];
   weeklyConversations: WeeklyConversation[];
   sourceConversions: SourceConversion[];
+  ownerPerformance: OwnerPerformance[];
+  losses: LossRecord[];
+  spend: SpendRecord[];
+  opportunities: Opportunity[];
+  stages: PipelineStage[];
+}
+
+/**
+ * Dashboard data narrowed to a time window. `estimated` is set when figures
+ * had to be pro-rated from sheet totals rather than summed from dated rows.
+ */
+export interface DashboardView extends DashboardData {
+  estimated: boolean;
+}
+
+/**
+ * A client dataset the dashboard can be pointed at, with its own branding
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  provider?: 'sheets' | 'ghl';
+  sheetId?: string;
+  gid?: string;
+  ghl?: GhlWorkspaceConfig;
+  logoUrl?: string;
+  // Colours by source name, over the defaults; sources without one get an automatic colour
+  sourceColors?: Record<string, string>;
+  // Other spellings of a source, by the name to show, e.g. { "LinkedIn": ["linkedin ads"] }
+  sourceAliases?: Record<string, string[]>;
+  // Share of qualified conversations below which a source is grouped into "Other" on the charts; 0 turns it off
+  otherSourceShare?: number;
+  // BCP 47 locale and ISO 4217 currency used by every formatter and chart axis; default en-US and USD
+  locale?: string;
+  currency?: string;
+  // Currency the source data is recorded in, when it differs from `currency`
+  dataCurrency?: string;
+  // Value of one unit of each other currency in `currency`, e.g. { "EUR": 1.08 } for a USD dashboard
+  currencyRates?: Record<string, number>;
+  // Fixed decimals for percentages; by default small rates get one decimal
+  percentDecimals?: number;
+  // Tab holding marketing spend by source and month; the sheet defaults to `sheetId`
+  spend?: { sheetId?: string; gid: string };
+  // Defaults until someone edits them in the dashboard
+  goals?: KpiGoal[];
+  alerts?: AlertRule[];
+  capacity?: CapacitySettings;
+  // Preset layouts offered in the views menu, e.g. one for sales and one for finance
+  views?: SavedView[];
+}
+
+export interface GhlWorkspaceConfig {
+  locationId: string;
+  pipelineId?: string;
+  // Name of the first stage that counts as a qualified conversation; defaults to the second stage
+  qualifiedStage?: string;
+  // Base URL of the proxy that adds the API token; defaults to /api/ghl
+  proxyUrl?: string;
+  // Display names for lost reason ids; unmapped ids are shown as they are
+  lostReasons?: Record<string, string>;
+}
+
+export interface ProviderResult {
+  data: DashboardData;
+  issues: DataIssue[];
+  // Where each entry came from, for providers that read a sheet
+  rows?: SheetRows;
+}
+
+/**
+ * 1-based sheet row of each entry in the dashboard arrays, so checks run
+ * after mapping can point at the row to fix
+ */
+export interface SheetRows {
+  kpis: number;
+  revenueTrend: number[];
+  weeklyConversations: number[];
+  sourceConversions: number[];
+  ownerPerformance: number[];
+  losses: number[];
+}
+
+/**
+ * A source of dashboard data. Each workspace is served by one provider.
+ */
+export interface DataProvider {
+  fetchDashboard: () => Promise<ProviderResult>;
+}
+
+export type DataIssueCategory = 'mapping' | 'value' | 'consistency' | 'duplicate';
+
+/**
+ * A problem found while reading the source data. `row` is the 1-based
+ * sheet row when the issue is tied to a single cell.
+ */
+export interface DataIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  column?: string;
+  row?: number;
+  // Missing columns, unreadable cells, values that contradict each other, or repeated periods
+  category?: DataIssueCategory;
+}
+
+export interface DashboardState extends DashboardData {
+  issues: DataIssue[];
   loading: boolean;
   error: string | null;
+  // Time of the last successful sync, which may be from the local cache
   lastUpdated: Date | null;
+  // Showing cached data that no sync in this session has confirmed yet
+  fromCache: boolean;
+}
+
+/**
+ * The aggregates from one successful sync, kept locally so later syncs can
+ * be compared against it. Row-level opportunities are not stored.
+ */
+export interface Snapshot {
+  id: number;
+  workspaceId: string;
+  takenAt: Date;
+  data: Omit<DashboardData, 'opportunities'>;
+}
+
+/**
+ * The span a goal is measured over: the current calendar month or week
+ * (to date), or whatever time window the dashboard is showing
+ */
+export type GoalPeriod = 'month' | 'week' | 'window';
+
+export interface KpiGoal {
+  metric: keyof KPIData;
+  target: number;
+  period: GoalPeriod;
+}
+
+/**
+ * Checked after every sync against the previous one. Threshold rules fire
+ * when a metric crosses `value`; win-rate rules fire when a source's win
+ * rate falls by at least `points` (0.1 = 10 pts).
+ */
+export type AlertRule =
+  | { id: string; type: 'threshold'; metric: keyof KPIData; direction: 'above' | 'below'; value: number }
+  | { id: string; type: 'winRateDrop'; points: number; minQualified?: number };
+
+/**
+ * How many clients the team can serve at once. `maxClients` caps the whole
+ * team; consultant limits are matched to opportunity owners by name and,
+ * when set, also add up to a team cap.
+ */
+export interface CapacitySettings {
+  maxClients: number | null;
+  consultants: ConsultantCapacity[];
+}
+
+export interface ConsultantCapacity {
+  name: string;
+  maxClients: number;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  severity: 'positive' | 'negative';
+  message: string;
+  raisedAt: Date;
+}
+
+// Grid width of a widget: a sixth, a third, half or the full row on wide screens
+export type WidgetSize = 'sm' | 'md' | 'lg' | 'xl';
+
+export interface LayoutItem {
+  id: string;
+  size: WidgetSize;
+  hidden?: boolean;
+}
+
+export interface SavedView {
+  name: string;
+  layout: LayoutItem[];
 }
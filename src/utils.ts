@@ -1,27 +1,88 @@
+import { KPIData } from './types';
+
+export interface FormatSettings {
+  locale: string;
+  currency: string;
+  // Fixed decimals for percentages; null shows one decimal only below 10%
+  percentDecimals: number | null;
+}
+
+export const DEFAULT_FORMAT: FormatSettings = { locale: 'en-US', currency: 'USD', percentDecimals: null };
+
+const buildFormatters = (settings: FormatSettings) => ({
+  settings,
+  currency: new Intl.NumberFormat(settings.locale, { style: 'currency', currency: settings.currency, maximumFractionDigits: 0 }),
+  compactCurrency: new Intl.NumberFormat(settings.locale, {
+    style: 'currency', currency: settings.currency, notation: 'compact', maximumFractionDigits: 1,
+  }),
+  number: new Intl.NumberFormat(settings.locale),
+});
+
+let formatters = buildFormatters(DEFAULT_FORMAT);
+// Last settings asked for, so invalid ones only warn once
+let requested = DEFAULT_FORMAT;
+
+/**
+ * Switches every formatter to a workspace's locale and currency. Invalid
+ * codes fall back to the defaults with a console warning.
+ */
+export const setFormatSettings = (settings: FormatSettings): void => {
+  if (requested.locale === settings.locale && requested.currency === settings.currency && requested.percentDecimals === settings.percentDecimals) return;
+  requested = settings;
+  try {
+    formatters = buildFormatters(settings);
+  } catch (error) {
+    console.warn(`Invalid locale '${settings.locale}' or currency '${settings.currency}'`, error);
+    formatters = buildFormatters(DEFAULT_FORMAT);
+  }
+};
+
+export const getFormatSettings = (): FormatSettings => formatters.settings;
 
 /**
  * Formats a number as currency ($X,XXX)
  */
-export const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    maximumFractionDigits: 0,
+export const formatCurrency = (value: number): string => formatters.currency.format(value);
+
+/**
+ * Short currency for chart axes ($12K, 1,2 Mio. €)
+ */
+export const formatCompactCurrency = (value: number): string => formatters.compactCurrency.format(value);
+
+/**
+ * Formats a decimal (e.g., 0.5) as a percentage (e.g., 50%). Without fixed
+ * decimals, rates under 10% keep one decimal so 0.4% does not read as 0%.
+ */
+export const formatPercent = (value: number, decimals: number | null = formatters.settings.percentDecimals): string => {
+  const digits = decimals ?? (value !== 0 && Math.abs(value) < 0.1 ? 1 : 0);
+  return new Intl.NumberFormat(formatters.settings.locale, {
+    style: 'percent',
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
   }).format(value);
 };
 
 /**
- * Formats a decimal (e.g., 0.5) as a percentage (e.g., 50%)
+ * Formats a number with thousand separators
  */
-export const formatPercent = (value: number): string => {
-  return `${Math.round(value * 100)}%`;
+export const formatNumber = (value: number): string => formatters.number.format(value);
+
+export const KPI_LABELS: Record<keyof KPIData, string> = {
+  totalOpportunities: 'Opportunities',
+  qualifiedConversations: 'Qualified Opps',
+  convertedClients: 'Closed Deals',
+  conversionRate: 'Conv. Rate',
+  totalRevenue: 'Total Revenue',
+  activeClientLoad: 'Active Clients',
 };
 
 /**
- * Formats a number with thousand separators
+ * Formats a KPI value the way its card shows it
  */
-export const formatNumber = (value: number): string => {
-  return new Intl.NumberFormat('en-US').format(value);
+export const formatKpiValue = (key: keyof KPIData, value: number): string => {
+  if (key === 'totalRevenue') return formatCurrency(value);
+  if (key === 'conversionRate') return formatPercent(value);
+  return formatNumber(value);
 };
 
 /**
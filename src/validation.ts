@@ -0,0 +1,168 @@
+import { DashboardData, DataIssue, DataIssueCategory, KPIData, SheetRows } from './types';
+import {
+  ColumnMap, KPI_COLUMNS, LOSS_COLUMNS, OWNER_COLUMNS, REVENUE_TREND_COLUMNS, SOURCE_COLUMNS, WEEKLY_COLUMNS
+} from './schema';
+import { parsePeriodLabels, PeriodKind } from './timeFilter';
+import { formatNumber, formatPercent } from './utils';
+
+// Per-source sums may drift from the KPI row through rounding in the sheet
+const TOTAL_TOLERANCE = 0.01;
+// How far a stated win rate may be from won ÷ qualified before it is flagged
+const RATE_TOLERANCE = 0.02;
+
+type Severity = DataIssue['severity'];
+type Report<T> = (severity: Severity, category: DataIssueCategory, field: keyof T, row: number | undefined, message: string) => void;
+
+/**
+ * Collects issues for one dataset. Rows and columns are only attached for
+ * sheet data, where they point at a cell someone can fix.
+ */
+const createReporter = (issues: DataIssue[], rows: SheetRows | undefined) =>
+  <T>(columns: ColumnMap<T>): Report<T> =>
+    (severity, category, field, row, message) => {
+      issues.push({
+        severity,
+        category,
+        message: rows && row ? `row ${row}: ${message}` : message,
+        ...(rows && { column: columns[field].label }),
+        ...(rows && row && { row }),
+      });
+    };
+
+const checkNegative = <T>(
+  report: Report<T>,
+  columns: ColumnMap<T>,
+  entry: T,
+  fields: (keyof T)[],
+  row: number | undefined,
+  what: string
+) => {
+  fields.forEach(field => {
+    const value = entry[field];
+    if (typeof value === 'number' && value < 0) {
+      report('error', 'value', field, row, `${columns[field].label} for ${what} is negative (${formatNumber(value)})`);
+    }
+  });
+};
+
+/**
+ * Flags repeated months or weeks. Labels are compared by the period they
+ * resolve to, so "Jan 2026" and "2026-01" count as the same month.
+ */
+const findDuplicates = (labels: string[], kind: PeriodKind | null, now: Date): { index: number; first: number }[] => {
+  const ranges = kind ? parsePeriodLabels(labels, kind, now) : [];
+  const seen = new Map<string, number>();
+  const duplicates: { index: number; first: number }[] = [];
+  labels.forEach((label, index) => {
+    const range = ranges[index];
+    const key = range ? String(range.start.getTime()) : label.trim().toLowerCase();
+    const first = seen.get(key);
+    if (first === undefined) seen.set(key, index);
+    else duplicates.push({ index, first });
+  });
+  return duplicates;
+};
+
+const differs = (sum: number, total: number) => Math.abs(sum - total) > Math.max(1, Math.abs(total) * TOTAL_TOLERANCE);
+
+/**
+ * Consistency checks on mapped dashboard data: no negative counts or
+ * amounts, rates between 0 and 100%, converted ≤ qualified ≤ opportunities,
+ * per-source totals that add up to the KPI row, stated win rates that match
+ * their counts, and no repeated months, weeks or sources. `rows` locates
+ * each entry in the sheet when the data came from one.
+ */
+export const validateDashboard = (data: DashboardData, rows?: SheetRows, now: Date = new Date()): DataIssue[] => {
+  const issues: DataIssue[] = [];
+  const reporter = createReporter(issues, rows);
+
+  const kpis = data.kpis;
+  if (kpis) {
+    const report = reporter(KPI_COLUMNS);
+    const row = rows?.kpis;
+    checkNegative(report, KPI_COLUMNS, kpis, Object.keys(KPI_COLUMNS) as (keyof KPIData)[], row, 'the KPI row');
+    if (kpis.conversionRate > 1) {
+      report('error', 'value', 'conversionRate', row, `Conversion Rate is above 100% (${formatPercent(kpis.conversionRate)})`);
+    }
+    if (kpis.convertedClients > kpis.qualifiedConversations) {
+      report('error', 'consistency', 'convertedClients', row,
+        `Converted Clients (${formatNumber(kpis.convertedClients)}) is more than Qualified Conversations (${formatNumber(kpis.qualifiedConversations)})`);
+    }
+    if (kpis.qualifiedConversations > kpis.totalOpportunities) {
+      report('error', 'consistency', 'qualifiedConversations', row,
+        `Qualified Conversations (${formatNumber(kpis.qualifiedConversations)}) is more than Total Opportunities (${formatNumber(kpis.totalOpportunities)})`);
+    }
+  }
+
+  const trend = reporter(REVENUE_TREND_COLUMNS);
+  data.revenueTrend.forEach((r, i) => checkNegative(trend, REVENUE_TREND_COLUMNS, r, ['revenue'], rows?.revenueTrend[i], r.month));
+  findDuplicates(data.revenueTrend.map(r => r.month), 'month', now).forEach(({ index, first }) => {
+    const label = data.revenueTrend[index].month;
+    trend('error', 'duplicate', 'month', rows?.revenueTrend[index],
+      `month '${label}' appears more than once${rows ? ` (first on row ${rows.revenueTrend[first]})` : ''}; its revenue is counted twice`);
+  });
+
+  const weekly = reporter(WEEKLY_COLUMNS);
+  data.weeklyConversations.forEach((w, i) => checkNegative(weekly, WEEKLY_COLUMNS, w, ['count'], rows?.weeklyConversations[i], w.week));
+  findDuplicates(data.weeklyConversations.map(w => w.week), 'week', now).forEach(({ index, first }) => {
+    const label = data.weeklyConversations[index].week;
+    weekly('error', 'duplicate', 'week', rows?.weeklyConversations[index],
+      `week '${label}' appears more than once${rows ? ` (first on row ${rows.weeklyConversations[first]})` : ''}; its conversations are counted twice`);
+  });
+
+  const source = reporter(SOURCE_COLUMNS);
+  data.sourceConversions.forEach((s, i) => {
+    const row = rows?.sourceConversions[i];
+    checkNegative(source, SOURCE_COLUMNS, s, ['qualified', 'converted', 'rate', 'revenue'], row, s.source);
+    if (s.rate > 1) source('error', 'value', 'rate', row, `Source Rate for ${s.source} is above 100% (${formatPercent(s.rate)})`);
+    if (s.converted > s.qualified) {
+      source('error', 'consistency', 'converted', row,
+        `${s.source} has more converted (${formatNumber(s.converted)}) than qualified (${formatNumber(s.qualified)})`);
+    } else if (s.qualified > 0 && Math.abs(s.rate - s.converted / s.qualified) > RATE_TOLERANCE) {
+      source('warning', 'consistency', 'rate', row,
+        `Source Rate for ${s.source} (${formatPercent(s.rate)}) does not match converted ÷ qualified (${formatPercent(s.converted / s.qualified)})`);
+    }
+  });
+  findDuplicates(data.sourceConversions.map(s => s.source), null, now).forEach(({ index, first }) => {
+    source('error', 'duplicate', 'source', rows?.sourceConversions[index],
+      `source '${data.sourceConversions[index].source}' appears more than once${rows ? ` (first on row ${rows.sourceConversions[first]})` : ''}`);
+  });
+
+  if (kpis && data.sourceConversions.length) {
+    const sum = (pick: (s: DashboardData['sourceConversions'][number]) => number) =>
+      data.sourceConversions.reduce((total, s) => total + pick(s), 0);
+    const totals: [keyof typeof SOURCE_COLUMNS, number, string, number][] = [
+      ['qualified', sum(s => s.qualified), KPI_COLUMNS.qualifiedConversations.label, kpis.qualifiedConversations],
+      ['converted', sum(s => s.converted), KPI_COLUMNS.convertedClients.label, kpis.convertedClients],
+    ];
+    const revenue = sum(s => s.revenue);
+    // Sheets without attributed revenue leave the column at zero
+    if (revenue > 0) totals.push(['revenue', revenue, KPI_COLUMNS.totalRevenue.label, kpis.totalRevenue]);
+    totals.forEach(([field, total, kpiLabel, kpiValue]) => {
+      if (!differs(total, kpiValue)) return;
+      source('warning', 'consistency', field, undefined,
+        `${SOURCE_COLUMNS[field].label} adds up to ${formatNumber(Math.round(total))} across sources but ${kpiLabel} is ${formatNumber(kpiValue)}`);
+    });
+  }
+
+  const owner = reporter(OWNER_COLUMNS);
+  data.ownerPerformance.forEach((o, i) => {
+    const row = rows?.ownerPerformance[i];
+    checkNegative(owner, OWNER_COLUMNS, o, ['qualified', 'converted', 'revenue'], row, o.owner);
+    if (o.converted > o.qualified) {
+      owner('error', 'consistency', 'converted', row,
+        `${o.owner} has more won (${formatNumber(o.converted)}) than qualified (${formatNumber(o.qualified)})`);
+    }
+  });
+
+  const loss = reporter(LOSS_COLUMNS);
+  data.losses.forEach((l, i) => checkNegative(loss, LOSS_COLUMNS, l, ['lost', 'value'], rows?.losses[i], l.reason));
+
+  data.spend.forEach(s => {
+    if (s.spend < 0) {
+      issues.push({ severity: 'error', category: 'value', message: `spend for ${s.source} in ${s.month} is negative (${formatNumber(s.spend)})` });
+    }
+  });
+
+  return issues;
+};
@@ -0,0 +1,118 @@
+import { DashboardData, DateRange, Opportunity } from './types';
+import { formatMonthLabel } from './derive';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DurationStats {
+  avg: number | null;
+  median: number | null;
+  count: number;
+}
+
+export interface StageTime extends DurationStats {
+  stageId: string;
+  name: string;
+  // Open opportunities sitting in the stage right now
+  current: number;
+}
+
+export interface CyclePoint {
+  month: string;
+  avgDays: number;
+  medianDays: number;
+  deals: number;
+}
+
+export interface VelocityData {
+  daysToClose: DurationStats;
+  daysToQualify: DurationStats;
+  // Expected won revenue per day from the current open pipeline
+  pipelineVelocity: number | null;
+  openDeals: number;
+  stageTimes: StageTime[];
+  cycleTrend: CyclePoint[];
+}
+
+const days = (from: Date, to: Date) => (to.getTime() - from.getTime()) / DAY_MS;
+
+const inWindow = (date: Date | undefined, window: DateRange | null): date is Date =>
+  !!date && (!window || (date >= window.start && date < window.end));
+
+const durationStats = (values: number[]): DurationStats => {
+  if (!values.length) return { avg: null, median: null, count: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    avg: values.reduce((a, b) => a + b, 0) / values.length,
+    median: sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    count: values.length,
+  };
+};
+
+// Time spent in each completed stage visit that ended inside the window
+const stageDwell = (opportunities: Opportunity[], window: DateRange | null): Map<string, number[]> => {
+  const dwell = new Map<string, number[]>();
+  opportunities.forEach(o => {
+    const visits = o.stageHistory ?? [];
+    visits.forEach((visit, i) => {
+      const leftAt = visits[i + 1]?.enteredAt ?? (o.status === 'open' ? undefined : o.closedAt);
+      if (!inWindow(leftAt, window)) return;
+      if (!dwell.has(visit.stageId)) dwell.set(visit.stageId, []);
+      dwell.get(visit.stageId)!.push(days(visit.enteredAt, leftAt));
+    });
+  });
+  return dwell;
+};
+
+const buildCycleTrend = (won: Opportunity[]): CyclePoint[] => {
+  const byMonth = new Map<string, { start: number; cycles: number[] }>();
+  won.forEach(o => {
+    const month = formatMonthLabel(o.closedAt!);
+    if (!byMonth.has(month)) byMonth.set(month, { start: new Date(o.closedAt!.getFullYear(), o.closedAt!.getMonth(), 1).getTime(), cycles: [] });
+    byMonth.get(month)!.cycles.push(days(o.createdAt, o.closedAt!));
+  });
+  return [...byMonth.entries()]
+    .sort((a, b) => a[1].start - b[1].start)
+    .map(([month, { cycles }]) => {
+      const stats = durationStats(cycles);
+      return { month, avgDays: stats.avg!, medianDays: stats.median!, deals: stats.count };
+    });
+};
+
+/**
+ * Sales cycle analytics from row-level data: how long deals take to
+ * qualify and close, how long they sit in each stage, and how much revenue
+ * the open pipeline is expected to produce per day.
+ *
+ * Pipeline velocity is open deals × win rate × average deal size ÷ average
+ * days to close, using deals closed in the window for the last three.
+ * Returns null for aggregate-only data.
+ */
+export const computeVelocity = (data: DashboardData, window: DateRange | null): VelocityData | null => {
+  if (!data.opportunities.length) return null;
+  const opportunities = data.opportunities;
+  const closed = opportunities.filter(o => o.status !== 'open' && inWindow(o.closedAt, window));
+  const won = closed.filter(o => o.status === 'won');
+  const open = opportunities.filter(o => o.status === 'open');
+
+  const daysToClose = durationStats(won.map(o => days(o.createdAt, o.closedAt!)));
+  const daysToQualify = durationStats(
+    opportunities.filter(o => inWindow(o.qualifiedAt, window)).map(o => Math.max(0, days(o.createdAt, o.qualifiedAt!)))
+  );
+
+  const winRate = closed.length ? won.length / closed.length : 0;
+  const avgDeal = won.length ? won.reduce((sum, o) => sum + o.value, 0) / won.length : 0;
+  const pipelineVelocity = daysToClose.avg ? (open.length * winRate * avgDeal) / daysToClose.avg : null;
+
+  const dwell = stageDwell(opportunities, window);
+  const stageTimes = [...data.stages]
+    .sort((a, b) => a.position - b.position)
+    .map(stage => ({
+      stageId: stage.id,
+      name: stage.name,
+      current: open.filter(o => o.stageId === stage.id).length,
+      ...durationStats(dwell.get(stage.id) ?? []),
+    }));
+
+  return { daysToClose, daysToQualify, pipelineVelocity, openDeals: open.length, stageTimes, cycleTrend: buildCycleTrend(won) };
+};
@@ -6,6 +6,10 @@ export default defineConfig({
   server: {
     host: '0.0.0.0',
     port: 5173,
+    proxy: {
+      // GHL workspaces call /api/ghl; in development that is server/ghl-proxy.js
+      '/api/ghl': `http://localhost:${process.env.GHL_PROXY_PORT || 8787}`,
+    },
   },
   preview: {
     host: '0.0.0.0',